@@ -1,176 +1,109 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { GameCanvas } from './components/GameCanvas';
 import { MirrorPalette } from './components/MirrorPalette';
 import { RefreshButton } from './components/RefreshButton';
 import { TrashCan } from './components/TrashCan';
-import type { Point, PlacedMirror, Obstacle, LaserSegment, DetectorType, LaserSource, LineObstacle, RectangleObstacle, CircleObstacle, BoundaryObject, MirrorType, TrackedLaserSource } from './types';
+import { SeedInput } from './components/SeedInput';
+import { HintButton } from './components/HintButton';
+import { LevelFileControls } from './components/LevelFileControls';
+import { ShareLinkControls } from './components/ShareLinkControls';
+import { EditorToggleButton } from './components/EditorToggleButton';
+import { LevelEditorOverlay } from './components/LevelEditorOverlay';
+import { LevelEditorPanel } from './components/LevelEditorPanel';
+import { ComponentInspector, type EndpointDragMode } from './components/ComponentInspector';
+import { SnapControls } from './components/SnapControls';
+import { UndoRedoButtons } from './components/UndoRedoButtons';
+import { LevelSelect } from './components/LevelSelect';
+import { LevelSelectButton } from './components/LevelSelectButton';
+import { LevelCompletePanel } from './components/LevelCompletePanel';
+import { StarRating } from './components/StarRating';
+import { DailyChallenge } from './components/DailyChallenge';
+import { DailyChallengeButton } from './components/DailyChallengeButton';
+import type { Point, PlacedMirror, TrackedLaserSource, LevelHint, Level, EditorTool, EditorSelection, SnapSettings, SnapGuide, CampaignProgress, LevelScore, PlayMode, DailyRecord } from './types';
 import { 
-    GAME_WIDTH, GAME_HEIGHT, MAX_REFLECTIONS, 
-    DETECTOR_ACCEPTANCE_ANGLE_DEGREES, DETECTOR_WIDTH, DETECTOR_HEIGHT, MAX_PLACED_MIRRORS, 
-    INITIAL_PALETTE_MIRRORS, MAX_DETECTECTORS, MAX_LASER_SOURCES,
-    SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT, OBSTACLE_COLLISION_BUFFER, GAME_BOUNDARY_PADDING,
-    MIN_OBSTACLE_LINE_LENGTH, OBSTACLE_LINE_LENGTH_VARIANCE,
-    MIN_OBSTACLE_DIMENSION, MAX_OBSTACLE_DIMENSION_VARIANCE,
-    MIN_OBSTACLE_RADIUS, MAX_OBSTACLE_RADIUS_VARIANCE,
-    GRATING_K_CONSTANT 
+    GAME_WIDTH, GAME_HEIGHT, 
+    INITIAL_PALETTE_MIRRORS, DEFAULT_SNAP_SETTINGS
 } from './constants';
-import { calculateReflection, findClosestIntersection, subtractPoints, normalizeVector, addPoints, scaleVector, dotProduct, distance, getBoundingBoxForItem, doBoundingBoxesOverlap } from './utils/geometry';
+import { subtractPoints, normalizeVector, addPoints, scaleVector, distance, focalLengthFromHandle } from './utils/geometry';
+import { createTraceClient, type TraceClient } from './utils/traceClient';
+import { laserPathsEqual, receivedPowerEqual, type TraceResult } from './utils/traceProtocol';
+import { generateRandomSeed } from './utils/random';
+import { findHint } from './utils/hints';
+import { addItemAt, deleteItem } from './utils/levelEditing';
+import { decodeShareHash, buildShareUrl, resolveSharedComponents, ShareLinkError, type SharedBoard } from './utils/shareLink';
+import { getKeyboardMirrorAction, applyKeyboardMirrorAction, describeComponent, describeMirrorPlacement } from './utils/keyboardControls';
+import { createMirrorFromTemplate, getTemplateForMirror, getLengthLimits, resizeFromEndpoint } from './utils/placement';
+import { getInventoryTemplates, getRemainingCounts } from './utils/inventory';
+import { canMoveComponent, canRotateComponent, canEditComponent, getPlayerComponents, rotateAboutPivot, describeComponentLock } from './utils/componentLocks';
+import { getAlignmentTargets, snapMirrorCenter, snapEndpoint } from './utils/snapping';
+import { buildStaticSceneIndex } from './utils/spatialIndex';
+import { createHistory, recordHistory, undoHistory, redoHistory, type History } from './utils/history';
+import {
+  findCampaignLevel, getNextCampaignLevel, getResumeCampaignLevel, isCampaignLevelUnlocked,
+  completeCampaignLevel, loadCampaignProgress, saveCampaignProgress
+} from './utils/campaign';
+import { CAMPAIGN_PACKS } from './levels/campaign';
+import { getTodayDateKey, getDailySeed, getCurrentStreak, recordDailyResult, loadDailyHistory, saveDailyHistory } from './utils/daily';
+import { scoreSolvedBoard, getPersonalBestKey, isBetterScore, loadPersonalBests, savePersonalBests } from './utils/scoring';
+
+const FREE_PLAY: PlayMode = { kind: 'free' };
 
 type DraggingMirrorInfo =
   | { mirror: PlacedMirror; type: 'endpoint'; pointType: 'p1' | 'p2' } 
-  | { mirror: PlacedMirror; type: 'body'; dragStartMousePosition: Point; originalP1: Point; originalP2: Point };
-
-
-// Calculates laser paths for a given source and identifies all detectors hit correctly by this source.
-const calculateLaserPathsForSource = (
-    source: LaserSource,
-    placedMirrors: PlacedMirror[],
-    obstacles: Obstacle[],
-    allDetectorsOnBoard: DetectorType[] 
-): { segments: LaserSegment[], allCorrectlyHitDetectorIdsFromThisSource: Set<string> } => {
-    const activeRays: Array<{ origin: Point, direction: Point, remainingInteractions: number }> = [
-        { origin: source.position, direction: source.initialDirection, remainingInteractions: MAX_REFLECTIONS }
-    ];
-    const allSegmentsForThisSource: LaserSegment[] = [];
-    const correctlyHitDetectorIdsThisSource = new Set<string>();
-    const processedRayStarts = new Set<string>();
-
-    while (activeRays.length > 0) {
-        const currentRayState = activeRays.shift();
-        if (!currentRayState || currentRayState.remainingInteractions <= 0) continue;
-
-        const { origin: rayOrigin, direction: rayDirection, remainingInteractions } = currentRayState;
-        
-        const rayKey = `${rayOrigin.x.toFixed(3)},${rayOrigin.y.toFixed(3)}-${rayDirection.x.toFixed(3)},${rayDirection.y.toFixed(3)}-${remainingInteractions}`;
-        if (processedRayStarts.has(rayKey)) continue;
-        processedRayStarts.add(rayKey);
-
-        const intersection = findClosestIntersection(rayOrigin, rayDirection, placedMirrors, obstacles, allDetectorsOnBoard);
-
-        if (!intersection) {
-            const farPoint = addPoints(rayOrigin, scaleVector(rayDirection, Math.max(GAME_WIDTH, GAME_HEIGHT) * 2));
-            allSegmentsForThisSource.push({ start: rayOrigin, end: farPoint });
-            continue; 
-        }
+  | { mirror: PlacedMirror; type: 'body'; dragStartMousePosition: Point; originalP1: Point; originalP2: Point }
+  | { mirror: PlacedMirror; type: 'curvature' };
 
-        allSegmentsForThisSource.push({ start: rayOrigin, end: intersection.point });
-        const nextOrigin = intersection.point;
-
-        if (intersection.type === 'detector') {
-            const hitDetector = intersection.object as DetectorType;
-            const laserIncidentDirection = normalizeVector(subtractPoints(nextOrigin, rayOrigin));
-            let requiredEntryDirection: Point;
-            if (hitDetector.angle === 0) requiredEntryDirection = { x: 1, y: 0 }; 
-            else if (hitDetector.angle === 90) requiredEntryDirection = { x: 0, y: 1 }; 
-            else if (hitDetector.angle === 180) requiredEntryDirection = { x: -1, y: 0 };
-            else requiredEntryDirection = { x: 0, y: -1 }; 
-            
-            const dotVal = dotProduct(laserIncidentDirection, requiredEntryDirection);
-            const acceptanceThresholdCosine = Math.cos((DETECTOR_ACCEPTANCE_ANGLE_DEGREES * Math.PI) / 180);
-
-            if (dotVal > acceptanceThresholdCosine) {
-              correctlyHitDetectorIdsThisSource.add(hitDetector.id);
-            }
-        } else if (intersection.type === 'obstacle') {
-            // Stop this branch
-        } else if (intersection.type === 'boundary') {
-            const boundary = intersection.object as BoundaryObject;
-            const reflectedDir = calculateReflection(rayDirection, boundary.normal);
-            if (remainingInteractions - 1 > 0) {
-                activeRays.push({ origin: nextOrigin, direction: reflectedDir, remainingInteractions: remainingInteractions - 1 });
-            }
-        } else if (intersection.type === 'mirror') { 
-            const mirror = intersection.object as PlacedMirror; 
-            const segmentVector = subtractPoints(mirror.p2, mirror.p1); 
-            
-            if (mirror.type === 'default' || mirror.type === 'beam-splitter') {
-                let surfaceNormalForReflection = normalizeVector({ x: -(segmentVector.y), y: segmentVector.x }); 
-                const incidentVectorForNormalCheck = scaleVector(rayDirection, -1); 
-                if (dotProduct(incidentVectorForNormalCheck, surfaceNormalForReflection) < 0) { 
-                    surfaceNormalForReflection = scaleVector(surfaceNormalForReflection, -1); 
-                }
-                const reflectedDir = calculateReflection(rayDirection, surfaceNormalForReflection);
-                if (remainingInteractions - 1 > 0) {
-                    activeRays.push({ origin: nextOrigin, direction: reflectedDir, remainingInteractions: remainingInteractions - 1 });
-                }
-                if (mirror.type === 'beam-splitter') { 
-                    if (remainingInteractions - 1 > 0) {
-                        activeRays.push({ origin: nextOrigin, direction: rayDirection, remainingInteractions: remainingInteractions - 1 });
-                    }
-                }
-            } else if (mirror.type === 'diffraction-grating') {
-                if (remainingInteractions - 1 > 0) {
-                    activeRays.push({ 
-                        origin: nextOrigin, 
-                        direction: rayDirection, 
-                        remainingInteractions: remainingInteractions - 1 
-                    });
-                }
-
-                const gratingSegmentVec = subtractPoints(mirror.p2, mirror.p1);
-                const N_base = normalizeVector({ x: -gratingSegmentVec.y, y: gratingSegmentVec.x });
-
-                let normal_for_incidence = N_base;
-                let angle_normal_for_incidence = Math.atan2(N_base.y, N_base.x);
-
-                const incident_dot_base_normal = dotProduct(rayDirection, N_base);
-                if (incident_dot_base_normal > 0) { 
-                    normal_for_incidence = scaleVector(N_base, -1);
-                    angle_normal_for_incidence = Math.atan2(normal_for_incidence.y, normal_for_incidence.x);
-                }
-                
-                const normal_for_diffraction = scaleVector(normal_for_incidence, -1); 
-                const angle_normal_for_diffraction = Math.atan2(normal_for_diffraction.y, normal_for_diffraction.x);
-                
-                const angle_incident_ray_global = Math.atan2(rayDirection.y, rayDirection.x);
-                const theta_i_signed = angle_incident_ray_global - angle_normal_for_incidence; 
-
-                const orders = [1, -1];
-                for (const m of orders) {
-                    const sin_theta_m_signed = Math.sin(theta_i_signed) - m * GRATING_K_CONSTANT;
-
-                    if (Math.abs(sin_theta_m_signed) <= 1.0) {
-                        const theta_m_signed_principal = Math.asin(sin_theta_m_signed); 
-                        
-                        const angleDiffractedRayGlobal = angle_normal_for_diffraction + theta_m_signed_principal;
-                        
-                        const diffractedDirection = normalizeVector({
-                            x: Math.cos(angleDiffractedRayGlobal),
-                            y: Math.sin(angleDiffractedRayGlobal)
-                        });
-
-                        if (remainingInteractions - 1 > 0) {
-                            activeRays.push({ 
-                                origin: nextOrigin, 
-                                direction: diffractedDirection, 
-                                remainingInteractions: remainingInteractions - 1 
-                            });
-                        }
-                    }
-                }
-            }
-        }
-    }
-    return { segments: allSegmentsForThisSource, allCorrectlyHitDetectorIdsFromThisSource: correctlyHitDetectorIdsThisSource };
-};
+// A level being generated in the worker, and how to open it once it arrives
+type GenerationRequest = { seed: string; playMode: PlayMode; sharedMirrors?: PlacedMirror[] };
 
+const EMPTY_LEVEL: Level = { sources: [], detectors: [], obstacles: [], inventory: [], maxComponents: 0, placedMirrors: [] };
 
 const App: React.FC = () => {
+  const [level, setLevel] = useState<Level>(EMPTY_LEVEL);
+  const [generationRequest, setGenerationRequest] = useState<GenerationRequest | null>(null);
   const [trackedLaserSources, setTrackedLaserSources] = useState<TrackedLaserSource[]>([]);
-  const [detectors, setDetectors] = useState<DetectorType[]>([]);
   const [placedMirrors, setPlacedMirrors] = useState<PlacedMirror[]>([]);
-  const [obstacles, setObstacles] = useState<Obstacle[]>([]);
   const [overallSuccess, setOverallSuccess] = useState<boolean>(false);
-  const [levelSeed, setLevelSeed] = useState<number>(0);
+  const [hint, setHint] = useState<LevelHint | null>(null);
+  const [hintsUsed, setHintsUsed] = useState<number>(0);
+  const [isHintUnavailable, setIsHintUnavailable] = useState<boolean>(false); // The last hint request found nothing
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [editorTool, setEditorTool] = useState<EditorTool>('select');
+  const [editorSelection, setEditorSelection] = useState<EditorSelection>(null);
   const [masterCorrectlyHitDetectorIds, setMasterCorrectlyHitDetectorIds] = useState<Set<string>>(new Set());
+  const [detectorReceivedPower, setDetectorReceivedPower] = useState<Record<string, number>>({});
+  const [announcement, setAnnouncement] = useState<string>(''); // Read out by screen readers through the live region
+  const [playMode, setPlayMode] = useState<PlayMode>(FREE_PLAY);
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress>(loadCampaignProgress);
+  const [isLevelSelectOpen, setIsLevelSelectOpen] = useState<boolean>(false);
+  const [dailyHistory, setDailyHistory] = useState<Record<string, DailyRecord>>(loadDailyHistory);
+  const [isDailyChallengeOpen, setIsDailyChallengeOpen] = useState<boolean>(false);
+  const [levelScore, setLevelScore] = useState<LevelScore | null>(null); // Of the current solve; null while unsolved
+  const [personalBests, setPersonalBests] = useState<Record<string, LevelScore>>(loadPersonalBests);
+  const [pendingFocusMirrorId, setPendingFocusMirrorId] = useState<string | null>(null);
+  const [selectedMirrorId, setSelectedMirrorId] = useState<string | null>(null); // Shown in the inspector
+  const [endpointDragMode, setEndpointDragMode] = useState<EndpointDragMode>('rotate');
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]); // What the current drag snapped to
+  const [mirrorHistory, setMirrorHistory] = useState<History<PlacedMirror[]>>(createHistory);
 
   const [draggingMirrorInfo, setDraggingMirrorInfo] = useState<DraggingMirrorInfo | null>(null);
   const [isPointerOverTrash, setIsPointerOverTrash] = useState<boolean>(false);
   const svgRef = useRef<SVGSVGElement>(null);
   const trashCanRef = useRef<HTMLDivElement>(null);
+  const dragStartMirrorsRef = useRef<PlacedMirror[] | null>(null); // Board before the current drag, recorded as one history entry
+  const solveStartTimeRef = useRef<number | null>(null); // Set at the player's first edit; null while the board is as it loaded
+  const isSolveScoredRef = useRef<boolean>(false); // A solve is scored once, when it happens, not again on every later move
+  const hasOpenedInitialBoardRef = useRef<boolean>(false); // The shared or resumed board is opened once per mount
 
 
+  // Solve times count from the player's first change to the board, not from when it was opened
+  const startSolveTimer = useCallback(() => {
+    if (solveStartTimeRef.current === null) solveStartTimeRef.current = Date.now();
+  }, []);
+
   const generateId = useCallback(() => Date.now().toString(36) + Math.random().toString(36).substring(2), []);
 
   const getSVGCoordinates = useCallback((clientX: number, clientY: number): Point | null => {
@@ -184,268 +117,449 @@ const App: React.FC = () => {
     return null;
   }, []);
 
-  const resetLevel = useCallback(() => {
-    setPlacedMirrors([]);
+  const { detectors, obstacles } = level;
+  const levelSolution = level.solution ?? [];
+  const solutionComponentCount = getPlayerComponents(levelSolution).length; // Not the level's own components it turns or slides
+  // Obstacles and detectors only change with the level (or in the editor), not while mirrors are dragged
+  const staticIndex = useMemo(() => buildStaticSceneIndex(obstacles, detectors), [obstacles, detectors]);
+  const paletteTemplates = useMemo(() => getInventoryTemplates(level.inventory), [level.inventory]);
+  const remainingCounts = useMemo(
+    () => getRemainingCounts(level.inventory, placedMirrors, level.maxComponents),
+    [level.inventory, placedMirrors, level.maxComponents]
+  );
+  const availableTemplates = useMemo(
+    () => paletteTemplates.filter(t => (remainingCounts[t.id] ?? 0) > 0),
+    [paletteTemplates, remainingCounts]
+  );
+
+  const applyLevel = useCallback((newLevel: Level, newPlayMode: PlayMode = FREE_PLAY) => {
+    setLevel(newLevel);
+    setGenerationRequest(null); // Whatever level was still being generated is no longer wanted
+    setPlayMode(newPlayMode);
+    solveStartTimeRef.current = null;
+    setPlacedMirrors(newLevel.placedMirrors);
     setDraggingMirrorInfo(null);
     setMasterCorrectlyHitDetectorIds(new Set());
     setIsPointerOverTrash(false);
-    
-    const numSourcesToGenerate = 1 + Math.floor(Math.random() * MAX_LASER_SOURCES);
-    
-    let numDetectorsToGenerate = numSourcesToGenerate + 1; 
-    if (numDetectorsToGenerate < MAX_DETECTECTORS) {
-        const maxCanAdd = MAX_DETECTECTORS - numDetectorsToGenerate;
-        numDetectorsToGenerate += Math.floor(Math.random() * (maxCanAdd + 1));
-    }
-    numDetectorsToGenerate = Math.min(MAX_DETECTECTORS, numDetectorsToGenerate);
-    numDetectorsToGenerate = Math.max(numSourcesToGenerate + 1, numDetectorsToGenerate);
+    setTrackedLaserSources(newLevel.sources.map(s => ({ id: s.id, source: s, laserPath: [] })));
+    setHint(null);
+    setIsHintUnavailable(false);
+    setHintsUsed(0);
+    setEditorSelection(null);
+    setSelectedMirrorId(null);
+    setMirrorHistory(createHistory());
+    setOverallSuccess(false); 
+  }, []);
 
+  const resetLevel = useCallback((seed: string) => {
+    setGenerationRequest({ seed, playMode: FREE_PLAY });
+  }, []);
 
-    const tempNewSources: LaserSource[] = [];
-    const tempNewDetectors: DetectorType[] = [];
-    
-    const availableSourceEdges: ('left' | 'top' | 'bottom')[] = ['left', 'top', 'bottom'];
-    const availableDetectorEdges: ('right' | 'top' | 'bottom')[] = ['right', 'top', 'bottom'];
-
-    const usedSourcePositions: Point[] = [];
-    const usedDetectorPositions: Point[] = [];
-
-    for (let i = 0; i < numSourcesToGenerate; i++) {
-        const sourceId = `source-${generateId()}-${i}`;
-        let sourcePos: Point;
-        let sourceInitialDirection: Point;
-        
-        const sourceEdge = availableSourceEdges[Math.floor(Math.random() * availableSourceEdges.length)];
-        let attempts = 0;
-        do {
-            const randomY = GAME_BOUNDARY_PADDING + SOURCE_EMITTER_HEIGHT / 2 + Math.random() * (GAME_HEIGHT - 2 * GAME_BOUNDARY_PADDING - SOURCE_EMITTER_HEIGHT);
-            const randomX = GAME_BOUNDARY_PADDING + SOURCE_EMITTER_HEIGHT / 2 + Math.random() * (GAME_WIDTH - 2 * GAME_BOUNDARY_PADDING - SOURCE_EMITTER_HEIGHT);
-            
-            let directions: Point[];
-            switch(sourceEdge) {
-                case 'top':
-                    sourcePos = { x: randomX, y: GAME_BOUNDARY_PADDING + SOURCE_EMITTER_WIDTH / 2 }; 
-                    directions = [{x:0, y:1}, {x:0.707, y:0.707}, {x:-0.707, y:0.707}]; 
-                    break;
-                case 'bottom':
-                    sourcePos = { x: randomX, y: GAME_HEIGHT - (GAME_BOUNDARY_PADDING + SOURCE_EMITTER_WIDTH / 2) };
-                    directions = [{x:0, y:-1}, {x:0.707, y:-0.707}, {x:-0.707, y:-0.707}]; 
-                    break;
-                case 'left':
-                default:
-                    sourcePos = { x: GAME_BOUNDARY_PADDING + SOURCE_EMITTER_WIDTH / 2, y: randomY };
-                    directions = [{x:1, y:0}, {x:0.707, y:0.707}, {x:0.707, y:-0.707}]; 
-                    break;
-            }
-            sourceInitialDirection = normalizeVector(directions[Math.floor(Math.random() * directions.length)]);
-            attempts++;
-        } while (usedSourcePositions.some(p => distance(p, sourcePos) < Math.max(SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT) * 1.5) && attempts < 10);
-        usedSourcePositions.push(sourcePos);
-        tempNewSources.push({ id: sourceId, position: sourcePos, initialDirection: sourceInitialDirection });
-    }
+  const startCampaignLevel = useCallback((levelId: string) => {
+    const entry = findCampaignLevel(levelId);
+    if (!entry) return;
+    setIsEditing(false);
+    applyLevel(entry.level, { kind: 'campaign', levelId: entry.id });
+    setIsLevelSelectOpen(false);
+  }, [applyLevel]);
+
+  // The same board resetLevel makes from the date's seed, so every player gets the same daily
+  const startDailyChallenge = useCallback((dateKey: string) => {
+    setIsEditing(false);
+    setGenerationRequest({ seed: getDailySeed(dateKey), playMode: { kind: 'daily', date: dateKey } });
+    setIsDailyChallengeOpen(false);
+  }, []);
 
-    for (let i = 0; i < numDetectorsToGenerate; i++) {
-        const detectorId = `detector-${generateId()}-${i}`;
-        let detectorPos: Point;
-        const detectorEdge = availableDetectorEdges[Math.floor(Math.random() * availableDetectorEdges.length)];
-        let attempts = 0;
-        do {
-            const randomYDet = GAME_BOUNDARY_PADDING + DETECTOR_HEIGHT/2 + Math.random() * (GAME_HEIGHT - 2 * GAME_BOUNDARY_PADDING - DETECTOR_HEIGHT);
-            const randomXDet = GAME_BOUNDARY_PADDING + DETECTOR_WIDTH/2 + Math.random() * (GAME_WIDTH - 2* GAME_BOUNDARY_PADDING - DETECTOR_WIDTH);
-            switch(detectorEdge) {
-                case 'top':
-                    detectorPos = { x: randomXDet, y: GAME_BOUNDARY_PADDING };
-                    break;
-                case 'bottom':
-                    detectorPos = { x: randomXDet, y: GAME_HEIGHT - GAME_BOUNDARY_PADDING - DETECTOR_HEIGHT };
-                    break;
-                case 'right':
-                default:
-                    detectorPos = { x: GAME_WIDTH - GAME_BOUNDARY_PADDING - DETECTOR_WIDTH, y: randomYDet };
-                    break;
-            }
-            attempts++;
-        } while (usedDetectorPositions.some(p => distance(p, {x: detectorPos.x + DETECTOR_WIDTH/2, y: detectorPos.y + DETECTOR_HEIGHT/2 }) < DETECTOR_HEIGHT * 1.5) && attempts < 10);
-        usedDetectorPositions.push({x: detectorPos.x + DETECTOR_WIDTH/2, y: detectorPos.y + DETECTOR_HEIGHT/2 });
-        
-        let detectorAngle: number;
-        switch(detectorEdge) {
-            case 'top': detectorAngle = 270; break; 
-            case 'bottom': detectorAngle = 90; break; 
-            case 'right': default: detectorAngle = 0; break; 
-        }
-        tempNewDetectors.push({ 
-            id: detectorId, 
-            x: detectorPos.x, 
-            y: detectorPos.y,
-            width: DETECTOR_WIDTH, 
-            height: DETECTOR_HEIGHT, 
-            angle: detectorAngle
-        });
+  const handleCloseDailyChallenge = useCallback(() => setIsDailyChallengeOpen(false), []);
+
+  const handleCloseLevelSelect = useCallback(() => setIsLevelSelectOpen(false), []);
+
+  const handlePlayRandom = useCallback(() => {
+    setIsEditing(false);
+    resetLevel(generateRandomSeed());
+    setIsLevelSelectOpen(false);
+  }, [resetLevel]);
+
+  const applySharedBoard = useCallback((sharedLevel: Level, sharedMirrors: PlacedMirror[]) => {
+    // Checked before anything changes, so a bad link leaves the current board alone
+    const resolvedMirrors = sharedMirrors.length > 0 ? resolveSharedComponents(sharedLevel, sharedMirrors) : null;
+    applyLevel(sharedLevel);
+    if (resolvedMirrors) setPlacedMirrors(resolvedMirrors);
+  }, [applyLevel]);
+
+  // Seed links are opened once the worker has generated their level
+  const restoreSharedBoard = useCallback((shared: SharedBoard) => {
+    if (shared.kind === 'seed') {
+      setGenerationRequest({ seed: shared.seed, playMode: FREE_PLAY, sharedMirrors: shared.placedMirrors });
+    } else {
+      applySharedBoard(shared.level, shared.placedMirrors);
     }
-    
-    const newObstaclesList: Obstacle[] = [];
-    const numObstaclesToGenerate = 10 + Math.floor(Math.random() * 11); 
-    const MAX_ATTEMPTS_PER_OBSTACLE = 20;
-
-    const itemsToAvoidCollisionWith: (Obstacle | LaserSource | DetectorType)[] = [];
-    tempNewSources.forEach(s => itemsToAvoidCollisionWith.push(s));
-    tempNewDetectors.forEach(d => itemsToAvoidCollisionWith.push(d));
-
-    const obsPlacementXMin = GAME_BOUNDARY_PADDING + Math.max(SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT) + 30; 
-    const obsPlacementXMax = GAME_WIDTH - (GAME_BOUNDARY_PADDING + DETECTOR_WIDTH + 30);
-    const obsPlacementYMin = GAME_BOUNDARY_PADDING + Math.max(SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT) + 30;
-    const obsPlacementYMax = GAME_HEIGHT - (GAME_BOUNDARY_PADDING + Math.max(SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT) + 30);
-
-    for (let i = 0; i < numObstaclesToGenerate; i++) {
-        let placedObstacleSuccessfully = false;
-        for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_OBSTACLE; attempt++) {
-            let candidateObstacle: Obstacle;
-            const shapeOptions: ('line' | 'rectangle' | 'circle')[] = ['line', 'rectangle', 'circle'];
-            const shape = shapeOptions[Math.floor(Math.random() * shapeOptions.length)];
-            const id = `obs-${generateId()}-${i}-${attempt}`;
-
-            if (shape === 'line') {
-                let p1: Point, p2: Point; let lineAttempts = 0;
-                do {
-                    p1 = { x: obsPlacementXMin + Math.random() * (obsPlacementXMax - obsPlacementXMin), y: obsPlacementYMin + Math.random() * (obsPlacementYMax - obsPlacementYMin) };
-                    const angle = Math.random() * 2 * Math.PI; const length = MIN_OBSTACLE_LINE_LENGTH + Math.random() * OBSTACLE_LINE_LENGTH_VARIANCE;
-                    p2 = { x: p1.x + Math.cos(angle) * length, y: p1.y + Math.sin(angle) * length };
-                    lineAttempts++;
-                } while ((p2.x < GAME_BOUNDARY_PADDING || p2.x > GAME_WIDTH - GAME_BOUNDARY_PADDING || p2.y < GAME_BOUNDARY_PADDING || p2.y > GAME_HEIGHT - GAME_BOUNDARY_PADDING || p1.x < GAME_BOUNDARY_PADDING || p1.x > GAME_WIDTH - GAME_BOUNDARY_PADDING || p1.y < GAME_BOUNDARY_PADDING || p1.y > GAME_HEIGHT - GAME_BOUNDARY_PADDING) && lineAttempts < 10);
-                if (lineAttempts === 10) continue; 
-                p1.x = Math.max(GAME_BOUNDARY_PADDING, Math.min(GAME_WIDTH - GAME_BOUNDARY_PADDING, p1.x)); p1.y = Math.max(GAME_BOUNDARY_PADDING, Math.min(GAME_HEIGHT - GAME_BOUNDARY_PADDING, p1.y));
-                p2.x = Math.max(GAME_BOUNDARY_PADDING, Math.min(GAME_WIDTH - GAME_BOUNDARY_PADDING, p2.x)); p2.y = Math.max(GAME_BOUNDARY_PADDING, Math.min(GAME_HEIGHT - GAME_BOUNDARY_PADDING, p2.y));
-                if (distance(p1, p2) < MIN_OBSTACLE_LINE_LENGTH / 2) continue;
-                candidateObstacle = { id, shape: 'line', p1, p2 };
-            } else if (shape === 'rectangle') {
-                const width = MIN_OBSTACLE_DIMENSION + Math.random() * MAX_OBSTACLE_DIMENSION_VARIANCE; const height = MIN_OBSTACLE_DIMENSION + Math.random() * MAX_OBSTACLE_DIMENSION_VARIANCE;
-                const x = obsPlacementXMin + Math.random() * (obsPlacementXMax - obsPlacementXMin - width); const y = obsPlacementYMin + Math.random() * (obsPlacementYMax - obsPlacementYMin - height);
-                if (x < GAME_BOUNDARY_PADDING || x + width > GAME_WIDTH - GAME_BOUNDARY_PADDING || y < GAME_BOUNDARY_PADDING || y + height > GAME_HEIGHT - GAME_BOUNDARY_PADDING) continue;
-                candidateObstacle = { id, shape: 'rectangle', x, y, width, height };
-            } else { 
-                const radius = MIN_OBSTACLE_RADIUS + Math.random() * MAX_OBSTACLE_RADIUS_VARIANCE;
-                const cx = obsPlacementXMin + radius + Math.random() * (Math.max(0, obsPlacementXMax - obsPlacementXMin - 2 * radius)); const cy = obsPlacementYMin + radius + Math.random() * (Math.max(0, obsPlacementYMax - obsPlacementYMin - 2 * radius));
-                if (cx - radius < GAME_BOUNDARY_PADDING || cx + radius > GAME_WIDTH - GAME_BOUNDARY_PADDING || cy - radius < GAME_BOUNDARY_PADDING || cy + radius > GAME_HEIGHT - GAME_BOUNDARY_PADDING) continue;
-                candidateObstacle = {id, shape: 'circle', cx, cy, radius};
-            }
-
-            const candidateBox = getBoundingBoxForItem(candidateObstacle, SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT);
-            let isOverlapping = false;
-            for (const existingItem of itemsToAvoidCollisionWith) {
-                const existingBox = getBoundingBoxForItem(existingItem, SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT);
-                if (doBoundingBoxesOverlap(candidateBox, existingBox, OBSTACLE_COLLISION_BUFFER)) { isOverlapping = true; break; }
-            }
-            if (!isOverlapping) { newObstaclesList.push(candidateObstacle); itemsToAvoidCollisionWith.push(candidateObstacle); placedObstacleSuccessfully = true; break; }
-        }
+  }, [applySharedBoard]);
+
+  // Opens the board in the URL hash, if any. Returns false when the hash holds no usable board.
+  const loadBoardFromHash = useCallback((): boolean => {
+    try {
+      const shared = decodeShareHash(window.location.hash);
+      if (!shared) return false;
+      restoreSharedBoard(shared);
+      setShareLinkError(null);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ShareLinkError)) throw error;
+      setShareLinkError(error.message);
+      return false;
+    } finally {
+      // The link has been consumed; later refreshes should not bring the shared board back
+      if (window.location.hash) {
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      }
     }
-    setObstacles(newObstaclesList);
-    setDetectors(tempNewDetectors);
-    setTrackedLaserSources(tempNewSources.map(s => ({ id: s.id, source: s, laserPath: [] })));
-    setOverallSuccess(false); 
-  }, [generateId]);
+  }, [restoreSharedBoard]);
 
   useEffect(() => {
-    resetLevel();
-  }, [levelSeed, resetLevel]); 
+    // StrictMode runs mount effects twice; by the second run the hash is consumed and would reset the board
+    if (hasOpenedInitialBoardRef.current) return;
+    hasOpenedInitialBoardRef.current = true;
+    if (!loadBoardFromHash()) {
+      // Without a shared board, pick the campaign up where the player left it
+      const entry = getResumeCampaignLevel(loadCampaignProgress());
+      applyLevel(entry.level, { kind: 'campaign', levelId: entry.id });
+      setIsLevelSelectOpen(true);
+    }
+  }, [loadBoardFromHash, applyLevel]);
 
+  useEffect(() => {
+    const handleHashChange = () => { loadBoardFromHash(); };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [loadBoardFromHash]); 
+
+
+  // Tracing runs in a worker; results only replace state when something actually changed,
+  // so an unchanged frame does not re-render the board.
+  const handleTraceResult = useCallback((result: TraceResult) => {
+    setTrackedLaserSources(prev => {
+      let pathsChanged = false;
+      const next = prev.map(trackedSrc => {
+        const laserPath = result.paths.find(p => p.sourceId === trackedSrc.id)?.segments;
+        if (!laserPath || laserPathsEqual(laserPath, trackedSrc.laserPath)) return trackedSrc;
+        pathsChanged = true;
+        return { ...trackedSrc, laserPath };
+      });
+      return pathsChanged ? next : prev;
+    });
+    setMasterCorrectlyHitDetectorIds(prev => (
+      prev.size === result.hitDetectorIds.size && [...result.hitDetectorIds].every(id => prev.has(id)) ? prev : result.hitDetectorIds
+    ));
+    setDetectorReceivedPower(prev => (receivedPowerEqual(prev, result.receivedPower) ? prev : result.receivedPower));
+    setOverallSuccess(result.allDetectorsHit);
+  }, []);
+
+  const traceClientRef = useRef<TraceClient | null>(null);
+  useEffect(() => {
+    const client = createTraceClient(handleTraceResult);
+    traceClientRef.current = client;
+    return () => {
+      client.dispose();
+      traceClientRef.current = null;
+    };
+  }, [handleTraceResult]);
 
   useEffect(() => {
-    if (trackedLaserSources.length === 0 || detectors.length === 0) {
-      if(overallSuccess) setOverallSuccess(false);
+    if (!generationRequest) return;
+    const { seed, playMode: requestedPlayMode, sharedMirrors } = generationRequest;
+    return traceClientRef.current?.generate(seed, generatedLevel => {
+      if (!sharedMirrors) {
+        applyLevel(generatedLevel, requestedPlayMode);
+        return;
+      }
+      try {
+        applySharedBoard(generatedLevel, sharedMirrors);
+      } catch (error) {
+        if (!(error instanceof ShareLinkError)) throw error;
+        setGenerationRequest(null);
+        setShareLinkError(error.message);
+      }
+    });
+  }, [generationRequest, applyLevel, applySharedBoard]);
+
+  useEffect(() => {
+    if (level.sources.length === 0 || detectors.length === 0) {
+      setOverallSuccess(false);
       return;
     }
-
-    const newMasterCorrectlyHitDetectorIds = new Set<string>();
-
-    const newTrackedLaserSourcesWithPaths = trackedLaserSources.map(trackedSrc => {
-        const {segments, allCorrectlyHitDetectorIdsFromThisSource } = 
-            calculateLaserPathsForSource(
-                trackedSrc.source, 
-                placedMirrors, 
-                obstacles, 
-                detectors 
-            );
-        
-        allCorrectlyHitDetectorIdsFromThisSource.forEach(id => newMasterCorrectlyHitDetectorIds.add(id));
-        
-        return { ...trackedSrc, laserPath: segments }; 
+    traceClientRef.current?.trace({
+      sources: level.sources,
+      detectors,
+      obstacles,
+      mirrors: placedMirrors,
+      absorbingBoundaries: level.absorbingBoundaries,
     });
-    
-    let pathsChanged = false;
-    if (newTrackedLaserSourcesWithPaths.length !== trackedLaserSources.length) {
-        pathsChanged = true; 
-    } else {
-        for (let i = 0; i < newTrackedLaserSourcesWithPaths.length; i++) {
-            if (JSON.stringify(newTrackedLaserSourcesWithPaths[i].laserPath) !== JSON.stringify(trackedLaserSources[i].laserPath) ) {
-                pathsChanged = true;
-                break;
-            }
-        }
+  }, [level.sources, detectors, obstacles, placedMirrors, level.absorbingBoundaries]);
+
+  useEffect(() => {
+    if (overallSuccess) {
+      setHint(null);
+      setIsHintUnavailable(false);
     }
+  }, [overallSuccess]);
 
-    if (pathsChanged) {
-        setTrackedLaserSources(newTrackedLaserSourcesWithPaths);
+  const campaignLevelId = playMode.kind === 'campaign' ? playMode.levelId : null;
+
+  useEffect(() => {
+    if (overallSuccess && campaignLevelId && !isEditing) {
+      setCampaignProgress(prev => completeCampaignLevel(prev, campaignLevelId));
     }
-    
-    if (newMasterCorrectlyHitDetectorIds.size !== masterCorrectlyHitDetectorIds.size || 
-        ![...newMasterCorrectlyHitDetectorIds].every(id => masterCorrectlyHitDetectorIds.has(id))) {
-        setMasterCorrectlyHitDetectorIds(newMasterCorrectlyHitDetectorIds);
+  }, [overallSuccess, campaignLevelId, isEditing]);
+
+  useEffect(() => {
+    saveCampaignProgress(campaignProgress);
+  }, [campaignProgress]);
+
+  const personalBestKey = getPersonalBestKey(level, campaignLevelId);
+  const todayKey = getTodayDateKey();
+  const personalBest = personalBestKey ? personalBests[personalBestKey] : undefined;
+
+  useEffect(() => {
+    if (!overallSuccess || isEditing) {
+      isSolveScoredRef.current = false;
+      setLevelScore(null);
+      return;
     }
-    
-    const currentOverallSuccess = detectors.length > 0 && 
-                                  detectors.every(d => newMasterCorrectlyHitDetectorIds.has(d.id));
+    if (isSolveScoredRef.current) return;
+    isSolveScoredRef.current = true;
+    // Boards that load solved (share links with the player's components, restored boards) weren't solved here
+    if (solveStartTimeRef.current === null) {
+      setLevelScore(null);
+      return;
+    }
+    const score = scoreSolvedBoard({
+      componentsUsed: getPlayerComponents(placedMirrors).length,
+      maxComponents: level.maxComponents,
+      laserPaths: trackedLaserSources.map(t => t.laserPath),
+      solveTimeMs: Date.now() - solveStartTimeRef.current,
+    }, level.starThresholds);
+    setLevelScore(score);
+    if (personalBestKey) {
+      setPersonalBests(prev => (isBetterScore(score, prev[personalBestKey]) ? { ...prev, [personalBestKey]: score } : prev));
+    }
+    if (playMode.kind === 'daily') {
+      setDailyHistory(prev => recordDailyResult(prev, playMode.date, score, playMode.date === getTodayDateKey()));
+    }
+  }, [overallSuccess, isEditing, placedMirrors, trackedLaserSources, level.maxComponents, level.starThresholds, personalBestKey, playMode]);
+
+  useEffect(() => {
+    savePersonalBests(personalBests);
+  }, [personalBests]);
 
-    if (currentOverallSuccess !== overallSuccess) {
-        setOverallSuccess(currentOverallSuccess);
+  useEffect(() => {
+    saveDailyHistory(dailyHistory);
+  }, [dailyHistory]);
+
+  const nextCampaignLevel = campaignLevelId ? getNextCampaignLevel(campaignLevelId) ?? null : null;
+  const canStartNextCampaignLevel = nextCampaignLevel !== null && isCampaignLevelUnlocked(nextCampaignLevel.id, campaignProgress);
+
+  const getLevelForExport = useCallback((includePlacedMirrors: boolean): Level => ({
+    ...level,
+    placedMirrors: includePlacedMirrors ? placedMirrors : level.placedMirrors,
+  }), [level, placedMirrors]);
+
+  // Editor changes replace the board in place; laser paths are kept until the next trace replaces them.
+  const handleEditorLevelChange = useCallback((editedLevel: Level) => {
+    setLevel(editedLevel);
+    setTrackedLaserSources(prev => editedLevel.sources.map(s => ({
+      id: s.id,
+      source: s,
+      laserPath: prev.find(t => t.id === s.id)?.laserPath ?? [],
+    })));
+  }, []);
+
+  const handlePlaceEditorItem = useCallback((point: Point) => {
+    if (editorTool === 'select') return;
+    const { level: editedLevel, selection } = addItemAt(level, editorTool, point);
+    handleEditorLevelChange(editedLevel);
+    setEditorSelection(selection);
+    setEditorTool('select'); // So the new item can be dragged or resized right away
+  }, [level, editorTool, handleEditorLevelChange]);
+
+  const handleDeleteEditorSelection = useCallback(() => {
+    if (!editorSelection) return;
+    handleEditorLevelChange(deleteItem(level, editorSelection));
+    setEditorSelection(null);
+  }, [level, editorSelection, handleEditorLevelChange]);
+
+  const canPlaytest = level.sources.length > 0 && level.detectors.length > 0;
+
+  const handleToggleEditor = useCallback(() => {
+    if (isEditing) {
+      if (!canPlaytest) return;
+      setIsEditing(false);
+      applyLevel(level); // Playtest starts from the level's own pre-placed components
+    } else {
+      setIsEditing(true);
+      setEditorTool('select');
+      setEditorSelection(null);
+      setHint(null);
+      setIsHintUnavailable(false);
+      setDraggingMirrorInfo(null);
+      setPlacedMirrors(level.placedMirrors);
+      setMirrorHistory(createHistory());
     }
-    
-  }, [trackedLaserSources, detectors, placedMirrors, obstacles, overallSuccess, masterCorrectlyHitDetectorIds]);
+  }, [isEditing, canPlaytest, level, applyLevel]);
+
+  const getShareUrl = useCallback((includePlacedMirrors: boolean): string => {
+    return buildShareUrl(level, includePlacedMirrors ? placedMirrors : []);
+  }, [level, placedMirrors]);
+
+  const handleRequestHint = useCallback(() => {
+    const scene = { sources: trackedLaserSources.map(t => t.source), detectors, obstacles, absorbingBoundaries: level.absorbingBoundaries, staticIndex };
+    const hintOptions = { templates: paletteTemplates, placeableTemplates: availableTemplates, maxComponents: level.maxComponents };
+    const nextHint = findHint(scene, placedMirrors, hintOptions, levelSolution);
+    setHint(nextHint);
+    setIsHintUnavailable(nextHint === null);
+    if (nextHint) setHintsUsed(n => n + 1);
+  }, [trackedLaserSources, detectors, obstacles, level.absorbingBoundaries, staticIndex, placedMirrors, paletteTemplates, availableTemplates, level.maxComponents, levelSolution]);
 
   const deletePlacedMirror = useCallback((mirrorId: string) => {
     setPlacedMirrors(prev => prev.filter(m => m.id !== mirrorId));
+    setSelectedMirrorId(prev => (prev === mirrorId ? null : prev));
     setDraggingMirrorInfo(null); // Ensure dragging state is cleared
   }, []);
 
-  const handleDropMirror = useCallback((templateId: string, dropX: number, dropY: number) => {
-    if (placedMirrors.length >= MAX_PLACED_MIRRORS) {
+  const handleDropMirror = useCallback((templateId: string, dropX: number, dropY: number): PlacedMirror | null => {
+    if (getPlayerComponents(placedMirrors).length >= level.maxComponents) {
         console.warn("Max optical components placed.");
-        return;
+        setAnnouncement(`No more components can be placed. The limit is ${level.maxComponents}.`);
+        return null;
     }
-    const template = INITIAL_PALETTE_MIRRORS.find(t => t.id === templateId);
-    if (!template) return;
-
-    const newMirrorId = generateId();
-    let p1: Point, p2: Point;
-    const length = template.defaultLength;
-
-    if (template.defaultAngle !== undefined) {
-        const angleRad = template.defaultAngle * (Math.PI / 180);
-        p1 = { x: dropX - (length / 2) * Math.cos(angleRad), y: dropY - (length / 2) * Math.sin(angleRad) };
-        p2 = { x: dropX + (length / 2) * Math.cos(angleRad), y: dropY + (length / 2) * Math.sin(angleRad) };
-    } else { 
-        p1 = { x: dropX - length / 2, y: dropY };
-        p2 = { x: dropX + length / 2, y: dropY };
+    const template = paletteTemplates.find(t => t.id === templateId);
+    if (!template) return null;
+    if ((remainingCounts[templateId] ?? 0) <= 0) {
+        setAnnouncement(`No ${template.description} left to place.`);
+        return null;
     }
-    
-    const newMirror: PlacedMirror = { id: newMirrorId, p1, p2, type: template.type as MirrorType };
+
+    const newMirror = createMirrorFromTemplate(template, generateId(), { x: dropX, y: dropY });
+    startSolveTimer();
+    setMirrorHistory(h => recordHistory(h, placedMirrors));
     setPlacedMirrors(prev => [...prev, newMirror]);
-  }, [generateId, placedMirrors.length]);
+    setSelectedMirrorId(newMirror.id);
+    setAnnouncement(`Placed ${describeComponent(newMirror)}, ${describeMirrorPlacement(newMirror)}.`);
+    return newMirror;
+  }, [generateId, placedMirrors, level.maxComponents, paletteTemplates, remainingCounts, startSolveTimer]);
+
+  const handlePlaceAtCenter = useCallback((templateId: string) => {
+    const placed = handleDropMirror(templateId, GAME_WIDTH / 2, GAME_HEIGHT / 2);
+    if (placed) setPendingFocusMirrorId(placed.id); // Keep keyboard users on the new component
+  }, [handleDropMirror]);
+
+  // Moves focus once the component has been rendered, e.g. after keyboard placement or deletion.
+  useEffect(() => {
+    if (!pendingFocusMirrorId) return;
+    svgRef.current?.querySelector<SVGGElement>(`[data-mirror-id="${pendingFocusMirrorId}"]`)?.focus();
+    setPendingFocusMirrorId(null);
+  }, [pendingFocusMirrorId, placedMirrors]);
+
+  const handleMirrorKeyDown = useCallback((mirrorId: string, event: React.KeyboardEvent<SVGElement>) => {
+    const action = getKeyboardMirrorAction(event);
+    const index = placedMirrors.findIndex(m => m.id === mirrorId);
+    if (!action || index === -1) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const mirror = placedMirrors[index];
+    const isAllowed = action.kind === 'delete' ? canEditComponent(mirror)
+      : action.kind === 'rotate' ? canRotateComponent(mirror)
+      : canMoveComponent(mirror);
+    if (!isAllowed) {
+      setAnnouncement(`${describeComponent(mirror)} is ${describeComponentLock(mirror.lock)}.`);
+      return;
+    }
+    startSolveTimer();
+    setMirrorHistory(h => recordHistory(h, placedMirrors));
+    if (action.kind === 'delete') {
+      deletePlacedMirror(mirrorId);
+      const remaining = placedMirrors.filter(m => m.id !== mirrorId);
+      if (remaining.length > 0) setPendingFocusMirrorId(remaining[Math.min(index, remaining.length - 1)].id);
+      setAnnouncement(`Removed ${describeComponent(mirror)}. ${remaining.length} component${remaining.length === 1 ? '' : 's'} left on the board.`);
+      return;
+    }
+    const updatedMirror = applyKeyboardMirrorAction(mirror, action);
+    setPlacedMirrors(prev => prev.map(m => (m.id === mirrorId ? updatedMirror : m)));
+    setAnnouncement(`${action.kind === 'rotate' ? 'Rotated' : 'Moved'} ${describeComponent(updatedMirror)}, now ${describeMirrorPlacement(updatedMirror)}.`);
+  }, [placedMirrors, deletePlacedMirror, startSolveTimer]);
+
+  const handleChangeSelectedMirror = useCallback((updatedMirror: PlacedMirror) => {
+    startSolveTimer();
+    setMirrorHistory(h => recordHistory(h, placedMirrors));
+    setPlacedMirrors(prev => prev.map(m => (m.id === updatedMirror.id ? updatedMirror : m)));
+    setAnnouncement(`Updated ${describeComponent(updatedMirror)}, now ${describeMirrorPlacement(updatedMirror)}.`);
+  }, [placedMirrors, startSolveTimer]);
+
+  const handleUndo = useCallback(() => {
+    const step = undoHistory(mirrorHistory, placedMirrors);
+    if (!step) return;
+    setMirrorHistory(step.history);
+    setPlacedMirrors(step.state);
+    setDraggingMirrorInfo(null);
+    setAnnouncement(`Undone. ${step.state.length} component${step.state.length === 1 ? '' : 's'} on the board.`);
+  }, [mirrorHistory, placedMirrors]);
+
+  const handleRedo = useCallback(() => {
+    const step = redoHistory(mirrorHistory, placedMirrors);
+    if (!step) return;
+    setMirrorHistory(step.history);
+    setPlacedMirrors(step.state);
+    setDraggingMirrorInfo(null);
+    setAnnouncement(`Redone. ${step.state.length} component${step.state.length === 1 ? '' : 's'} on the board.`);
+  }, [mirrorHistory, placedMirrors]);
+
+  // Ctrl+Z / Ctrl+Y (Cmd on macOS; Shift+Ctrl+Z also redoes). Text fields keep their own undo.
+  useEffect(() => {
+    if (isEditing) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) return;
+      if (!(event.ctrlKey || event.metaKey) || draggingMirrorInfo) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditing, draggingMirrorInfo, handleUndo, handleRedo]);
 
   const handleMouseDownOnMirrorPoint = (mirrorId: string, pointType: 'p1' | 'p2') => {
     const mirror = placedMirrors.find(m => m.id === mirrorId);
+    setSelectedMirrorId(mirrorId);
     if (mirror) {
+        dragStartMirrorsRef.current = placedMirrors;
         setDraggingMirrorInfo({ mirror, type: 'endpoint', pointType });
     }
   };
   
+  const handleMouseDownOnMirrorCurvature = (mirrorId: string) => {
+    const mirror = placedMirrors.find(m => m.id === mirrorId);
+    setSelectedMirrorId(mirrorId);
+    if (mirror) {
+        dragStartMirrorsRef.current = placedMirrors;
+        setDraggingMirrorInfo({ mirror, type: 'curvature' });
+    }
+  };
+
   const handleMouseDownOnMirrorBody = (mirrorId: string, event: React.MouseEvent<SVGElement> | React.TouchEvent<SVGElement>) => {
     const clientX = 'touches' in event ? event.touches[0].clientX : event.clientX;
     const clientY = 'touches' in event ? event.touches[0].clientY : event.clientY;
     const coords = getSVGCoordinates(clientX, clientY);
     const mirror = placedMirrors.find(m => m.id === mirrorId);
+    setSelectedMirrorId(mirrorId);
 
     if (mirror && coords) {
+        dragStartMirrorsRef.current = placedMirrors;
         setDraggingMirrorInfo({ mirror, type: 'body', dragStartMousePosition: coords, originalP1: mirror.p1, originalP2: mirror.p2 });
     }
   };
@@ -473,13 +587,45 @@ const App: React.FC = () => {
 
     let potentialNewP1: Point, potentialNewP2: Point;
     const { mirror } = draggingMirrorInfo;
-
-    if (draggingMirrorInfo.type === 'body') {
+    // A level's locked components only follow the drags their lock allows
+    const isDragAllowed = draggingMirrorInfo.type === 'body' ? canMoveComponent(mirror)
+      : draggingMirrorInfo.type === 'endpoint' ? canRotateComponent(mirror)
+      : canEditComponent(mirror);
+    if (!isDragAllowed) return;
+    let focalLength = mirror.focalLength;
+    let guides: SnapGuide[] = [];
+    const isSnapping = !event.altKey; // Alt drags freely
+    const alignmentTargets = getAlignmentTargets(placedMirrors.filter(m => m.id !== mirror.id), obstacles, detectors);
+
+    if (draggingMirrorInfo.type === 'curvature') {
+        potentialNewP1 = mirror.p1;
+        potentialNewP2 = mirror.p2;
+        focalLength = focalLengthFromHandle(mirror, coords);
+    } else if (draggingMirrorInfo.type === 'body') {
         const { dragStartMousePosition, originalP1, originalP2 } = draggingMirrorInfo;
         const deltaX = coords.x - dragStartMousePosition.x;
         const deltaY = coords.y - dragStartMousePosition.y;
         potentialNewP1 = { x: originalP1.x + deltaX, y: originalP1.y + deltaY };
         potentialNewP2 = { x: originalP2.x + deltaX, y: originalP2.y + deltaY };
+        if (isSnapping) {
+            const snapped = snapMirrorCenter({ ...mirror, p1: potentialNewP1, p2: potentialNewP2 }, snapSettings, alignmentTargets);
+            potentialNewP1 = snapped.mirror.p1;
+            potentialNewP2 = snapped.mirror.p2;
+            guides = snapped.guides;
+        }
+    } else if (draggingMirrorInfo.type === 'endpoint' && mirror.lock === 'rotate-only') {
+        // Turns about its pivot in either drag mode, since it can't be resized
+        const rotated = rotateAboutPivot(mirror, draggingMirrorInfo.pointType, coords);
+        potentialNewP1 = rotated.p1;
+        potentialNewP2 = rotated.p2;
+    } else if (draggingMirrorInfo.type === 'endpoint' && endpointDragMode === 'resize') {
+        const { pointType } = draggingMirrorInfo;
+        const limits = getLengthLimits(getTemplateForMirror(mirror, INITIAL_PALETTE_MIRRORS));
+        const snapped = isSnapping ? snapEndpoint(pointType === 'p1' ? mirror.p2 : mirror.p1, coords, snapSettings, alignmentTargets) : null;
+        if (snapped) guides = snapped.guides;
+        const resized = resizeFromEndpoint(mirror, pointType, snapped ? snapped.point : coords, limits);
+        potentialNewP1 = resized.p1;
+        potentialNewP2 = resized.p2;
     } else if (draggingMirrorInfo.type === 'endpoint') {
         const { pointType } = draggingMirrorInfo;
         const fixedPoint = pointType === 'p1' ? mirror.p2 : mirror.p1;
@@ -489,27 +635,42 @@ const App: React.FC = () => {
             const vectorToMouse = subtractPoints(coords, fixedPoint);
             const normalizedVectorToMouse = normalizeVector(vectorToMouse);
             const newOffset = scaleVector(normalizedVectorToMouse, originalLength);
-            const newDraggedPointPosition = addPoints(fixedPoint, newOffset);
+            const snapped = isSnapping ? snapEndpoint(fixedPoint, coords, snapSettings, alignmentTargets, originalLength) : null;
+            if (snapped) guides = snapped.guides;
+            const newDraggedPointPosition = snapped ? snapped.point : addPoints(fixedPoint, newOffset);
             if (pointType === 'p1') { potentialNewP1 = newDraggedPointPosition; potentialNewP2 = mirror.p2; } 
             else { potentialNewP1 = mirror.p1; potentialNewP2 = newDraggedPointPosition; }
         }
     } else { return; }
 
-    const updatedMirror: PlacedMirror = { ...mirror, p1: potentialNewP1, p2: potentialNewP2 };
+    const updatedMirror: PlacedMirror = { ...mirror, p1: potentialNewP1, p2: potentialNewP2, ...(focalLength !== undefined && { focalLength }) };
+    startSolveTimer();
     setPlacedMirrors(prevMirrors => prevMirrors.map(m => (m.id === mirror.id ? updatedMirror : m)));
+    setSnapGuides(guides);
     setDraggingMirrorInfo(prev => {
         if (!prev) return null;
         return { ...prev, mirror: updatedMirror }; // Ensure draggingMirrorInfo is updated with new positions
     });
-  }, [draggingMirrorInfo, getSVGCoordinates]);
+  }, [draggingMirrorInfo, endpointDragMode, snapSettings, placedMirrors, obstacles, detectors, getSVGCoordinates, startSolveTimer]);
 
   const handleMouseUpOrTouchEnd = useCallback(() => {
-    if (draggingMirrorInfo && isPointerOverTrash) {
+    // The whole drag, including a drop on the trash can, is one history entry back to the board before it
+    const dragStartMirrors = dragStartMirrorsRef.current;
+    dragStartMirrorsRef.current = null;
+    const isDeleting = draggingMirrorInfo !== null && isPointerOverTrash && canEditComponent(draggingMirrorInfo.mirror);
+    if (draggingMirrorInfo && dragStartMirrors && (isDeleting || dragStartMirrors !== placedMirrors)) {
+      setMirrorHistory(h => recordHistory(h, dragStartMirrors));
+    }
+    if (draggingMirrorInfo && isDeleting) {
       deletePlacedMirror(draggingMirrorInfo.mirror.id);
+      setAnnouncement(`Removed ${describeComponent(draggingMirrorInfo.mirror)}.`);
+    } else if (draggingMirrorInfo && isPointerOverTrash) {
+      setAnnouncement(`${describeComponent(draggingMirrorInfo.mirror)} is part of the level and can't be removed.`);
     }
     setDraggingMirrorInfo(null);
     setIsPointerOverTrash(false);
-  }, [draggingMirrorInfo, isPointerOverTrash, deletePlacedMirror]);
+    setSnapGuides([]);
+  }, [draggingMirrorInfo, isPointerOverTrash, placedMirrors, deletePlacedMirror]);
 
   return (
     <div 
@@ -527,9 +688,33 @@ const App: React.FC = () => {
             Optika
           </h1>
           <div className="flex items-center space-x-2">
-            <RefreshButton onRefresh={() => setLevelSeed(s => s + 1)} />
+            <LevelSelectButton onOpen={() => setIsLevelSelectOpen(true)} />
+            <DailyChallengeButton onOpen={() => setIsDailyChallengeOpen(true)} />
+            <SeedInput seed={level.seed ?? ''} onSubmitSeed={resetLevel} />
+            <EditorToggleButton isEditing={isEditing} canPlaytest={canPlaytest} onToggle={handleToggleEditor} />
+            {!isEditing && (
+              <UndoRedoButtons
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                canUndo={mirrorHistory.past.length > 0}
+                canRedo={mirrorHistory.future.length > 0}
+              />
+            )}
+            {!isEditing && <HintButton onHint={handleRequestHint} hintsUsed={hintsUsed} isDisabled={overallSuccess} />}
+            <RefreshButton onRefresh={handlePlayRandom} />
           </div>
         </header>
+        {generationRequest && (
+          <div className="px-4 py-2 bg-slate-200 border-b border-slate-300 text-sm text-slate-700" role="status">
+            Generating the level for seed "{generationRequest.seed}"…
+          </div>
+        )}
+        {shareLinkError && (
+          <div className="flex justify-between items-center px-4 py-2 bg-amber-100 border-b border-amber-300 text-sm text-amber-800" role="alert">
+            <span>The shared link could not be opened. {shareLinkError}</span>
+            <button onClick={() => setShareLinkError(null)} className="ml-4 underline hover:text-amber-900">Dismiss</button>
+          </div>
+        )}
         <div className="flex flex-1 overflow-hidden">
           <main className="flex-1 p-4 overflow-auto flex justify-center items-center relative"> {/* Added relative positioning */}
             <GameCanvas
@@ -540,35 +725,134 @@ const App: React.FC = () => {
               detectors={detectors}
               placedMirrors={placedMirrors}
               obstacles={obstacles}
+              absorbingBoundaries={level.absorbingBoundaries}
               overallSuccess={overallSuccess} 
-              globallyHitDetectorIds={masterCorrectlyHitDetectorIds} 
+              globallyHitDetectorIds={masterCorrectlyHitDetectorIds}
+              detectorReceivedPower={detectorReceivedPower} 
+              hint={hint}
+              editorOverlay={isEditing ? (
+                <LevelEditorOverlay
+                  level={level}
+                  tool={editorTool}
+                  selection={editorSelection}
+                  onSelect={setEditorSelection}
+                  onChangeLevel={handleEditorLevelChange}
+                  onPlaceItem={handlePlaceEditorItem}
+                  onDeleteSelected={handleDeleteEditorSelection}
+                  getSVGCoordinates={getSVGCoordinates}
+                />
+              ) : undefined}
               onDropMirror={handleDropMirror}
               onMouseDownOnMirrorPoint={handleMouseDownOnMirrorPoint}
               onMouseDownOnMirrorBody={handleMouseDownOnMirrorBody}
+              onMouseDownOnMirrorCurvature={handleMouseDownOnMirrorCurvature}
+              onMirrorKeyDown={handleMirrorKeyDown}
+              selectedMirrorId={selectedMirrorId}
+              onSelectMirror={setSelectedMirrorId}
+              snapGuides={snapGuides}
+              snapGridSize={snapSettings.gridEnabled ? snapSettings.gridSize : null}
               getSVGCoordinates={getSVGCoordinates}
             />
-            {placedMirrors.length > 0 && (
+            {!isEditing && placedMirrors.length > 0 && (
                 <TrashCan 
                     ref={trashCanRef} 
-                    isHot={isPointerOverTrash && !!draggingMirrorInfo} 
+                    isHot={isPointerOverTrash && !!draggingMirrorInfo && canEditComponent(draggingMirrorInfo.mirror)} 
+                    isRefusing={isPointerOverTrash && !!draggingMirrorInfo && !canEditComponent(draggingMirrorInfo.mirror)}
                 />
             )}
           </main>
           <aside className="w-1/4 max-w-xs p-4 bg-slate-100 border-l border-slate-300 shadow-inner overflow-y-auto">
+            {isEditing ? (
+              <>
+                <h2 className="text-xl font-semibold mb-4 text-slate-700">Level Editor</h2>
+                <LevelEditorPanel
+                  level={level}
+                  tool={editorTool}
+                  selection={editorSelection}
+                  onToolChange={setEditorTool}
+                  onChangeLevel={handleEditorLevelChange}
+                  onDeleteSelected={handleDeleteEditorSelection}
+                />
+              </>
+            ) : (
+            <>
+            {campaignLevelId && level.name && <p className="mb-1 text-sm font-medium text-indigo-700">Campaign: {level.name}</p>}
+            {playMode.kind === 'daily' && (
+              <p className="mb-1 text-sm font-medium text-violet-700">
+                Daily challenge: {playMode.date}{playMode.date === todayKey ? ' (today)' : ''}
+              </p>
+            )}
             <h2 className="text-xl font-semibold mb-4 text-slate-700">Optical Components</h2>
             <div className="mb-3 p-2 bg-blue-50 border border-blue-200 rounded text-sm text-blue-700">
-              Place up to {MAX_PLACED_MIRRORS} optical components. <br/>
-              Used: {placedMirrors.length}/{MAX_PLACED_MIRRORS}
+              Place up to {level.maxComponents} optical components. <br/>
+              Used: {getPlayerComponents(placedMirrors).length}/{level.maxComponents}
+              {levelSolution.length > 0 && (
+                <><br/>Solvable with {solutionComponentCount} component{solutionComponentCount === 1 ? '' : 's'}.</>
+              )}
+              {personalBest && (
+                <><br/>Personal best: <StarRating stars={personalBest.stars} /> {personalBest.score} points</>
+              )}
             </div>
-            <MirrorPalette mirrors={INITIAL_PALETTE_MIRRORS} canPlaceMoreMirrors={placedMirrors.length < MAX_PLACED_MIRRORS} />
-            {overallSuccess && (
-              <div className="mt-6 p-4 bg-green-100 border border-green-300 rounded-lg shadow-lg text-center">
-                <h3 className="text-2xl font-bold text-green-700">All Targets Hit!</h3>
-                <p className="text-green-600">Congratulations! All lasers reached their detectors.</p>
+            {hint && (
+              <div className="mb-3 p-2 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800" role="status">
+                {hint.kind === 'place'
+                  ? <>Hint: place a {paletteTemplates.find(t => t.type === hint.mirror.type)?.description ?? hint.mirror.type} on the highlighted outline.</>
+                  : <>Hint: move the circled component onto the highlighted outline.</>}
+                <br/>Hints used this level: {hintsUsed}
               </div>
             )}
+            {isHintUnavailable && !hint && (
+              <div className="mb-3 p-2 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800" role="status">
+                No hint available for this board. Try moving your components somewhere new.
+              </div>
+            )}
+            <MirrorPalette mirrors={paletteTemplates} remainingCounts={remainingCounts} onPlaceAtCenter={handlePlaceAtCenter} />
+            <ComponentInspector
+              mirror={placedMirrors.find(m => m.id === selectedMirrorId) ?? null}
+              templates={availableTemplates}
+              endpointDragMode={endpointDragMode}
+              onEndpointDragModeChange={setEndpointDragMode}
+              onChangeMirror={handleChangeSelectedMirror}
+            />
+            <SnapControls settings={snapSettings} onChange={setSnapSettings} />
+            {overallSuccess && (
+              <LevelCompletePanel
+                isCampaignLevel={campaignLevelId !== null}
+                dailyStreak={playMode.kind === 'daily' && playMode.date === todayKey ? getCurrentStreak(dailyHistory, todayKey) : null}
+                score={levelScore}
+                isNewPersonalBest={levelScore !== null && personalBest === levelScore}
+                nextLevel={canStartNextCampaignLevel ? nextCampaignLevel : null}
+                onNextLevel={() => nextCampaignLevel && startCampaignLevel(nextCampaignLevel.id)}
+                onOpenLevelSelect={() => setIsLevelSelectOpen(true)}
+                onPlayRandom={handlePlayRandom}
+              />
+            )}
+            </>
+            )}
+            <ShareLinkControls getShareUrl={getShareUrl} hasPlacedMirrors={placedMirrors.length > 0} />
+            <LevelFileControls getLevelForExport={getLevelForExport} onImportLevel={applyLevel} />
           </aside>
         </div>
+        <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+        {isDailyChallengeOpen && (
+          <DailyChallenge
+            history={dailyHistory}
+            todayKey={todayKey}
+            currentDate={playMode.kind === 'daily' ? playMode.date : null}
+            onPlayDate={startDailyChallenge}
+            onClose={handleCloseDailyChallenge}
+          />
+        )}
+        {isLevelSelectOpen && (
+          <LevelSelect
+            packs={CAMPAIGN_PACKS}
+            progress={campaignProgress}
+            currentLevelId={campaignLevelId}
+            onSelectLevel={startCampaignLevel}
+            onPlayRandom={handlePlayRandom}
+            onClose={handleCloseLevelSelect}
+          />
+        )}
     </div>
   );
 };
@@ -0,0 +1,104 @@
+import type { Point, Obstacle, PlacedMirror, IntersectionDetail } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT } from '../constants';
+import { findClosestIntersection, normalizeVector } from '../utils/geometry';
+import { buildStaticSceneIndex, findClosestIntersectionIndexed } from '../utils/spatialIndex';
+import { simulate, type SimulationScene } from '../utils/simulation';
+import { generateLevel } from '../utils/levelGenerator';
+import { createSeededRandom, pickRandom, type RandomGenerator } from '../utils/random';
+
+// Compares tracing with and without the static spatial index: first that every result is identical,
+// then how long a full simulate() takes each way. Run with `npm run bench`.
+
+const SEEDS = ['bench-1', 'bench-2', 'bench-3', 'bench-4', 'bench-5', 'bench-6'];
+const EXTRA_OBSTACLE_COUNTS = [0, 40, 120]; // Crowded boards are where the index pays off
+const RANDOM_RAYS_PER_SCENE = 3000;
+const TIMED_RUNS = 20;
+
+const randomPoint = (random: RandomGenerator): Point => ({ x: random() * GAME_WIDTH, y: random() * GAME_HEIGHT });
+
+const createExtraObstacles = (random: RandomGenerator, count: number): Obstacle[] => Array.from({ length: count }, (_, i): Obstacle => {
+  const at = randomPoint(random);
+  const size = 8 + random() * 30;
+  const material = pickRandom(random, ['absorbing', 'mirrored', 'diffuse', 'glass'] as const);
+  switch (pickRandom(random, ['line', 'rectangle', 'circle', 'polygon'] as const)) {
+    case 'line': return { id: `extra-${i}`, shape: 'line', p1: at, p2: { x: at.x + size, y: at.y + size * (random() - 0.5) }, material };
+    case 'rectangle': return { id: `extra-${i}`, shape: 'rectangle', x: at.x, y: at.y, width: size, height: size / 2, rotation: random() * 90, material };
+    case 'circle': return { id: `extra-${i}`, shape: 'circle', cx: at.x, cy: at.y, radius: size / 2, material };
+    case 'polygon': return { id: `extra-${i}`, shape: 'polygon', points: [at, { x: at.x + size, y: at.y }, { x: at.x + size / 2, y: at.y + size / 3 }, { x: at.x + size / 2, y: at.y + size }], material };
+  }
+});
+
+// Splitters and gratings make every source branch, which is the workload the index is for.
+const createBranchingMirrors = (random: RandomGenerator, count: number): PlacedMirror[] => Array.from({ length: count }, (_, i) => {
+  const center = randomPoint(random);
+  const angle = random() * Math.PI;
+  const half = { x: Math.cos(angle) * 35, y: Math.sin(angle) * 35 };
+  return {
+    id: `bench-mirror-${i}`,
+    type: pickRandom(random, ['default', 'beam-splitter', 'diffraction-grating', 'concave-mirror', 'glass-slab'] as const),
+    p1: { x: center.x - half.x, y: center.y - half.y },
+    p2: { x: center.x + half.x, y: center.y + half.y },
+  };
+});
+
+const sameIntersection = (a: IntersectionDetail | null, b: IntersectionDetail | null): boolean =>
+  a === b || (a !== null && b !== null && a.object === b.object && a.type === b.type && a.distance === b.distance &&
+              a.point.x === b.point.x && a.point.y === b.point.y && a.normal?.x === b.normal?.x && a.normal?.y === b.normal?.y);
+
+const timeRuns = (run: () => void): number => {
+  const start = performance.now();
+  for (let i = 0; i < TIMED_RUNS; i++) run();
+  return (performance.now() - start) / TIMED_RUNS;
+};
+
+export const runSpatialIndexBenchmark = (): void => {
+  console.log('scene                     obstacles    segments  brute ms  indexed ms  speedup');
+  for (const extraCount of EXTRA_OBSTACLE_COUNTS) {
+    let bruteTotal = 0;
+    let indexedTotal = 0;
+    let obstacleTotal = 0;
+    let segmentTotal = 0;
+    for (const seed of SEEDS) {
+      const random = createSeededRandom(`${seed}-${extraCount}`);
+      const level = generateLevel(seed);
+      const scene: SimulationScene = {
+        sources: level.sources,
+        detectors: level.detectors,
+        obstacles: [...level.obstacles, ...createExtraObstacles(random, extraCount)],
+        mirrors: [...(level.solution ?? []), ...createBranchingMirrors(random, 10)],
+        absorbingBoundaries: level.absorbingBoundaries,
+      };
+      const staticIndex = buildStaticSceneIndex(scene.obstacles, scene.detectors);
+
+      for (let i = 0; i < RANDOM_RAYS_PER_SCENE; i++) {
+        const origin = randomPoint(random);
+        const angle = random() * Math.PI * 2;
+        const direction = normalizeVector({ x: Math.cos(angle), y: Math.sin(angle) });
+        const expected = findClosestIntersection(origin, direction, scene.mirrors, scene.obstacles, scene.detectors);
+        const actual = findClosestIntersectionIndexed(origin, direction, scene.mirrors, staticIndex);
+        if (!sameIntersection(expected, actual)) {
+          throw new Error(`Indexed intersection differs for seed ${seed} (+${extraCount} obstacles), ray ${i} from (${origin.x}, ${origin.y})`);
+        }
+      }
+
+      const bruteResult = simulate(scene);
+      const indexedResult = simulate({ ...scene, staticIndex });
+      const summarize = (result: typeof bruteResult) => JSON.stringify({ traces: result.traces.map(t => t.segments), detectors: result.detectors });
+      if (summarize(bruteResult) !== summarize(indexedResult)) {
+        throw new Error(`Indexed simulation differs for seed ${seed} (+${extraCount} obstacles)`);
+      }
+
+      bruteTotal += timeRuns(() => simulate(scene));
+      indexedTotal += timeRuns(() => simulate({ ...scene, staticIndex }));
+      obstacleTotal += scene.obstacles.length;
+      segmentTotal += bruteResult.traces.reduce((sum, t) => sum + t.segments.length, 0);
+    }
+    const n = SEEDS.length;
+    console.log(
+      `${`generated +${extraCount} obstacles`.padEnd(26)}${String(Math.round(obstacleTotal / n)).padStart(9)}` +
+      `${String(Math.round(segmentTotal / n)).padStart(12)}${(bruteTotal / n).toFixed(2).padStart(10)}` +
+      `${(indexedTotal / n).toFixed(2).padStart(12)}${`${(bruteTotal / indexedTotal).toFixed(2)}x`.padStart(9)}`
+    );
+  }
+  console.log(`All indexed results matched brute force (${SEEDS.length * EXTRA_OBSTACLE_COUNTS.length} scenes, ${RANDOM_RAYS_PER_SCENE} random rays each).`);
+};
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import type { PlacedMirror, PaletteMirrorTemplate } from '../types';
+import { INITIAL_PALETTE_MIRRORS, GAME_WIDTH, GAME_HEIGHT } from '../constants';
+import { distance, getSegmentMidpoint } from '../utils/geometry';
+import {
+  getTemplateForMirror, getLengthLimits, getMirrorAngle, setMirrorCenter, setMirrorAngle, setMirrorLength, replaceMirrorTemplate
+} from '../utils/placement';
+import { canMoveComponent, canRotateComponent, canEditComponent, describeComponentLock } from '../utils/componentLocks';
+
+export type EndpointDragMode = 'rotate' | 'resize';
+
+interface ComponentInspectorProps {
+  mirror: PlacedMirror | null;
+  templates: PaletteMirrorTemplate[]; // The level's palette; a component can be swapped for any of them
+  endpointDragMode: EndpointDragMode;
+  onEndpointDragModeChange: (mode: EndpointDragMode) => void;
+  onChangeMirror: (mirror: PlacedMirror) => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  disabled?: boolean;
+  onCommit: (value: number) => void;
+}
+
+// Edits are applied on Enter or when the field loses focus, so intermediate keystrokes
+// (e.g. "1" on the way to "120") are not clamped to the limits. Escape restores the current value.
+// Leaving a field without changing it commits nothing.
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, disabled = false, onCommit }) => {
+  const [draft, setDraft] = useState<string>(String(value));
+  useEffect(() => { setDraft(String(value)); }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(parsed)) {
+      setDraft(String(value));
+      return;
+    }
+    // The shown value may be rounded; committing it unchanged would nudge the component off its exact position
+    if (parsed !== value) onCommit(parsed);
+    setDraft(String(value)); // Shows the clamped value if the commit changed nothing
+  };
+
+  return (
+    <label className="flex items-center justify-between text-sm text-slate-600">
+      <span>{label}</span>
+      <input
+        type="number"
+        value={draft}
+        min={min}
+        max={max}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          else if (e.key === 'Escape') setDraft(String(value));
+        }}
+        className="w-20 px-2 py-1 border border-slate-300 rounded disabled:bg-slate-100 disabled:text-slate-400"
+      />
+    </label>
+  );
+};
+
+export const ComponentInspector: React.FC<ComponentInspectorProps> = ({ mirror, templates, endpointDragMode, onEndpointDragModeChange, onChangeMirror }) => {
+  const dragModeToggle = (
+    <label className="mt-2 flex items-center space-x-2 text-sm text-slate-600">
+      <input
+        type="checkbox"
+        checked={endpointDragMode === 'resize'}
+        onChange={(e) => onEndpointDragModeChange(e.target.checked ? 'resize' : 'rotate')}
+      />
+      <span>Endpoint drags resize (instead of rotate)</span>
+    </label>
+  );
+
+  if (!mirror) {
+    return (
+      <div className="mt-6 pt-4 border-t border-slate-300">
+        <h3 className="text-sm font-semibold mb-2 text-slate-700">Inspector</h3>
+        <p className="text-sm text-slate-500">Click or tab to a placed component to edit it exactly.</p>
+        {dragModeToggle}
+      </div>
+    );
+  }
+
+  const template = getTemplateForMirror(mirror, INITIAL_PALETTE_MIRRORS);
+  const limits = getLengthLimits(template);
+  const center = getSegmentMidpoint(mirror);
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value)); // Centers stay on the board
+  const typeOptions = template && !templates.some(t => t.id === template.id) ? [template, ...templates] : templates;
+
+  return (
+    <div className="mt-6 pt-4 border-t border-slate-300 space-y-2" aria-label="Component inspector">
+      <h3 className="text-sm font-semibold text-slate-700">Inspector</h3>
+      {mirror.lock && <p className="text-xs text-slate-500">Part of the level: {describeComponentLock(mirror.lock)}.</p>}
+      <label className="flex items-center justify-between text-sm text-slate-600">
+        <span>Type</span>
+        <select
+          value={template?.id ?? ''}
+          disabled={!canEditComponent(mirror)}
+          onChange={(e) => {
+            const next = typeOptions.find(t => t.id === e.target.value);
+            if (next) onChangeMirror(replaceMirrorTemplate(mirror, next));
+          }}
+          className="w-36 px-2 py-1 border border-slate-300 rounded bg-white disabled:bg-slate-100 disabled:text-slate-400"
+        >
+          {!template && <option value="">{mirror.type}</option>}
+          {typeOptions.map(t => <option key={t.id} value={t.id}>{t.description}</option>)}
+        </select>
+      </label>
+      <NumberField label="Center X" value={round(center.x)} min={0} max={GAME_WIDTH} disabled={!canMoveComponent(mirror)} onCommit={(x) => onChangeMirror(setMirrorCenter(mirror, { x: clamp(x, GAME_WIDTH), y: center.y }))} />
+      <NumberField label="Center Y" value={round(center.y)} min={0} max={GAME_HEIGHT} disabled={!canMoveComponent(mirror)} onCommit={(y) => onChangeMirror(setMirrorCenter(mirror, { x: center.x, y: clamp(y, GAME_HEIGHT) }))} />
+      <NumberField label="Angle (°)" value={getMirrorAngle(mirror)} disabled={!canRotateComponent(mirror)} onCommit={(angle) => onChangeMirror(setMirrorAngle(mirror, angle))} />
+      <NumberField
+        label={`Length (${limits.min}-${limits.max})`}
+        value={round(distance(mirror.p1, mirror.p2))}
+        min={limits.min}
+        max={limits.max}
+        disabled={!canEditComponent(mirror)}
+        onCommit={(length) => onChangeMirror(setMirrorLength(mirror, length, limits))}
+      />
+      {dragModeToggle}
+    </div>
+  );
+};
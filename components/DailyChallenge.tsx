@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { DailyRecord } from '../types';
+import { ModalDialog } from './ModalDialog';
+import { StarRating } from './StarRating';
+import { toDateKey, fromDateKey, getCurrentStreak, getLongestStreak } from '../utils/daily';
+
+interface DailyChallengeProps {
+  history: Record<string, DailyRecord>;
+  todayKey: string;
+  currentDate: string | null; // Daily being played, if any
+  onPlayDate: (dateKey: string) => void;
+  onClose: () => void;
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Today's daily, streaks, and a month calendar for replaying past dailies.
+export const DailyChallenge: React.FC<DailyChallengeProps> = ({ history, todayKey, currentDate, onPlayDate, onClose }) => {
+  const today = fromDateKey(todayKey);
+  const [shownMonth, setShownMonth] = useState<Date>(() => {
+    const start = currentDate ? fromDateKey(currentDate) : today;
+    return new Date(start.getFullYear(), start.getMonth(), 1);
+  });
+  const isCurrentMonth = shownMonth.getFullYear() === today.getFullYear() && shownMonth.getMonth() === today.getMonth();
+  const daysInMonth = new Date(shownMonth.getFullYear(), shownMonth.getMonth() + 1, 0).getDate();
+  const leadingBlanks = shownMonth.getDay();
+  const todayRecord = history[todayKey];
+  const currentStreak = getCurrentStreak(history, todayKey);
+  const longestStreak = getLongestStreak(history);
+
+  const showMonth = (offset: number) => setShownMonth(new Date(shownMonth.getFullYear(), shownMonth.getMonth() + offset, 1));
+
+  return (
+    <ModalDialog titleId="daily-challenge-title" title="Daily Challenge" closeLabel="Close daily challenge" onClose={onClose}>
+      <div className="mb-4 flex justify-between items-center p-3 bg-indigo-50 border border-indigo-200 rounded">
+        <div className="text-sm text-indigo-800">
+          <p className="font-semibold">Today, {today.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+          <p>
+            {todayRecord
+              ? <>Solved: <StarRating stars={todayRecord.bestScore.stars} /> {todayRecord.bestScore.score} points</>
+              : 'Not solved yet.'}
+          </p>
+          <p>Streak: {currentStreak} day{currentStreak === 1 ? '' : 's'} · Longest: {longestStreak}</p>
+        </div>
+        <button
+          onClick={() => onPlayDate(todayKey)}
+          className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold rounded shadow focus:outline-none focus:ring-2 focus:ring-indigo-400 transition-colors"
+        >
+          {todayRecord ? "Replay today's board" : "Play today's board"}
+        </button>
+      </div>
+
+      <div className="flex justify-between items-center mb-2">
+        <button onClick={() => showMonth(-1)} className="px-2 py-1 text-sm text-slate-600 hover:text-slate-900 rounded focus:outline-none focus:ring-2 focus:ring-slate-400" aria-label="Previous month">
+          ‹ Prev
+        </button>
+        <h3 className="font-semibold text-slate-700" aria-live="polite">
+          {shownMonth.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </h3>
+        <button
+          onClick={() => showMonth(1)}
+          disabled={isCurrentMonth}
+          className={`px-2 py-1 text-sm rounded focus:outline-none focus:ring-2 focus:ring-slate-400 ${isCurrentMonth ? 'text-slate-300 cursor-not-allowed' : 'text-slate-600 hover:text-slate-900'}`}
+          aria-label="Next month"
+        >
+          Next ›
+        </button>
+      </div>
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAY_LABELS.map(label => <div key={label} className="text-xs font-medium text-slate-500">{label}</div>)}
+        {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const dateKey = toDateKey(new Date(shownMonth.getFullYear(), shownMonth.getMonth(), i + 1));
+          const record = history[dateKey];
+          const isFuture = dateKey > todayKey;
+          const isToday = dateKey === todayKey;
+          return (
+            <button
+              key={dateKey}
+              onClick={() => onPlayDate(dateKey)}
+              disabled={isFuture}
+              aria-current={dateKey === currentDate ? 'true' : undefined}
+              aria-label={`${fromDateKey(dateKey).toLocaleDateString()}${record ? `, solved with ${record.bestScore.stars} stars` : ''}${isFuture ? ', not available yet' : ''}`}
+              className={`h-14 p-1 text-sm rounded border focus:outline-none focus:ring-2 focus:ring-indigo-400 transition-colors
+                          ${isFuture
+                            ? 'bg-slate-50 border-slate-100 text-slate-300 cursor-not-allowed'
+                            : record
+                              ? record.solvedOnDay ? 'bg-green-50 border-green-300 text-green-800 hover:bg-green-100' : 'bg-blue-50 border-blue-300 text-blue-800 hover:bg-blue-100'
+                              : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'}
+                          ${isToday ? 'ring-2 ring-indigo-500' : ''}`}
+            >
+              <span className="block font-medium">{i + 1}</span>
+              {record && <StarRating stars={record.bestScore.stars} className="text-xs" />}
+            </button>
+          );
+        })}
+      </div>
+      <p className="mt-3 text-xs text-slate-500">
+        Green days were solved on the day and count towards your streak; blue days were solved later as replays.
+      </p>
+    </ModalDialog>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+
+interface DailyChallengeButtonProps {
+  onOpen: () => void;
+}
+
+export const DailyChallengeButton: React.FC<DailyChallengeButtonProps> = ({ onOpen }) => {
+  return (
+    <button
+      onClick={onOpen}
+      className="px-3 py-2 text-sm font-medium bg-violet-500 hover:bg-violet-600 text-white rounded-full shadow-md focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-opacity-75 transition-colors"
+      title="Play the daily challenge or replay a past one"
+    >
+      Daily
+    </button>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface EditorToggleButtonProps {
+  isEditing: boolean;
+  canPlaytest: boolean;
+  onToggle: () => void;
+}
+
+export const EditorToggleButton: React.FC<EditorToggleButtonProps> = ({ isEditing, canPlaytest, onToggle }) => {
+  const isDisabled = isEditing && !canPlaytest;
+  return (
+    <button
+      onClick={onToggle}
+      disabled={isDisabled}
+      aria-pressed={isEditing}
+      className={`px-3 py-2 text-sm font-medium rounded-full shadow-md focus:outline-none focus:ring-2 focus:ring-opacity-75 transition-colors
+                  ${isEditing
+                    ? 'bg-green-500 hover:bg-green-600 text-white focus:ring-green-400'
+                    : 'bg-blue-600 hover:bg-blue-700 text-white focus:ring-blue-400'}
+                  ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+      title={isEditing ? (canPlaytest ? 'Play this board' : 'Add a laser source and a detector first') : 'Edit this board'}
+    >
+      {isEditing ? 'Playtest' : 'Edit Level'}
+    </button>
+  );
+};
@@ -1,17 +1,36 @@
 
 import React from 'react';
-import type { Point, PlacedMirror, Obstacle, LaserSegment, DetectorType, LineObstacle, RectangleObstacle, CircleObstacle, TrackedLaserSource, MirrorType } from '../types';
+import type { Point, LaserSegment, PlacedMirror, Obstacle, ObstacleMaterial, DetectorType, LineObstacle, RectangleObstacle, CircleObstacle, PolygonObstacle, TrackedLaserSource, MirrorType, LevelHint, SnapGuide } from '../types';
 import { 
-  LASER_COLOR, MIRROR_COLOR, MIRROR_HANDLE_COLOR, MIRROR_BACKING_COLOR, MIRROR_EDGE_HIGHLIGHT_COLOR,
+  MIRROR_COLOR, MIRROR_HANDLE_COLOR, FOCUS_RING_COLOR, MIRROR_BACKING_COLOR, MIRROR_EDGE_HIGHLIGHT_COLOR,
   BEAM_SPLITTER_COLOR, BEAM_SPLITTER_FILL_OPACITY, BEAM_SPLITTER_EDGE_COLOR,
   DIFFRACTION_GRATING_COLOR, DIFFRACTION_GRATING_FILL_OPACITY, DIFFRACTION_GRATING_EDGE_COLOR, DIFFRACTION_GRATING_LINE_COLOR,
   DETECTOR_BASE_COLOR, DETECTOR_APERTURE_COLOR, DETECTOR_ARROW_COLOR, DETECTOR_HIT_COLOR, 
-  SOURCE_EMITTER_BODY_COLOR, SOURCE_EMITTER_APERTURE_COLOR, SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT, SOURCE_EMITTER_APERTURE_RADIUS,
+  SOURCE_EMITTER_BODY_COLOR, SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT, SOURCE_EMITTER_APERTURE_RADIUS,
   OBSTACLE_COLOR, OBSTACLE_RECT_FILL_COLOR, OBSTACLE_CIRCLE_FILL_COLOR,
+  OBSTACLE_MIRRORED_COLOR, OBSTACLE_MIRRORED_FILL_COLOR, OBSTACLE_DIFFUSE_COLOR, OBSTACLE_DIFFUSE_FILL_COLOR,
+  ABSORBING_FRAME_COLOR, ABSORBING_FRAME_THICKNESS,
   DETECTOR_APERTURE_RADIUS, DETECTOR_ARROWHEAD_SIZE,
-  FRAME_COLOR, FRAME_THICKNESS, GAME_WIDTH, GAME_HEIGHT
+  FRAME_COLOR, FRAME_THICKNESS, GAME_WIDTH, GAME_HEIGHT,
+  GLASS_COLOR, GLASS_FILL_OPACITY, GLASS_EDGE_COLOR, GLASS_HIGHLIGHT_COLOR,
+  DICHROIC_COLOR, DICHROIC_EDGE_COLOR, DICHROIC_DEFAULT_CUTOFF_WAVELENGTH,
+  COLOR_FILTER_FILL_OPACITY, COLOR_FILTER_EDGE_COLOR, COLOR_FILTER_DEFAULT_WAVELENGTH, DEFAULT_LASER_WAVELENGTH,
+  LASER_MIN_OPACITY, LASER_MIN_STROKE_WIDTH, LASER_MAX_STROKE_WIDTH, DETECTOR_POWER_LABEL_COLOR,
+  POLARIZER_COLOR, POLARIZER_FILL_OPACITY, POLARIZER_EDGE_COLOR, WAVE_PLATE_COLOR, WAVE_PLATE_EDGE_COLOR, PBS_COLOR, PBS_EDGE_COLOR,
+  POLARIZATION_MARK_COLOR, POLARIZATION_MARK_SPACING, POLARIZATION_MARK_SIZE,
+  CURVED_MIRROR_COLOR, CURVED_MIRROR_BACK_COLOR, LENS_COLOR, LENS_FILL_OPACITY, LENS_EDGE_COLOR, LENS_EDGE_THICKNESS, CURVATURE_HANDLE_COLOR,
+  HINT_COLOR, HINT_GHOST_OPACITY, SNAP_GUIDE_COLOR, SNAP_GRID_COLOR,
+  LOCKED_COMPONENT_COLOR, NO_ROTATE_COMPONENT_COLOR, ROTATE_ONLY_COMPONENT_COLOR
 } from '../constants';
-import { subtractPoints, addPoints, scaleVector, normalizeVector, distance } from '../utils/geometry';
+import {
+  subtractPoints, addPoints, scaleVector, normalizeVector, distance, isGlassType, getGlassVertices,
+  isCurvedMirrorType, isLensType, getFocalLength, getMirrorArc, getFrontNormal, getSagitta, getCurvatureRadius, getCurvatureHandlePosition
+} from '../utils/geometry';
+import { wavelengthToColor, getWavelengthName, getSourceWavelength } from '../utils/spectrum';
+import { getDetectorMinPower } from '../utils/simulation';
+import { getAxisAngle, getPolarizationName } from '../utils/polarization';
+import { describeComponent, describeMirrorPlacement, KEYBOARD_HELP_TEXT } from '../utils/keyboardControls';
+import { canMoveComponent, canRotateComponent, canEditComponent, describeComponentLock } from '../utils/componentLocks';
 
 interface GameCanvasProps {
   svgRef: React.RefObject<SVGSVGElement>;
@@ -21,15 +40,49 @@ interface GameCanvasProps {
   detectors: DetectorType[];
   placedMirrors: PlacedMirror[];
   obstacles: Obstacle[];
+  absorbingBoundaries?: boolean;
   overallSuccess: boolean;
   globallyHitDetectorIds: Set<string>; 
+  detectorReceivedPower: Record<string, number>; // Accepted power per detector id, from the last trace
+  hint: LevelHint | null;
+  editorOverlay?: React.ReactNode; // Present while the level editor is active; mirrors are then shown but not interactive
   onDropMirror: (templateId: string, x: number, y: number) => void;
   onMouseDownOnMirrorPoint: (mirrorId: string, pointType: 'p1' | 'p2') => void;
   onMouseDownOnMirrorBody: (mirrorId: string, event: React.MouseEvent<SVGElement> | React.TouchEvent<SVGElement>) => void;
+  onMouseDownOnMirrorCurvature: (mirrorId: string) => void;
+  onMirrorKeyDown: (mirrorId: string, event: React.KeyboardEvent<SVGElement>) => void;
+  selectedMirrorId: string | null; // Shown in the inspector; outlined like the focused component
+  onSelectMirror: (mirrorId: string) => void;
+  snapGuides: SnapGuide[];
+  snapGridSize: number | null; // Grid spacing while grid snapping is on
   getSVGCoordinates: (clientX: number, clientY: number) => Point | null;
 }
 
-const RenderDetector: React.FC<{detector: DetectorType, isHit: boolean}> = ({ detector, isHit }) => {
+const formatPower = (power: number): string => `${Math.round(power * 100)}%`;
+
+interface ObstacleStyle {
+  stroke: string;
+  fill: string;
+  fillOpacity?: number;
+  strokeDasharray?: string;
+}
+
+// Each material has its own look; absorbing obstacles keep the plain slate style.
+const getObstacleStyle = (material: ObstacleMaterial = 'absorbing', absorbingFill: string): ObstacleStyle => {
+  switch (material) {
+    case 'mirrored':
+      return { stroke: OBSTACLE_MIRRORED_COLOR, fill: OBSTACLE_MIRRORED_FILL_COLOR };
+    case 'diffuse':
+      return { stroke: OBSTACLE_DIFFUSE_COLOR, fill: OBSTACLE_DIFFUSE_FILL_COLOR, strokeDasharray: '3 2' };
+    case 'glass':
+      return { stroke: GLASS_EDGE_COLOR, fill: GLASS_COLOR, fillOpacity: GLASS_FILL_OPACITY };
+    case 'absorbing':
+    default:
+      return { stroke: OBSTACLE_COLOR, fill: absorbingFill };
+  }
+};
+
+const RenderDetector: React.FC<{detector: DetectorType, isHit: boolean, receivedPower: number}> = ({ detector, isHit, receivedPower }) => {
   const renderDetectorArrow = () => {
     const { x, y, width: detWidth, height: detHeight, angle } = detector;
     const cx = x + detWidth / 2;
@@ -70,8 +123,36 @@ const RenderDetector: React.FC<{detector: DetectorType, isHit: boolean}> = ({ de
     );
   };
 
+  // One dot per required color along the top edge of the detector
+  const renderRequiredColors = () => {
+    const required = detector.requiredWavelengths ?? [];
+    const spacing = detector.width / (required.length + 1);
+    return required.map((wavelength, i) => (
+      <circle
+        key={`${detector.id}-color-${i}`}
+        cx={detector.x + spacing * (i + 1)}
+        cy={detector.y + 4}
+        r={2.5}
+        fill={wavelengthToColor(wavelength)}
+        stroke="white"
+        strokeWidth="0.75"
+        className="pointer-events-none"
+      />
+    ));
+  };
+
+  const requiredPower = getDetectorMinPower(detector);
+  const polarizationRequirement = detector.requiredPolarization !== undefined
+    ? `, ${getPolarizationName(detector.requiredPolarization)}`
+    : '';
+  const labelBelow = detector.angle !== 270; // Keep the label clear of the side light enters from
+
+  const colorRequirement = detector.requiredWavelengths
+    ? ` and ${detector.requiredWavelengths.map(getWavelengthName).join(' + ')} light`
+    : '';
+
   return (
-    <g role="img" aria-label={`Target detector ID ${detector.id}, requires light entry from ${detector.angle} degrees. Currently ${isHit ? 'active' : 'inactive'}.`}>
+    <g role="img" aria-label={`Target detector ID ${detector.id}, requires light entry from ${detector.angle} degrees${colorRequirement}${polarizationRequirement} at ${formatPower(requiredPower)} power. Receiving ${formatPower(receivedPower)}, currently ${isHit ? 'active' : 'inactive'}.`}>
       <rect
         x={detector.x}
         y={detector.y}
@@ -92,10 +173,51 @@ const RenderDetector: React.FC<{detector: DetectorType, isHit: boolean}> = ({ de
         strokeWidth="1"
       />
       {renderDetectorArrow()}
+      {renderRequiredColors()}
+      {detector.requiredPolarization !== undefined && (
+        <RenderAxisSymbol
+          center={{ x: detector.x + detector.width, y: detector.y + detector.height }}
+          axisAngle={detector.requiredPolarization}
+          color={POLARIZER_EDGE_COLOR}
+        />
+      )}
+      <text
+        x={detector.x + detector.width / 2}
+        y={labelBelow ? detector.y + detector.height + 11 : detector.y - 4}
+        textAnchor="middle"
+        fontSize="9"
+        fill={isHit ? DETECTOR_HIT_COLOR : DETECTOR_POWER_LABEL_COLOR}
+        className="pointer-events-none select-none"
+      >
+        {formatPower(receivedPower)} / {formatPower(requiredPower)}
+      </text>
     </g>
   );
 };
 
+// Polarization axis symbol: a line through a small circle, vertical for 0° and horizontal for 90°.
+const RenderAxisSymbol: React.FC<{ center: Point, axisAngle: number, color: string, dashed?: boolean }> = ({ center, axisAngle, color, dashed }) => {
+  const radius = 6;
+  return (
+    <g transform={`translate(${center.x} ${center.y}) rotate(${axisAngle})`} className="pointer-events-none">
+      <circle r={radius} fill="white" fillOpacity="0.85" stroke={color} strokeWidth="1" />
+      <line x1={0} y1={-radius + 1} x2={0} y2={radius - 1} stroke={color} strokeWidth="1.5" strokeDasharray={dashed ? '2 1.5' : undefined} />
+    </g>
+  );
+};
+
+// SVG arc command from `from` to `to` that curves towards `bulge` (the board's y axis points down).
+const arcTo = (from: Point, to: Point, radius: number, bulge: Point): string => {
+  const chord = subtractPoints(to, from);
+  const sweep = chord.x * bulge.y - chord.y * bulge.x > 0 ? 0 : 1;
+  return `A ${radius} ${radius} 0 0 ${sweep} ${to.x} ${to.y}`;
+};
+
+const getCurvedMirrorPath = (mirror: PlacedMirror): string => {
+  const arc = getMirrorArc(mirror);
+  return `M ${mirror.p1.x} ${mirror.p1.y} ${arcTo(mirror.p1, mirror.p2, arc.radius, arc.bulge)}`;
+};
+
 const RenderPlacedMirror: React.FC<{ mirror: PlacedMirror }> = ({ mirror }) => {
   const { p1, p2, type } = mirror;
   const mirrorVec = subtractPoints(p2, p1);
@@ -176,11 +298,272 @@ const RenderPlacedMirror: React.FC<{ mirror: PlacedMirror }> = ({ mirror }) => {
         />
       );
     }
+  } else if (type === 'dichroic') {
+    // Coated glass: the reflected colors on the coated face, the transmitted ones behind it
+    const cutoff = mirror.cutoffWavelength ?? DICHROIC_DEFAULT_CUTOFF_WAVELENGTH;
+    const coatingOffset = 1.5;
+    visualElements.push(
+      <line
+        key={`${mirror.id}-substrate`}
+        x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y}
+        stroke={DICHROIC_EDGE_COLOR} strokeWidth="5" strokeLinecap="round"
+      />,
+      <line
+        key={`${mirror.id}-reflects`}
+        x1={p1.x + perpDir.x * coatingOffset} y1={p1.y + perpDir.y * coatingOffset}
+        x2={p2.x + perpDir.x * coatingOffset} y2={p2.y + perpDir.y * coatingOffset}
+        stroke={wavelengthToColor((380 + cutoff) / 2)} strokeWidth="2" strokeLinecap="round"
+      />,
+      <line
+        key={`${mirror.id}-passes`}
+        x1={p1.x - perpDir.x * coatingOffset} y1={p1.y - perpDir.y * coatingOffset}
+        x2={p2.x - perpDir.x * coatingOffset} y2={p2.y - perpDir.y * coatingOffset}
+        stroke={DICHROIC_COLOR} strokeWidth="2" strokeLinecap="round"
+      />
+    );
+  } else if (type === 'color-filter') {
+    const thickness = 8;
+    const halfThick = thickness / 2;
+    const fc1 = addPoints(p1, scaleVector(perpDir, halfThick));
+    const fc2 = addPoints(p2, scaleVector(perpDir, halfThick));
+    const fc3 = addPoints(p2, scaleVector(perpDir, -halfThick));
+    const fc4 = addPoints(p1, scaleVector(perpDir, -halfThick));
+    visualElements.push(
+      <polygon
+        key={`${mirror.id}-filter`}
+        points={`${fc1.x},${fc1.y} ${fc2.x},${fc2.y} ${fc3.x},${fc3.y} ${fc4.x},${fc4.y}`}
+        fill={wavelengthToColor(mirror.passWavelength ?? COLOR_FILTER_DEFAULT_WAVELENGTH)}
+        fillOpacity={COLOR_FILTER_FILL_OPACITY}
+        stroke={COLOR_FILTER_EDGE_COLOR}
+        strokeWidth="1"
+      />
+    );
+  } else if (type === 'polarizer' || type === 'half-wave-plate') {
+    const isPolarizer = type === 'polarizer';
+    const thickness = isPolarizer ? 8 : 6;
+    const halfThick = thickness / 2;
+    const pc1 = addPoints(p1, scaleVector(perpDir, halfThick));
+    const pc2 = addPoints(p2, scaleVector(perpDir, halfThick));
+    const pc3 = addPoints(p2, scaleVector(perpDir, -halfThick));
+    const pc4 = addPoints(p1, scaleVector(perpDir, -halfThick));
+    const edgeColor = isPolarizer ? POLARIZER_EDGE_COLOR : WAVE_PLATE_EDGE_COLOR;
+    visualElements.push(
+      <polygon
+        key={`${mirror.id}-plate`}
+        points={`${pc1.x},${pc1.y} ${pc2.x},${pc2.y} ${pc3.x},${pc3.y} ${pc4.x},${pc4.y}`}
+        fill={isPolarizer ? POLARIZER_COLOR : WAVE_PLATE_COLOR}
+        fillOpacity={POLARIZER_FILL_OPACITY}
+        stroke={edgeColor}
+        strokeWidth="1"
+      />,
+      <RenderAxisSymbol
+        key={`${mirror.id}-axis`}
+        center={scaleVector(addPoints(p1, p2), 0.5)}
+        axisAngle={getAxisAngle(mirror)}
+        color={edgeColor}
+        dashed={!isPolarizer}
+      />
+    );
+  } else if (type === 'polarizing-beam-splitter') {
+    // A cube whose diagonal is the splitting surface
+    const center = scaleVector(addPoints(p1, p2), 0.5);
+    const q1 = addPoints(center, scaleVector(perpDir, len / 2));
+    const q2 = addPoints(center, scaleVector(perpDir, -len / 2));
+    visualElements.push(
+      <polygon
+        key={`${mirror.id}-cube`}
+        points={`${p1.x},${p1.y} ${q1.x},${q1.y} ${p2.x},${p2.y} ${q2.x},${q2.y}`}
+        fill={PBS_COLOR}
+        fillOpacity={POLARIZER_FILL_OPACITY}
+        stroke={PBS_EDGE_COLOR}
+        strokeWidth="1"
+      />,
+      <line
+        key={`${mirror.id}-surface`}
+        x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y}
+        stroke={PBS_EDGE_COLOR} strokeWidth="2"
+      />
+    );
+  } else if (isCurvedMirrorType(type)) {
+    // Silvered on the front, with the backing drawn behind the arc
+    const { bulge } = getMirrorArc(mirror);
+    const backDir = type === 'concave-mirror' ? bulge : scaleVector(bulge, -1);
+    const path = getCurvedMirrorPath(mirror);
+    visualElements.push(
+      <path
+        key={`${mirror.id}-backing`}
+        d={path}
+        transform={`translate(${backDir.x * 2.5} ${backDir.y * 2.5})`}
+        fill="none" stroke={CURVED_MIRROR_BACK_COLOR} strokeWidth="4" strokeLinecap="round"
+      />,
+      <path
+        key={`${mirror.id}-surface`}
+        d={path}
+        fill="none" stroke={CURVED_MIRROR_COLOR} strokeWidth="3" strokeLinecap="round"
+      />
+    );
+  } else if (isLensType(type)) {
+    // Biconvex or biconcave outline whose faces have the lens's radius of curvature
+    const front = getFrontNormal(mirror);
+    const back = scaleVector(front, -1);
+    const radius = getCurvatureRadius(mirror);
+    const halfEdge = LENS_EDGE_THICKNESS / 2;
+    const isConverging = type === 'converging-lens';
+    const rimOffset = isConverging ? halfEdge : getSagitta(mirror) + halfEdge;
+    const a1 = addPoints(p1, scaleVector(front, rimOffset));
+    const a2 = addPoints(p2, scaleVector(front, rimOffset));
+    const b2 = addPoints(p2, scaleVector(back, rimOffset));
+    const b1 = addPoints(p1, scaleVector(back, rimOffset));
+    const path = `M ${a1.x} ${a1.y} ${arcTo(a1, a2, radius, isConverging ? front : back)} ` +
+                 `L ${b2.x} ${b2.y} ${arcTo(b2, b1, radius, isConverging ? back : front)} Z`;
+    visualElements.push(
+      <path
+        key={`${mirror.id}-lens`}
+        d={path}
+        fill={LENS_COLOR}
+        fillOpacity={LENS_FILL_OPACITY}
+        stroke={LENS_EDGE_COLOR}
+        strokeWidth="1.5"
+        strokeLinejoin="round"
+      />
+    );
+  } else if (isGlassType(type)) {
+    const vertices = getGlassVertices(mirror);
+    const centroid = scaleVector(vertices.reduce(addPoints, { x: 0, y: 0 }), 1 / vertices.length);
+    // Light catching the face nearest p1, drawn slightly inside the body
+    const highlightStart = addPoints(vertices[0], scaleVector(subtractPoints(centroid, vertices[0]), 0.2));
+    const highlightEnd = addPoints(vertices[1], scaleVector(subtractPoints(centroid, vertices[1]), 0.2));
+    visualElements.push(
+      <polygon
+        key={`${mirror.id}-glass`}
+        points={vertices.map(v => `${v.x},${v.y}`).join(' ')}
+        fill={GLASS_COLOR}
+        fillOpacity={GLASS_FILL_OPACITY}
+        stroke={GLASS_EDGE_COLOR}
+        strokeWidth="1.5"
+        strokeLinejoin="round"
+      />,
+      <line
+        key={`${mirror.id}-highlight`}
+        x1={highlightStart.x} y1={highlightStart.y} x2={highlightEnd.x} y2={highlightEnd.y}
+        stroke={GLASS_HIGHLIGHT_COLOR} strokeWidth="1.5" strokeLinecap="round"
+      />
+    );
   }
   return <g>{visualElements}</g>;
 };
 
 
+// Marks along a polarized beam: a tick across the beam for the in-board component of the polarization
+// and a dot for the component perpendicular to the board. Unpolarized beams carry no marks.
+const RenderPolarizationMarks: React.FC<{ segment: LaserSegment }> = ({ segment }) => {
+  if (segment.polarization === undefined || segment.polarization === null) return null;
+  const len = distance(segment.start, segment.end);
+  if (len < POLARIZATION_MARK_SPACING) return null;
+  const dir = normalizeVector(subtractPoints(segment.end, segment.start));
+  const perpDir = { x: -dir.y, y: dir.x };
+  const angleRad = segment.polarization * Math.PI / 180;
+  const tickHalfLength = POLARIZATION_MARK_SIZE * Math.abs(Math.sin(angleRad));
+  const dotRadius = 1.8 * Math.abs(Math.cos(angleRad));
+
+  const marks: React.ReactElement[] = [];
+  for (let d = POLARIZATION_MARK_SPACING / 2; d < len; d += POLARIZATION_MARK_SPACING) {
+    const at = addPoints(segment.start, scaleVector(dir, d));
+    if (at.x < 0 || at.x > GAME_WIDTH || at.y < 0 || at.y > GAME_HEIGHT) break; // Beams leaving the board run far past it
+    if (tickHalfLength > 0.5) {
+      const a = addPoints(at, scaleVector(perpDir, tickHalfLength));
+      const b = addPoints(at, scaleVector(perpDir, -tickHalfLength));
+      marks.push(<line key={`t${d}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={POLARIZATION_MARK_COLOR} strokeWidth="1.25" strokeLinecap="round" />);
+    }
+    if (dotRadius > 0.4) {
+      marks.push(<circle key={`d${d}`} cx={at.x} cy={at.y} r={dotRadius} fill={POLARIZATION_MARK_COLOR} />);
+    }
+  }
+  return <g className="pointer-events-none" aria-hidden="true">{marks}</g>;
+};
+
+const PADLOCK_PATH = 'M -2.5 -1 V -3 A 2.5 2.5 0 0 1 2.5 -3 V -1';
+const MOVE_ARROWS_PATH = 'M -5 0 H 5 M 0 -5 V 5 M -3 -2 L -5 0 L -3 2 M 3 -2 L 5 0 L 3 2 M -2 -3 L 0 -5 L 2 -3 M -2 3 L 0 5 L 2 3';
+
+const getBodyCursorClass = (mirror: PlacedMirror): string =>
+  canMoveComponent(mirror) ? 'cursor-move active:cursor-grabbing' : 'cursor-pointer';
+
+// Marks a level's locked component: locked ones get a padlock and bolted ends, movable-but-not-rotatable
+// ones a move badge and squared-off ends, and rotate-only ones a pivot pin with the circle they turn on.
+const RenderLockMarker: React.FC<{ mirror: PlacedMirror }> = ({ mirror }) => {
+  if (!mirror.lock) return null;
+  const center = scaleVector(addPoints(mirror.p1, mirror.p2), 0.5);
+  if (mirror.lock === 'rotate-only') {
+    return (
+      <g className="pointer-events-none" aria-hidden="true">
+        <circle
+          cx={center.x} cy={center.y} r={distance(mirror.p1, mirror.p2) / 2}
+          fill="none" stroke={ROTATE_ONLY_COMPONENT_COLOR} strokeOpacity="0.5" strokeWidth="1" strokeDasharray="2 4"
+        />
+        <circle cx={center.x} cy={center.y} r="5" fill="white" stroke={ROTATE_ONLY_COMPONENT_COLOR} strokeWidth="2" />
+        <circle cx={center.x} cy={center.y} r="1.5" fill={ROTATE_ONLY_COMPONENT_COLOR} />
+      </g>
+    );
+  }
+
+  const color = mirror.lock === 'locked' ? LOCKED_COMPONENT_COLOR : NO_ROTATE_COMPONENT_COLOR;
+  const axis = normalizeVector(subtractPoints(mirror.p2, mirror.p1));
+  const badge = addPoints(center, scaleVector({ x: axis.y, y: -axis.x }, 16)); // Beside the component, off the beam's path
+  return (
+    <g className="pointer-events-none" aria-hidden="true">
+      {[mirror.p1, mirror.p2].map((end, i) => (mirror.lock === 'locked'
+        ? <circle key={i} cx={end.x} cy={end.y} r="3" fill={color} />
+        : <rect key={i} x={end.x - 3} y={end.y - 3} width="6" height="6" fill={color} />
+      ))}
+      <g transform={`translate(${badge.x} ${badge.y})`}>
+        <circle r="8" fill="white" stroke={color} strokeWidth="1.5" />
+        {mirror.lock === 'locked' ? (
+          <>
+            <path d={PADLOCK_PATH} fill="none" stroke={color} strokeWidth="1.5" />
+            <rect x="-4" y="-1" width="8" height="6" rx="1" fill={color} />
+          </>
+        ) : (
+          <path d={MOVE_ARROWS_PATH} fill="none" stroke={color} strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round" />
+        )}
+      </g>
+    </g>
+  );
+};
+
+// Translucent preview of a suggested placement. For "move" hints the mirror to relocate is circled
+// and linked to its suggested position.
+const RenderHint: React.FC<{ hint: LevelHint, placedMirrors: PlacedMirror[] }> = ({ hint, placedMirrors }) => {
+  const { mirror } = hint;
+  const ghostCenter = scaleVector(addPoints(mirror.p1, mirror.p2), 0.5);
+  const mirrorToMove = hint.kind === 'move' ? placedMirrors.find(m => m.id === hint.mirrorId) : undefined;
+  const moveFrom = mirrorToMove ? scaleVector(addPoints(mirrorToMove.p1, mirrorToMove.p2), 0.5) : null;
+
+  return (
+    <g className="pointer-events-none" role="img" aria-label={`Hint: ${hint.kind === 'move' ? 'move a mirror' : 'place a'} ${mirror.type} component near (${Math.round(ghostCenter.x)}, ${Math.round(ghostCenter.y)})`}>
+      <g opacity={HINT_GHOST_OPACITY}>
+        <RenderPlacedMirror mirror={mirror} />
+      </g>
+      <line
+        x1={mirror.p1.x} y1={mirror.p1.y} x2={mirror.p2.x} y2={mirror.p2.y}
+        stroke={HINT_COLOR} strokeWidth="2" strokeDasharray="6 4" strokeLinecap="round"
+      />
+      {moveFrom && mirrorToMove && (
+        <>
+          <circle
+            cx={moveFrom.x} cy={moveFrom.y} r={distance(mirrorToMove.p1, mirrorToMove.p2) / 2 + 10}
+            fill="none" stroke={HINT_COLOR} strokeWidth="2" strokeDasharray="6 4"
+          />
+          <line
+            x1={moveFrom.x} y1={moveFrom.y} x2={ghostCenter.x} y2={ghostCenter.y}
+            stroke={HINT_COLOR} strokeWidth="1.5" strokeDasharray="2 4" markerEnd="url(#hint-arrowhead)"
+          />
+        </>
+      )}
+    </g>
+  );
+};
+
+
 export const GameCanvas: React.FC<GameCanvasProps> = ({
   svgRef,
   width,
@@ -189,10 +572,20 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   detectors,
   placedMirrors,
   obstacles,
+  absorbingBoundaries,
   globallyHitDetectorIds, 
+  detectorReceivedPower,
+  hint,
+  editorOverlay,
   onDropMirror,
   onMouseDownOnMirrorPoint,
   onMouseDownOnMirrorBody,
+  onMouseDownOnMirrorCurvature,
+  onMirrorKeyDown,
+  selectedMirrorId,
+  onSelectMirror,
+  snapGuides,
+  snapGridSize,
   getSVGCoordinates
 }) => {
   const handleDragOver = (event: React.DragEvent<SVGSVGElement>) => {
@@ -201,6 +594,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 
   const handleDrop = (event: React.DragEvent<SVGSVGElement>) => {
     event.preventDefault();
+    if (editorOverlay) return;
     const templateId = event.dataTransfer.getData('text/plain');
     const coords = getSVGCoordinates(event.clientX, event.clientY);
     if (templateId && coords) {
@@ -222,6 +616,26 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         return BEAM_SPLITTER_EDGE_COLOR;
       case 'diffraction-grating':
         return DIFFRACTION_GRATING_EDGE_COLOR;
+      case 'dichroic':
+        return DICHROIC_EDGE_COLOR;
+      case 'polarizer':
+        return POLARIZER_EDGE_COLOR;
+      case 'half-wave-plate':
+        return WAVE_PLATE_EDGE_COLOR;
+      case 'polarizing-beam-splitter':
+        return PBS_EDGE_COLOR;
+      case 'color-filter':
+        return COLOR_FILTER_EDGE_COLOR;
+      case 'glass-slab':
+      case 'prism':
+      case 'glass-polygon':
+        return GLASS_EDGE_COLOR;
+      case 'concave-mirror':
+      case 'convex-mirror':
+        return CURVED_MIRROR_BACK_COLOR;
+      case 'converging-lens':
+      case 'diverging-lens':
+        return LENS_EDGE_COLOR;
       case 'default':
       default:
         return MIRROR_BACKING_COLOR; // Use a darker color for contrast with handle fill
@@ -241,12 +655,29 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       aria-label="Optical bench for laser reflection game"
     >
       <desc>Interactive game canvas for positioning mirrors and obstacles to reflect laser beams to target detectors.</desc>
+      <desc id="component-keyboard-help">{KEYBOARD_HELP_TEXT}</desc>
+
+      {/* Snap grid, drawn under everything else */}
+      {snapGridSize !== null && (
+        <>
+          <defs>
+            <pattern id="snap-grid" width={snapGridSize} height={snapGridSize} patternUnits="userSpaceOnUse">
+              <path d={`M ${snapGridSize} 0 L 0 0 0 ${snapGridSize}`} fill="none" stroke={SNAP_GRID_COLOR} strokeWidth="1" />
+            </pattern>
+          </defs>
+          <rect x="0" y="0" width={GAME_WIDTH} height={GAME_HEIGHT} fill="url(#snap-grid)" className="pointer-events-none" aria-hidden="true" />
+        </>
+      )}
       
-      {/* Reflective Frame */}
-      <line x1="0" y1="0" x2={GAME_WIDTH} y2="0" stroke={FRAME_COLOR} strokeWidth={FRAME_THICKNESS} />
-      <line x1="0" y1={GAME_HEIGHT} x2={GAME_WIDTH} y2={GAME_HEIGHT} stroke={FRAME_COLOR} strokeWidth={FRAME_THICKNESS} />
-      <line x1="0" y1="0" x2="0" y2={GAME_HEIGHT} stroke={FRAME_COLOR} strokeWidth={FRAME_THICKNESS} />
-      <line x1={GAME_WIDTH} y1="0" x2={GAME_WIDTH} y2={GAME_HEIGHT} stroke={FRAME_COLOR} strokeWidth={FRAME_THICKNESS} />
+      {/* Frame: thin and reflective, or a thick matte border when the edges absorb light */}
+      <rect
+        x="0" y="0" width={GAME_WIDTH} height={GAME_HEIGHT}
+        fill="none"
+        stroke={absorbingBoundaries ? ABSORBING_FRAME_COLOR : FRAME_COLOR}
+        strokeWidth={absorbingBoundaries ? ABSORBING_FRAME_THICKNESS : FRAME_THICKNESS}
+        className="pointer-events-none"
+        aria-label={absorbingBoundaries ? 'Board edges absorb light' : 'Board edges reflect light'}
+      />
 
       {trackedLaserSources.map(tls => {
         const rotationAngle = getSourceRotationAngle(tls.source.initialDirection);
@@ -257,7 +688,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
             <g 
                 key={tls.source.id} 
                 role="img" 
-                aria-label={`Laser source emitter ID ${tls.source.id}`}
+                aria-label={`${getWavelengthName(getSourceWavelength(tls.source))} laser source emitter ID ${tls.source.id}`}
                 transform={`translate(${tls.source.position.x}, ${tls.source.position.y}) rotate(${rotationAngle})`}
             >
               <rect 
@@ -273,7 +704,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
                   cx={apertureLocalCx} 
                   cy={apertureLocalCy}
                   r={SOURCE_EMITTER_APERTURE_RADIUS} 
-                  fill={SOURCE_EMITTER_APERTURE_COLOR} 
+                  fill={wavelengthToColor(getSourceWavelength(tls.source))} 
               />
                <circle 
                   cx={apertureLocalCx}
@@ -291,28 +722,43 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
             key={detector.id} 
             detector={detector} 
             isHit={globallyHitDetectorIds.has(detector.id)} 
+            receivedPower={detectorReceivedPower[detector.id] ?? 0}
         />
       ))}
 
       {obstacles.map(o => {
+        const material = o.material ?? 'absorbing';
         if (o.shape === 'line') {
           const lineObstacle = o as LineObstacle;
+          const style = getObstacleStyle(material, OBSTACLE_COLOR);
           return (
-            <line
-              key={o.id}
-              x1={lineObstacle.p1.x}
-              y1={lineObstacle.p1.y}
-              x2={lineObstacle.p2.x}
-              y2={lineObstacle.p2.y}
-              stroke={OBSTACLE_COLOR}
-              strokeWidth="8" 
-              strokeLinecap="round"
-              role="img"
-              aria-label="Line obstacle, static"
-            />
+            <g key={o.id} role="img" aria-label={`${material} line obstacle, static`}>
+              <line
+                x1={lineObstacle.p1.x}
+                y1={lineObstacle.p1.y}
+                x2={lineObstacle.p2.x}
+                y2={lineObstacle.p2.y}
+                stroke={style.stroke}
+                strokeWidth="8" 
+                strokeLinecap="round"
+              />
+              {material !== 'absorbing' && (
+                <line
+                  x1={lineObstacle.p1.x}
+                  y1={lineObstacle.p1.y}
+                  x2={lineObstacle.p2.x}
+                  y2={lineObstacle.p2.y}
+                  stroke={style.fill}
+                  strokeWidth="4"
+                  strokeLinecap="round"
+                  strokeDasharray={style.strokeDasharray}
+                />
+              )}
+            </g>
           );
         } else if (o.shape === 'rectangle') {
           const rectObstacle = o as RectangleObstacle;
+          const style = getObstacleStyle(material, OBSTACLE_RECT_FILL_COLOR);
           return (
             <rect
               key={o.id}
@@ -320,38 +766,114 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
               y={rectObstacle.y}
               width={rectObstacle.width}
               height={rectObstacle.height}
-              fill={OBSTACLE_RECT_FILL_COLOR}
-              stroke={OBSTACLE_COLOR}
-              strokeWidth="2"
+              fill={style.fill}
+              fillOpacity={style.fillOpacity}
+              stroke={style.stroke}
+              strokeWidth={material === 'mirrored' ? 3 : 2}
+              strokeDasharray={style.strokeDasharray}
               rx="2" ry="2"
+              transform={rectObstacle.rotation ? `rotate(${rectObstacle.rotation} ${rectObstacle.x + rectObstacle.width / 2} ${rectObstacle.y + rectObstacle.height / 2})` : undefined}
               role="img"
-              aria-label="Rectangular obstacle, static"
+              aria-label={`${material} rectangular obstacle, static`}
             />
           );
         } else if (o.shape === 'circle') {
             const circleObstacle = o as CircleObstacle;
+            const style = getObstacleStyle(material, OBSTACLE_CIRCLE_FILL_COLOR);
             return (
                 <circle
                     key={o.id}
                     cx={circleObstacle.cx}
                     cy={circleObstacle.cy}
                     r={circleObstacle.radius}
-                    fill={OBSTACLE_CIRCLE_FILL_COLOR}
-                    stroke={OBSTACLE_COLOR}
-                    strokeWidth="2"
+                    fill={style.fill}
+                    fillOpacity={style.fillOpacity}
+                    stroke={style.stroke}
+                    strokeWidth={material === 'mirrored' ? 3 : 2}
+                    strokeDasharray={style.strokeDasharray}
                     role="img"
-                    aria-label="Circular obstacle, static"
+                    aria-label={`${material} circular obstacle, static`}
                 />
             );
+        } else if (o.shape === 'polygon') {
+          const polygonObstacle = o as PolygonObstacle;
+          const style = getObstacleStyle(material, OBSTACLE_RECT_FILL_COLOR);
+          return (
+            <polygon
+              key={o.id}
+              points={polygonObstacle.points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill={style.fill}
+              fillOpacity={style.fillOpacity}
+              stroke={style.stroke}
+              strokeWidth={material === 'mirrored' ? 3 : 2}
+              strokeDasharray={style.strokeDasharray}
+              strokeLinejoin="round"
+              role="img"
+              aria-label={`${material} polygon obstacle, static`}
+            />
+          );
         }
         return null;
       })}
 
-      {placedMirrors.map(m => (
-        <g key={m.id} role="application" aria-label={`Mirror type ${m.type}, draggable. From (${Math.round(m.p1.x)}, ${Math.round(m.p1.y)}) to (${Math.round(m.p2.x)}, ${Math.round(m.p2.y)})`}>
+      {editorOverlay && placedMirrors.map(m => (
+        <g key={m.id}>
+          <RenderPlacedMirror mirror={m} />
+          <RenderLockMarker mirror={m} />
+        </g>
+      ))}
+
+      {!editorOverlay && placedMirrors.map(m => (
+        <g
+          key={m.id}
+          data-mirror-id={m.id}
+          role="application"
+          aria-label={`${describeComponent(m)}, ${describeComponentLock(m.lock)}, ${describeMirrorPlacement(m)}`}
+          aria-describedby="component-keyboard-help"
+          tabIndex={0}
+          onKeyDown={(e) => onMirrorKeyDown(m.id, e)}
+          onFocus={() => onSelectMirror(m.id)}
+          className="focus:outline-none group"
+        >
+          {/* Ring around the focused or selected component */}
+          <circle
+            cx={(m.p1.x + m.p2.x) / 2}
+            cy={(m.p1.y + m.p2.y) / 2}
+            r={distance(m.p1, m.p2) / 2 + 12}
+            fill="none"
+            stroke={FOCUS_RING_COLOR}
+            strokeWidth="2"
+            strokeDasharray="4 3"
+            className={`${m.id === selectedMirrorId ? 'opacity-60' : 'opacity-0'} group-focus:opacity-100 pointer-events-none`}
+          />
           {/* Visual representation of the mirror */}
           <RenderPlacedMirror mirror={m} />
-          
+          <RenderLockMarker mirror={m} />
+
+          {/* Glass bodies can be grabbed anywhere inside their outline */}
+          {isGlassType(m.type) && (
+            <polygon
+              points={getGlassVertices(m).map(v => `${v.x},${v.y}`).join(' ')}
+              fill="transparent"
+              className={getBodyCursorClass(m)}
+              onMouseDown={(e) => { e.stopPropagation(); onMouseDownOnMirrorBody(m.id, e);}}
+              onTouchStart={(e) => { e.stopPropagation(); onMouseDownOnMirrorBody(m.id, e);}}
+            />
+          )}
+
+          {/* A strongly curved mirror strays from its chord, so its arc can be grabbed too */}
+          {isCurvedMirrorType(m.type) && (
+            <path
+              d={getCurvedMirrorPath(m)}
+              fill="none"
+              stroke="transparent"
+              strokeWidth="12"
+              className={getBodyCursorClass(m)}
+              onMouseDown={(e) => { e.stopPropagation(); onMouseDownOnMirrorBody(m.id, e);}}
+              onTouchStart={(e) => { e.stopPropagation(); onMouseDownOnMirrorBody(m.id, e);}}
+            />
+          )}
+
           {/* Invisible line for interaction */}
           <line
             x1={m.p1.x}
@@ -361,42 +883,80 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
             stroke="transparent"
             strokeWidth="12" // Increased width for easier grabbing
             strokeLinecap="round"
-            className="cursor-move active:cursor-grabbing" 
+            className={getBodyCursorClass(m)}
             onMouseDown={(e) => { e.stopPropagation(); onMouseDownOnMirrorBody(m.id, e);}}
             onTouchStart={(e) => { e.stopPropagation(); onMouseDownOnMirrorBody(m.id, e);}}
           />
-          <circle
-            cx={m.p1.x}
-            cy={m.p1.y}
-            r="8" 
-            fill={MIRROR_HANDLE_COLOR}
-            stroke={getHandleStrokeColor(m.type)}
-            strokeWidth="1.5"
-            className="cursor-grab active:cursor-grabbing"
-            onMouseDown={(e) => { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p1');}}
-            onTouchStart={(e) => { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p1');}} 
-            aria-label={`Mirror start point control at (${Math.round(m.p1.x)}, ${Math.round(m.p1.y)})`}
-            tabIndex={0} 
-            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p1');}}}
-
-          />
-          <circle
-            cx={m.p2.x}
-            cy={m.p2.y}
-            r="8" 
-            fill={MIRROR_HANDLE_COLOR}
-            stroke={getHandleStrokeColor(m.type)}
-            strokeWidth="1.5"
-            className="cursor-grab active:cursor-grabbing"
-            onMouseDown={(e) => { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p2');}}
-            onTouchStart={(e) => { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p2');}} 
-            aria-label={`Mirror end point control at (${Math.round(m.p2.x)}, ${Math.round(m.p2.y)})`}
-            tabIndex={0} 
-            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p2');}}}
-          />
+          {/* Endpoint handles only on components that can turn */}
+          {canRotateComponent(m) && (
+            <>
+              <circle
+                cx={m.p1.x}
+                cy={m.p1.y}
+                r="8" 
+                fill={MIRROR_HANDLE_COLOR}
+                stroke={m.lock === 'rotate-only' ? ROTATE_ONLY_COMPONENT_COLOR : getHandleStrokeColor(m.type)}
+                strokeWidth="1.5"
+                className="cursor-grab active:cursor-grabbing"
+                onMouseDown={(e) => { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p1');}}
+                onTouchStart={(e) => { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p1');}} 
+                aria-label={`Mirror start point control at (${Math.round(m.p1.x)}, ${Math.round(m.p1.y)})`}
+              />
+              <circle
+                cx={m.p2.x}
+                cy={m.p2.y}
+                r="8" 
+                fill={MIRROR_HANDLE_COLOR}
+                stroke={m.lock === 'rotate-only' ? ROTATE_ONLY_COMPONENT_COLOR : getHandleStrokeColor(m.type)}
+                strokeWidth="1.5"
+                className="cursor-grab active:cursor-grabbing"
+                onMouseDown={(e) => { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p2');}}
+                onTouchStart={(e) => { e.stopPropagation(); onMouseDownOnMirrorPoint(m.id, 'p2');}} 
+                aria-label={`Mirror end point control at (${Math.round(m.p2.x)}, ${Math.round(m.p2.y)})`}
+              />
+            </>
+          )}
+          {canEditComponent(m) && (isCurvedMirrorType(m.type) || isLensType(m.type)) && (() => {
+            const handle = getCurvatureHandlePosition(m);
+            return (
+              <rect
+                x={handle.x - 5}
+                y={handle.y - 5}
+                width="10"
+                height="10"
+                transform={`rotate(45 ${handle.x} ${handle.y})`}
+                fill={CURVATURE_HANDLE_COLOR}
+                stroke={getHandleStrokeColor(m.type)}
+                strokeWidth="1.5"
+                className="cursor-grab active:cursor-grabbing"
+                onMouseDown={(e) => { e.stopPropagation(); onMouseDownOnMirrorCurvature(m.id);}}
+                onTouchStart={(e) => { e.stopPropagation(); onMouseDownOnMirrorCurvature(m.id);}}
+                aria-label={`Curvature control, focal length ${Math.round(getFocalLength(m))}`}
+              />
+            );
+          })()}
         </g>
       ))}
 
+      {/* What the current drag snapped to */}
+      <g className="pointer-events-none" aria-hidden="true">
+        {snapGuides.map((guide, i) => (
+          <line
+            key={`snap-guide-${i}`}
+            x1={guide.from.x}
+            y1={guide.from.y}
+            x2={guide.to.x}
+            y2={guide.to.y}
+            stroke={SNAP_GUIDE_COLOR}
+            strokeOpacity={guide.kind === 'grid' ? 0.4 : 0.9}
+            strokeWidth="1"
+            strokeDasharray="4 4"
+          />
+        ))}
+      </g>
+
+      {hint && <RenderHint hint={hint} placedMirrors={placedMirrors} />}
+
       {trackedLaserSources.map(tls => (
         tls.laserPath.map((segment, i) => (
           <line
@@ -405,15 +965,24 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
             y1={segment.start.y}
             x2={segment.end.x}
             y2={segment.end.y}
-            stroke={LASER_COLOR}
-            strokeWidth="2.5"
+            stroke={wavelengthToColor(segment.wavelength ?? DEFAULT_LASER_WAVELENGTH)}
+            strokeOpacity={LASER_MIN_OPACITY + (1 - LASER_MIN_OPACITY) * (segment.power ?? 1)}
+            strokeWidth={LASER_MIN_STROKE_WIDTH + (LASER_MAX_STROKE_WIDTH - LASER_MIN_STROKE_WIDTH) * (segment.power ?? 1)}
             strokeLinecap="round"
             role="graphics-symbol"
-            aria-label={`Laser segment ${i+1} for source ${tls.id}`}
+            aria-label={`Laser segment ${i+1} for source ${tls.id}, ${getPolarizationName(segment.polarization ?? null)}`}
           />
         ))
       ))}
+      {trackedLaserSources.map(tls => (
+        tls.laserPath.map((segment, i) => <RenderPolarizationMarks key={`polarization-${tls.id}-${i}`} segment={segment} />)
+      ))}
+      {editorOverlay}
+
       <defs>
+        <marker id="hint-arrowhead" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill={HINT_COLOR} />
+        </marker>
       </defs>
     </svg>
   );
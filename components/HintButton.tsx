@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface HintButtonProps {
+  onHint: () => void;
+  hintsUsed: number;
+  isDisabled: boolean;
+}
+
+export const HintButton: React.FC<HintButtonProps> = ({ onHint, hintsUsed, isDisabled }) => {
+  return (
+    <button
+      onClick={onHint}
+      disabled={isDisabled}
+      className={`relative p-2 text-white rounded-full shadow-md focus:outline-none focus:ring-2 focus:ring-amber-300 focus:ring-opacity-75 transition-colors
+                  ${isDisabled ? 'bg-amber-300 cursor-not-allowed opacity-60' : 'bg-amber-500 hover:bg-amber-600'}`}
+      title={`Show a hint (${hintsUsed} used this level)`}
+      aria-label={`Show a hint. ${hintsUsed} hints used this level.`}
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+      </svg>
+      {hintsUsed > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-slate-900 text-xs leading-5 text-center">
+          {hintsUsed}
+        </span>
+      )}
+    </button>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { CampaignLevel, LevelScore } from '../types';
+import { StarRating } from './StarRating';
+import { formatSolveTime } from '../utils/scoring';
+
+interface LevelCompletePanelProps {
+  isCampaignLevel: boolean;
+  score: LevelScore | null;
+  isNewPersonalBest: boolean;
+  dailyStreak: number | null; // Shown after solving today's daily
+  nextLevel: CampaignLevel | null; // Null after the last campaign level, and on boards outside the campaign
+  onNextLevel: () => void;
+  onOpenLevelSelect: () => void;
+  onPlayRandom: () => void;
+}
+
+export const LevelCompletePanel: React.FC<LevelCompletePanelProps> = ({ isCampaignLevel, score, isNewPersonalBest, dailyStreak, nextLevel, onNextLevel, onOpenLevelSelect, onPlayRandom }) => {
+  const isCampaignFinished = isCampaignLevel && !nextLevel;
+  return (
+    <div className="mt-6 p-4 bg-green-100 border border-green-300 rounded-lg shadow-lg text-center" role="status">
+      <h3 className="text-2xl font-bold text-green-700">{isCampaignFinished ? 'Campaign Complete!' : 'Level Solved!'}</h3>
+      {score && (
+        <div className="my-3">
+          <StarRating stars={score.stars} className="text-3xl" />
+          <p className="text-lg font-semibold text-green-800">{score.score} points</p>
+          {isNewPersonalBest && <p className="text-sm font-medium text-amber-600">New personal best!</p>}
+          {dailyStreak !== null && <p className="text-sm font-medium text-violet-700">Daily streak: {dailyStreak} day{dailyStreak === 1 ? '' : 's'}</p>}
+          <dl className="mt-2 grid grid-cols-2 gap-x-2 text-sm text-left text-green-800">
+            <dt>Components</dt><dd className="text-right">{score.componentsUsed}/{score.maxComponents}</dd>
+            <dt>Beam length</dt><dd className="text-right">{score.beamLength} px</dd>
+            <dt>Interactions</dt><dd className="text-right">{score.interactions}</dd>
+            <dt>Time</dt><dd className="text-right">{formatSolveTime(score.solveTimeMs)}</dd>
+          </dl>
+        </div>
+      )}
+      <p className="mb-3 text-green-600">
+        {isCampaignFinished
+          ? 'You have solved every campaign level.'
+          : nextLevel
+            ? <>Up next: {nextLevel.level.name ?? 'the next level'}.</>
+            : 'Every detector is lit.'}
+      </p>
+      <div className="flex flex-col space-y-2">
+        {nextLevel && (
+          <button
+            onClick={onNextLevel}
+            className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded shadow focus:outline-none focus:ring-2 focus:ring-green-400 transition-colors"
+          >
+            Next level
+          </button>
+        )}
+        {!isCampaignLevel && (
+          <button
+            onClick={onPlayRandom}
+            className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded shadow focus:outline-none focus:ring-2 focus:ring-green-400 transition-colors"
+          >
+            New random board
+          </button>
+        )}
+        <button
+          onClick={onOpenLevelSelect}
+          className="px-3 py-1.5 bg-white hover:bg-green-50 text-green-700 text-sm border border-green-300 rounded shadow focus:outline-none focus:ring-2 focus:ring-green-400 transition-colors"
+        >
+          Level select
+        </button>
+      </div>
+    </div>
+  );
+};
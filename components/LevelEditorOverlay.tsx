@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import type { Point, Obstacle, Level, EditorTool, EditorSelection } from '../types';
+import {
+  GAME_WIDTH, GAME_HEIGHT, EDITOR_SELECTION_COLOR, EDITOR_HANDLE_COLOR, EDITOR_SOURCE_AIM_HANDLE_DISTANCE
+} from '../constants';
+import { addPoints, scaleVector, subtractPoints, getObstacleVertices, getObstacleCenter } from '../utils/geometry';
+import { moveItem, updateObstacle, updateSource, resizeObstacle, aimSource, getRectangleRotationHandle } from '../utils/levelEditing';
+import type { ObstacleHandle } from '../utils/levelEditing';
+
+interface LevelEditorOverlayProps {
+  level: Level;
+  tool: EditorTool;
+  selection: EditorSelection;
+  onSelect: (selection: EditorSelection) => void;
+  onChangeLevel: (level: Level) => void;
+  onPlaceItem: (point: Point) => void;
+  onDeleteSelected: () => void;
+  getSVGCoordinates: (clientX: number, clientY: number) => Point | null;
+}
+
+type EditorDrag =
+  | { type: 'move'; selection: NonNullable<EditorSelection>; startPointer: Point; originalLevel: Level }
+  | { type: 'resize'; obstacleId: string; handle: ObstacleHandle; originalLevel: Level }
+  | { type: 'aim'; sourceId: string; originalLevel: Level };
+
+const HIT_STROKE_WIDTH = 14;
+const HANDLE_RADIUS = 6;
+
+// Transparent shapes over every board item so it can be selected and dragged in the editor.
+// Items are still drawn by GameCanvas; this layer only adds interaction and selection feedback.
+export const LevelEditorOverlay: React.FC<LevelEditorOverlayProps> = ({
+  level,
+  tool,
+  selection,
+  onSelect,
+  onChangeLevel,
+  onPlaceItem,
+  onDeleteSelected,
+  getSVGCoordinates
+}) => {
+  const [drag, setDrag] = useState<EditorDrag | null>(null);
+
+  useEffect(() => {
+    if (!drag) return;
+    const handlePointerMove = (event: PointerEvent) => {
+      const coords = getSVGCoordinates(event.clientX, event.clientY);
+      if (!coords) return;
+      if (drag.type === 'move') {
+        onChangeLevel(moveItem(drag.originalLevel, drag.selection, subtractPoints(coords, drag.startPointer)));
+      } else if (drag.type === 'resize') {
+        onChangeLevel(updateObstacle(drag.originalLevel, drag.obstacleId, o => resizeObstacle(o, drag.handle, coords)));
+      } else {
+        onChangeLevel(updateSource(drag.originalLevel, drag.sourceId, s => aimSource(s, coords)));
+      }
+    };
+    const handlePointerUp = () => setDrag(null);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [drag, getSVGCoordinates, onChangeLevel]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) return;
+      if ((event.key === 'Delete' || event.key === 'Backspace') && selection) {
+        event.preventDefault();
+        onDeleteSelected();
+      } else if (event.key === 'Escape') {
+        onSelect(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selection, onDeleteSelected, onSelect]);
+
+  const startMove = (event: React.PointerEvent<SVGElement>, itemSelection: NonNullable<EditorSelection>) => {
+    if (tool !== 'select') return; // Let the board place a new item on top
+    event.stopPropagation();
+    const coords = getSVGCoordinates(event.clientX, event.clientY);
+    if (!coords) return;
+    onSelect(itemSelection);
+    setDrag({ type: 'move', selection: itemSelection, startPointer: coords, originalLevel: level });
+  };
+
+  const startResize = (event: React.PointerEvent<SVGElement>, obstacleId: string, handle: ObstacleHandle) => {
+    event.stopPropagation();
+    setDrag({ type: 'resize', obstacleId, handle, originalLevel: level });
+  };
+
+  const handleBoardPointerDown = (event: React.PointerEvent<SVGRectElement>) => {
+    const coords = getSVGCoordinates(event.clientX, event.clientY);
+    if (!coords) return;
+    if (tool === 'select') {
+      onSelect(null);
+    } else {
+      onPlaceItem(coords);
+    }
+  };
+
+  const isSelected = (kind: NonNullable<EditorSelection>['kind'], id: string) => selection?.kind === kind && selection.id === id;
+  const itemCursor = tool === 'select' ? 'cursor-move' : 'cursor-crosshair';
+
+  const renderHandle = (key: string, point: Point, onPointerDown: (e: React.PointerEvent<SVGElement>) => void, label: string) => (
+    <circle
+      key={key}
+      cx={point.x}
+      cy={point.y}
+      r={HANDLE_RADIUS}
+      fill={EDITOR_HANDLE_COLOR}
+      stroke={EDITOR_SELECTION_COLOR}
+      strokeWidth="1.5"
+      className="cursor-grab active:cursor-grabbing"
+      onPointerDown={onPointerDown}
+      aria-label={label}
+    />
+  );
+
+  const renderObstacleHitShape = (obstacle: Obstacle) => {
+    const selected = isSelected('obstacle', obstacle.id);
+    const common = {
+      className: itemCursor,
+      onPointerDown: (e: React.PointerEvent<SVGElement>) => startMove(e, { kind: 'obstacle', id: obstacle.id }),
+      stroke: selected ? EDITOR_SELECTION_COLOR : 'transparent',
+      strokeDasharray: selected ? '5 3' : undefined,
+    };
+    if (obstacle.shape === 'line') {
+      return (
+        <g key={obstacle.id}>
+          <line x1={obstacle.p1.x} y1={obstacle.p1.y} x2={obstacle.p2.x} y2={obstacle.p2.y} {...common} stroke="transparent" strokeWidth={HIT_STROKE_WIDTH} strokeLinecap="round" />
+          {selected && <line x1={obstacle.p1.x} y1={obstacle.p1.y} x2={obstacle.p2.x} y2={obstacle.p2.y} stroke={EDITOR_SELECTION_COLOR} strokeWidth="1.5" strokeDasharray="5 3" className="pointer-events-none" />}
+          {selected && renderHandle('p1', obstacle.p1, e => startResize(e, obstacle.id, 'p1'), 'Line obstacle start point')}
+          {selected && renderHandle('p2', obstacle.p2, e => startResize(e, obstacle.id, 'p2'), 'Line obstacle end point')}
+        </g>
+      );
+    }
+    if (obstacle.shape === 'rectangle') {
+      const center = getObstacleCenter(obstacle);
+      const rotation = obstacle.rotation ?? 0;
+      const [topLeft, topRight, resizeCorner] = getObstacleVertices(obstacle);
+      const rotationHandle = getRectangleRotationHandle(obstacle);
+      const topMiddle = scaleVector(addPoints(topLeft, topRight), 0.5);
+      return (
+        <g key={obstacle.id}>
+          <rect x={obstacle.x} y={obstacle.y} width={obstacle.width} height={obstacle.height} transform={rotation ? `rotate(${rotation} ${center.x} ${center.y})` : undefined} fill="transparent" strokeWidth="1.5" {...common} />
+          {selected && <line x1={topMiddle.x} y1={topMiddle.y} x2={rotationHandle.x} y2={rotationHandle.y} stroke={EDITOR_SELECTION_COLOR} strokeWidth="1.5" strokeDasharray="3 3" className="pointer-events-none" />}
+          {selected && renderHandle('corner', resizeCorner, e => startResize(e, obstacle.id, 'corner'), 'Rectangle obstacle resize handle')}
+          {selected && renderHandle('rotation', rotationHandle, e => startResize(e, obstacle.id, 'rotation'), 'Rectangle obstacle rotation handle')}
+        </g>
+      );
+    }
+    if (obstacle.shape === 'polygon') {
+      return (
+        <g key={obstacle.id}>
+          <polygon points={obstacle.points.map(p => `${p.x},${p.y}`).join(' ')} fill="transparent" strokeWidth="1.5" {...common} />
+          {selected && obstacle.points.map((p, i) => renderHandle(`vertex-${i}`, p, e => startResize(e, obstacle.id, { vertex: i }), `Polygon obstacle corner ${i + 1}`))}
+        </g>
+      );
+    }
+    return (
+      <g key={obstacle.id}>
+        <circle cx={obstacle.cx} cy={obstacle.cy} r={obstacle.radius} fill="transparent" strokeWidth="1.5" {...common} />
+        {selected && renderHandle('radius', { x: obstacle.cx + obstacle.radius, y: obstacle.cy }, e => startResize(e, obstacle.id, 'radius'), 'Circle obstacle radius handle')}
+      </g>
+    );
+  };
+
+  return (
+    <g aria-label="Level editor">
+      <rect
+        x={0}
+        y={0}
+        width={GAME_WIDTH}
+        height={GAME_HEIGHT}
+        fill="transparent"
+        className={tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}
+        onPointerDown={handleBoardPointerDown}
+      />
+
+      {level.obstacles.map(renderObstacleHitShape)}
+
+      {level.detectors.map(detector => {
+        const selected = isSelected('detector', detector.id);
+        return (
+          <rect
+            key={detector.id}
+            x={detector.x - 3}
+            y={detector.y - 3}
+            width={detector.width + 6}
+            height={detector.height + 6}
+            fill="transparent"
+            stroke={selected ? EDITOR_SELECTION_COLOR : 'transparent'}
+            strokeWidth="1.5"
+            strokeDasharray="5 3"
+            className={itemCursor}
+            onPointerDown={e => startMove(e, { kind: 'detector', id: detector.id })}
+          />
+        );
+      })}
+
+      {level.sources.map(source => {
+        const selected = isSelected('source', source.id);
+        const aimHandle = addPoints(source.position, scaleVector(source.initialDirection, EDITOR_SOURCE_AIM_HANDLE_DISTANCE));
+        return (
+          <g key={source.id}>
+            <circle
+              cx={source.position.x}
+              cy={source.position.y}
+              r={14}
+              fill="transparent"
+              stroke={selected ? EDITOR_SELECTION_COLOR : 'transparent'}
+              strokeWidth="1.5"
+              strokeDasharray="5 3"
+              className={itemCursor}
+              onPointerDown={e => startMove(e, { kind: 'source', id: source.id })}
+            />
+            {selected && (
+              <>
+                <line x1={source.position.x} y1={source.position.y} x2={aimHandle.x} y2={aimHandle.y} stroke={EDITOR_SELECTION_COLOR} strokeWidth="1.5" strokeDasharray="3 3" className="pointer-events-none" />
+                {renderHandle('aim', aimHandle, e => { e.stopPropagation(); setDrag({ type: 'aim', sourceId: source.id, originalLevel: level }); }, 'Laser source direction handle')}
+              </>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
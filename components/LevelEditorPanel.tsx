@@ -0,0 +1,343 @@
+import React from 'react';
+import type { Level, EditorTool, EditorSelection, ObstacleMaterial, ComponentLock } from '../types';
+import { INITIAL_PALETTE_MIRRORS, LASER_WAVELENGTHS } from '../constants';
+import { getSourceWavelength, wavelengthToColor } from '../utils/spectrum';
+import { getDetectorMinPower } from '../utils/simulation';
+import { describeComponent, describeMirrorPlacement } from '../utils/keyboardControls';
+import {
+  updateSource, updateDetector, updateObstacle, setRequiredWavelength, directionFromDegrees, directionToDegrees, setInventoryCount, setInventoryLength, setMaxComponents,
+  setAbsorbingBoundaries, setRectangleRotation, setPlacedMirrorLock
+} from '../utils/levelEditing';
+
+interface LevelEditorPanelProps {
+  level: Level;
+  tool: EditorTool;
+  selection: EditorSelection;
+  onToolChange: (tool: EditorTool) => void;
+  onChangeLevel: (level: Level) => void;
+  onDeleteSelected: () => void;
+}
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'select', label: 'Select / Move' },
+  { tool: 'line', label: 'Line' },
+  { tool: 'rectangle', label: 'Rectangle' },
+  { tool: 'circle', label: 'Circle' },
+  { tool: 'polygon', label: 'Polygon' },
+  { tool: 'source', label: 'Laser Source' },
+  { tool: 'detector', label: 'Detector' },
+];
+
+const DETECTOR_ANGLE_OPTIONS: { angle: number; label: string }[] = [
+  { angle: 0, label: 'From the left (0°)' },
+  { angle: 90, label: 'From above (90°)' },
+  { angle: 180, label: 'From the right (180°)' },
+  { angle: 270, label: 'From below (270°)' },
+];
+
+const LOCK_OPTIONS: { lock: ComponentLock | null; label: string }[] = [
+  { lock: null, label: "Free (the player's to change)" },
+  { lock: 'locked', label: 'Locked' },
+  { lock: 'no-rotate', label: 'Movable, fixed angle' },
+  { lock: 'rotate-only', label: 'Rotates about its center' },
+];
+
+const POLARIZATION_OPTIONS = [0, 45, 90, 135];
+
+const MATERIAL_OPTIONS: { material: ObstacleMaterial; label: string }[] = [
+  { material: 'absorbing', label: 'Absorbing' },
+  { material: 'mirrored', label: 'Mirrored' },
+  { material: 'diffuse', label: 'Frosted (diffuse)' },
+  { material: 'glass', label: 'Glass' },
+];
+
+const MAX_EDITOR_COMPONENTS = 10;
+
+export const LevelEditorPanel: React.FC<LevelEditorPanelProps> = ({
+  level,
+  tool,
+  selection,
+  onToolChange,
+  onChangeLevel,
+  onDeleteSelected
+}) => {
+  const selectedSource = selection?.kind === 'source' ? level.sources.find(s => s.id === selection.id) : undefined;
+  const selectedDetector = selection?.kind === 'detector' ? level.detectors.find(d => d.id === selection.id) : undefined;
+  const selectedObstacle = selection?.kind === 'obstacle' ? level.obstacles.find(o => o.id === selection.id) : undefined;
+
+  const renderSelectionProperties = () => {
+    if (selectedSource) {
+      const degrees = directionToDegrees(selectedSource.initialDirection);
+      const setDegrees = (value: number) => onChangeLevel(updateSource(level, selectedSource.id, s => ({ ...s, initialDirection: directionFromDegrees(value) })));
+      return (
+        <>
+          <p className="text-sm font-medium text-slate-700">Laser source {selectedSource.id}</p>
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Direction (°)</span>
+            <input
+              type="number"
+              value={degrees}
+              onChange={(e) => setDegrees(Number(e.target.value))}
+              className="w-20 px-2 py-1 border border-slate-300 rounded"
+            />
+          </label>
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Color</span>
+            <select
+              value={getSourceWavelength(selectedSource)}
+              onChange={(e) => onChangeLevel(updateSource(level, selectedSource.id, s => ({ ...s, wavelength: Number(e.target.value) })))}
+              className="w-28 px-2 py-1 border border-slate-300 rounded bg-white"
+            >
+              {LASER_WAVELENGTHS.map(({ wavelength, name }) => (
+                <option key={wavelength} value={wavelength}>{name} ({wavelength} nm)</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Polarization</span>
+            <select
+              value={selectedSource.polarization ?? ''}
+              onChange={(e) => onChangeLevel(updateSource(level, selectedSource.id, ({ polarization: _previous, ...s }) => (
+                e.target.value === '' ? s : { ...s, polarization: Number(e.target.value) }
+              )))}
+              className="w-28 px-2 py-1 border border-slate-300 rounded bg-white"
+            >
+              <option value="">Unpolarized</option>
+              {POLARIZATION_OPTIONS.map(angle => <option key={angle} value={angle}>{angle}°</option>)}
+            </select>
+          </label>
+          <div className="flex space-x-2">
+            <button onClick={() => setDegrees(degrees - 45)} className="flex-1 px-2 py-1 text-xs bg-white border border-slate-300 rounded hover:bg-slate-50">Rotate -45°</button>
+            <button onClick={() => setDegrees(degrees + 45)} className="flex-1 px-2 py-1 text-xs bg-white border border-slate-300 rounded hover:bg-slate-50">Rotate +45°</button>
+          </div>
+        </>
+      );
+    }
+    if (selectedDetector) {
+      return (
+        <>
+          <p className="text-sm font-medium text-slate-700">Detector {selectedDetector.id}</p>
+          <label className="block text-sm text-slate-600">
+            Accepts light
+            <select
+              value={selectedDetector.angle}
+              onChange={(e) => onChangeLevel(updateDetector(level, selectedDetector.id, d => ({ ...d, angle: Number(e.target.value) })))}
+              className="mt-1 w-full px-2 py-1 border border-slate-300 rounded bg-white"
+            >
+              {DETECTOR_ANGLE_OPTIONS.map(option => (
+                <option key={option.angle} value={option.angle}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Minimum power (%)</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={Math.round(getDetectorMinPower(selectedDetector) * 100)}
+              onChange={(e) => onChangeLevel(updateDetector(level, selectedDetector.id, d => ({ ...d, minPower: Math.min(100, Math.max(1, Number(e.target.value))) / 100 })))}
+              className="w-20 px-2 py-1 border border-slate-300 rounded"
+            />
+          </label>
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Requires polarization</span>
+            <select
+              value={selectedDetector.requiredPolarization ?? ''}
+              onChange={(e) => onChangeLevel(updateDetector(level, selectedDetector.id, ({ requiredPolarization: _previous, ...d }) => (
+                e.target.value === '' ? d : { ...d, requiredPolarization: Number(e.target.value) }
+              )))}
+              className="w-28 px-2 py-1 border border-slate-300 rounded bg-white"
+            >
+              <option value="">Any</option>
+              {POLARIZATION_OPTIONS.map(angle => <option key={angle} value={angle}>{angle}°</option>)}
+            </select>
+          </label>
+          <fieldset className="text-sm text-slate-600">
+            <legend>Requires colors (none: any light)</legend>
+            {LASER_WAVELENGTHS.map(({ wavelength, name }) => (
+              <label key={wavelength} className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={selectedDetector.requiredWavelengths?.includes(wavelength) ?? false}
+                  onChange={(e) => onChangeLevel(updateDetector(level, selectedDetector.id, d => setRequiredWavelength(d, wavelength, e.target.checked)))}
+                />
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: wavelengthToColor(wavelength) }} />
+                <span>{name}</span>
+              </label>
+            ))}
+          </fieldset>
+        </>
+      );
+    }
+    if (selectedObstacle) {
+      return (
+        <>
+          <p className="text-sm font-medium text-slate-700">{selectedObstacle.shape} obstacle {selectedObstacle.id}</p>
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Material</span>
+            <select
+              value={selectedObstacle.material ?? 'absorbing'}
+              onChange={(e) => onChangeLevel(updateObstacle(level, selectedObstacle.id, ({ material: _previous, ...o }) => (
+                e.target.value === 'absorbing' ? o : { ...o, material: e.target.value as ObstacleMaterial }
+              )))}
+              className="w-36 px-2 py-1 border border-slate-300 rounded bg-white"
+            >
+              {MATERIAL_OPTIONS.map(({ material, label }) => <option key={material} value={material}>{label}</option>)}
+            </select>
+          </label>
+          {selectedObstacle.shape === 'rectangle' && (
+            <label className="flex items-center justify-between text-sm text-slate-600">
+              <span>Rotation (°)</span>
+              <input
+                type="number"
+                value={selectedObstacle.rotation ?? 0}
+                onChange={(e) => onChangeLevel(updateObstacle(level, selectedObstacle.id, o => setRectangleRotation(o, Number(e.target.value))))}
+                className="w-20 px-2 py-1 border border-slate-300 rounded"
+              />
+            </label>
+          )}
+          {selectedObstacle.shape === 'polygon' && <p className="text-xs text-slate-500">Drag a corner handle to reshape; corners cannot cross other edges.</p>}
+        </>
+      );
+    }
+    return <p className="text-sm text-slate-500">Nothing selected. Click an item with Select / Move to edit it.</p>;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm text-slate-600">
+          Level name
+          <input
+            type="text"
+            value={level.name ?? ''}
+            onChange={(e) => onChangeLevel({ ...level, name: e.target.value || undefined })}
+            placeholder="Untitled level"
+            className="mt-1 w-full px-2 py-1 border border-slate-300 rounded"
+          />
+        </label>
+        <label className="mt-2 flex items-center space-x-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={level.absorbingBoundaries ?? false}
+            onChange={(e) => onChangeLevel(setAbsorbingBoundaries(level, e.target.checked))}
+          />
+          <span>Board edges absorb light</span>
+        </label>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2 text-slate-700">Tools</h3>
+        <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Editor tool">
+          {TOOLS.map(({ tool: option, label }) => (
+            <button
+              key={option}
+              role="radio"
+              aria-checked={tool === option}
+              onClick={() => onToolChange(option)}
+              className={`px-2 py-1.5 text-xs rounded border transition-colors
+                          ${tool === option ? 'bg-blue-600 border-blue-700 text-white' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-slate-500">
+          {tool === 'select' ? 'Drag items to move them, drag handles to resize or aim. Delete removes the selection.' : 'Click on the board to place.'}
+        </p>
+      </div>
+
+      <div className="p-2 bg-white border border-slate-200 rounded space-y-2">
+        {renderSelectionProperties()}
+        {selection && (
+          <button onClick={onDeleteSelected} className="w-full px-2 py-1 text-xs bg-red-500 hover:bg-red-600 text-white rounded">
+            Delete selected
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2 text-slate-700">Player components</h3>
+        {INITIAL_PALETTE_MIRRORS.map(template => {
+          const item = level.inventory.find(i => i.templateId === template.id);
+          return (
+            <div key={template.id} className="mb-1 text-sm text-slate-600">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={item !== undefined}
+                  onChange={(e) => onChangeLevel(setInventoryCount(level, template.id, e.target.checked ? 1 : null))}
+                />
+                <span>{template.description}</span>
+              </label>
+              {item && (
+                <div className="ml-6 flex items-center space-x-2 text-xs">
+                  <label className="flex items-center space-x-1">
+                    <span>Count</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_EDITOR_COMPONENTS}
+                      value={item.count}
+                      onChange={(e) => onChangeLevel(setInventoryCount(level, template.id, Math.min(MAX_EDITOR_COMPONENTS, Number(e.target.value))))}
+                      className="w-14 px-1 py-0.5 border border-slate-300 rounded"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-1">
+                    <span>Length</span>
+                    <input
+                      type="number"
+                      min={1}
+                      placeholder={String(template.defaultLength)}
+                      value={item.length ?? ''}
+                      onChange={(e) => onChangeLevel(setInventoryLength(level, template.id, e.target.value === '' ? null : Math.max(1, Number(e.target.value))))}
+                      className="w-16 px-1 py-0.5 border border-slate-300 rounded"
+                      title="Leave empty for the component's default length"
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <label className="mt-2 flex items-center justify-between text-sm text-slate-600">
+          <span>Components allowed in total</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_EDITOR_COMPONENTS}
+            value={level.maxComponents}
+            onChange={(e) => onChangeLevel(setMaxComponents(level, Math.min(MAX_EDITOR_COMPONENTS, Number(e.target.value))))}
+            className="w-20 px-2 py-1 border border-slate-300 rounded"
+          />
+        </label>
+      </div>
+
+      {level.placedMirrors.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2 text-slate-700">Pre-placed components</h3>
+          {level.placedMirrors.map(mirror => (
+            <label key={mirror.id} className="mb-1 flex items-center justify-between space-x-2 text-sm text-slate-600">
+              <span className="truncate" title={describeMirrorPlacement(mirror)}>{describeComponent(mirror)}</span>
+              <select
+                value={mirror.lock ?? ''}
+                onChange={(e) => onChangeLevel(setPlacedMirrorLock(level, mirror.id, e.target.value === '' ? null : e.target.value as ComponentLock))}
+                className="w-36 px-2 py-1 border border-slate-300 rounded bg-white"
+              >
+                {LOCK_OPTIONS.map(({ lock, label }) => <option key={label} value={lock ?? ''}>{label}</option>)}
+              </select>
+            </label>
+          ))}
+          <p className="text-xs text-slate-500">Locked components are part of the puzzle and don't use up the inventory.</p>
+        </div>
+      )}
+
+      {(level.sources.length === 0 || level.detectors.length === 0) && (
+        <p className="p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+          A playable level needs at least one laser source and one detector.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useRef, useState } from 'react';
+import type { Level } from '../types';
+import { parseLevelFile, serializeLevel, LevelFormatError } from '../utils/levelFormat';
+
+interface LevelFileControlsProps {
+  getLevelForExport: (includePlacedMirrors: boolean) => Level;
+  onImportLevel: (level: Level) => void;
+}
+
+const getExportFileName = (level: Level): string => {
+  const baseName = level.name ?? (level.seed ? `seed-${level.seed}` : 'custom');
+  return `optika-level-${baseName.replace(/[^a-z0-9_-]+/gi, '-').toLowerCase()}.json`;
+};
+
+export const LevelFileControls: React.FC<LevelFileControlsProps> = ({ getLevelForExport, onImportLevel }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includePlacedMirrors, setIncludePlacedMirrors] = useState<boolean>(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const level = getLevelForExport(includePlacedMirrors);
+    const blob = new Blob([serializeLevel(level)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getExportFileName(level);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file) return;
+    try {
+      const level = parseLevelFile(await file.text());
+      setImportError(null);
+      onImportLevel(level);
+    } catch (error) {
+      const message = error instanceof LevelFormatError ? error.message : `Could not read the file: ${(error as Error).message}`;
+      setImportError(`${file.name}: ${message}`);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-slate-300">
+      <h3 className="text-sm font-semibold mb-2 text-slate-700">Level File</h3>
+      <div className="flex space-x-2">
+        <button
+          onClick={handleExport}
+          className="flex-1 px-3 py-1.5 bg-slate-600 hover:bg-slate-700 text-white text-sm rounded shadow focus:outline-none focus:ring-2 focus:ring-slate-400 transition-colors"
+          title="Download this level as a JSON file"
+        >
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-3 py-1.5 bg-white hover:bg-slate-50 text-slate-700 text-sm border border-slate-300 rounded shadow focus:outline-none focus:ring-2 focus:ring-slate-400 transition-colors"
+          title="Load a level from a JSON file"
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileSelected}
+          aria-label="Level file to import"
+        />
+      </div>
+      <label className="mt-2 flex items-center space-x-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={includePlacedMirrors}
+          onChange={(e) => setIncludePlacedMirrors(e.target.checked)}
+        />
+        <span>Include placed components as pre-placed mirrors</span>
+      </label>
+      {importError && (
+        <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700 break-words" role="alert">
+          <p>{importError}</p>
+          <button onClick={() => setImportError(null)} className="mt-1 underline hover:text-red-900">Dismiss</button>
+        </div>
+      )}
+    </div>
+  );
+};
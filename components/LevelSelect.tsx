@@ -0,0 +1,69 @@
+import React from 'react';
+import type { CampaignPack, CampaignProgress } from '../types';
+import { isCampaignLevelUnlocked } from '../utils/campaign';
+import { ModalDialog } from './ModalDialog';
+
+interface LevelSelectProps {
+  packs: CampaignPack[];
+  progress: CampaignProgress;
+  currentLevelId: string | null;
+  onSelectLevel: (levelId: string) => void;
+  onPlayRandom: () => void;
+  onClose: () => void;
+}
+
+export const LevelSelect: React.FC<LevelSelectProps> = ({ packs, progress, currentLevelId, onSelectLevel, onPlayRandom, onClose }) => {
+  return (
+    <ModalDialog titleId="level-select-title" title="Campaign" closeLabel="Close level select" onClose={onClose}>
+      {packs.map(pack => {
+        const completedCount = pack.levels.filter(entry => progress.completedLevelIds.includes(entry.id)).length;
+        return (
+          <section key={pack.id} className="mb-5">
+            <div className="flex justify-between items-baseline">
+              <h3 className="text-lg font-semibold text-slate-700">{pack.title}</h3>
+              <span className="text-xs text-slate-500">{completedCount}/{pack.levels.length} solved</span>
+            </div>
+            <p className="mb-2 text-sm text-slate-500">{pack.description}</p>
+            <ol className="grid grid-cols-3 gap-2">
+              {pack.levels.map((entry, i) => {
+                const isUnlocked = isCampaignLevelUnlocked(entry.id, progress, packs);
+                const isCompleted = progress.completedLevelIds.includes(entry.id);
+                const isCurrent = entry.id === currentLevelId;
+                const name = entry.level.name ?? `Level ${i + 1}`;
+                return (
+                  <li key={entry.id}>
+                    <button
+                      onClick={() => onSelectLevel(entry.id)}
+                      disabled={!isUnlocked}
+                      aria-current={isCurrent ? 'true' : undefined}
+                      aria-label={`${i + 1}. ${name}${isCompleted ? ', solved' : ''}${isUnlocked ? '' : ', locked'}`}
+                      className={`w-full h-full p-2 text-left text-sm rounded border shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-400 transition-colors
+                                  ${!isUnlocked
+                                    ? 'bg-slate-100 border-slate-200 text-slate-400 cursor-not-allowed'
+                                    : isCompleted
+                                      ? 'bg-green-50 border-green-300 text-green-800 hover:bg-green-100'
+                                      : 'bg-blue-50 border-blue-300 text-blue-800 hover:bg-blue-100'}
+                                  ${isCurrent ? 'ring-2 ring-blue-500' : ''}`}
+                    >
+                      <span className="block font-semibold">{i + 1}. {name}</span>
+                      <span className="block text-xs">{!isUnlocked ? '🔒 Locked' : isCompleted ? '✓ Solved' : 'Unlocked'}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        );
+      })}
+      <div className="pt-4 border-t border-slate-200 flex justify-between items-center">
+        <span className="text-sm text-slate-500">Or skip the campaign and play generated boards.</span>
+        <button
+          onClick={onPlayRandom}
+          className="px-3 py-1.5 bg-slate-600 hover:bg-slate-700 text-white text-sm rounded shadow focus:outline-none focus:ring-2 focus:ring-slate-400 transition-colors"
+        >
+          Random board
+        </button>
+      </div>
+    </ModalDialog>
+  );
+};
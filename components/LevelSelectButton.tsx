@@ -0,0 +1,17 @@
+import React from 'react';
+
+interface LevelSelectButtonProps {
+  onOpen: () => void;
+}
+
+export const LevelSelectButton: React.FC<LevelSelectButtonProps> = ({ onOpen }) => {
+  return (
+    <button
+      onClick={onOpen}
+      className="px-3 py-2 text-sm font-medium bg-indigo-500 hover:bg-indigo-600 text-white rounded-full shadow-md focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-opacity-75 transition-colors"
+      title="Choose a campaign level"
+    >
+      Levels
+    </button>
+  );
+};
@@ -1,23 +1,42 @@
 
 import React from 'react';
-import type { PaletteMirrorTemplate, MirrorType } from '../types';
+import type { PaletteMirrorTemplate, MirrorType, Point } from '../types';
 import { 
   MIRROR_COLOR, MIRROR_BACKING_COLOR, MIRROR_EDGE_HIGHLIGHT_COLOR,
   BEAM_SPLITTER_COLOR, BEAM_SPLITTER_FILL_OPACITY, BEAM_SPLITTER_EDGE_COLOR,
-  DIFFRACTION_GRATING_COLOR, DIFFRACTION_GRATING_FILL_OPACITY, DIFFRACTION_GRATING_EDGE_COLOR, DIFFRACTION_GRATING_LINE_COLOR
+  DIFFRACTION_GRATING_COLOR, DIFFRACTION_GRATING_FILL_OPACITY, DIFFRACTION_GRATING_EDGE_COLOR, DIFFRACTION_GRATING_LINE_COLOR,
+  GLASS_COLOR, GLASS_FILL_OPACITY, GLASS_EDGE_COLOR, GLASS_OUTLINES,
+  DICHROIC_COLOR, DICHROIC_EDGE_COLOR, DICHROIC_DEFAULT_CUTOFF_WAVELENGTH,
+  COLOR_FILTER_FILL_OPACITY, COLOR_FILTER_EDGE_COLOR, COLOR_FILTER_DEFAULT_WAVELENGTH,
+  POLARIZER_COLOR, POLARIZER_FILL_OPACITY, POLARIZER_EDGE_COLOR, WAVE_PLATE_COLOR, WAVE_PLATE_EDGE_COLOR,
+  PBS_COLOR, PBS_EDGE_COLOR, POLARIZER_DEFAULT_AXIS_ANGLE,
+  CURVED_MIRROR_COLOR, CURVED_MIRROR_BACK_COLOR, LENS_COLOR, LENS_FILL_OPACITY, LENS_EDGE_COLOR
 } from '../constants';
+import { isGlassType } from '../utils/geometry';
+import { wavelengthToColor } from '../utils/spectrum';
 
 interface MirrorPaletteProps {
   mirrors: PaletteMirrorTemplate[];
-  canPlaceMoreMirrors: boolean;
+  remainingCounts: Record<string, number>; // Per template id; see getRemainingCounts
+  onPlaceAtCenter: (templateId: string) => void; // Keyboard alternative to dragging onto the board
 }
 
 interface PaletteMirrorItemProps {
   template: PaletteMirrorTemplate;
-  isDisabled: boolean;
+  remaining: number;
+  onPlaceAtCenter: (templateId: string) => void;
 }
 
-const PaletteItemVisual: React.FC<{ type: MirrorType, angle?: number }> = ({ type, angle = 0 }) => {
+interface PaletteItemVisualProps {
+  type: MirrorType;
+  angle?: number;
+  outline?: Point[];
+  cutoffWavelength?: number;
+  passWavelength?: number;
+  axisAngle?: number;
+}
+
+const PaletteItemVisual: React.FC<PaletteItemVisualProps> = ({ type, angle = 0, outline, cutoffWavelength, passWavelength, axisAngle }) => {
   const svgWidth = 50;
   const svgHeight = 30;
   const centerX = svgWidth / 2;
@@ -78,6 +97,86 @@ const PaletteItemVisual: React.FC<{ type: MirrorType, angle?: number }> = ({ typ
         />
       );
     }
+  } else if (type === 'dichroic') {
+    const cutoff = cutoffWavelength ?? DICHROIC_DEFAULT_CUTOFF_WAVELENGTH;
+    visualElements.push(
+      <line key="substrate" x1={p1_local.x} y1={p1_local.y} x2={p2_local.x} y2={p2_local.y} stroke={DICHROIC_EDGE_COLOR} strokeWidth="4" strokeLinecap="round" />,
+      <line key="reflects" x1={p1_local.x} y1={p1_local.y - 1} x2={p2_local.x} y2={p2_local.y - 1} stroke={wavelengthToColor((380 + cutoff) / 2)} strokeWidth="1.5" strokeLinecap="round" />,
+      <line key="passes" x1={p1_local.x} y1={p1_local.y + 1} x2={p2_local.x} y2={p2_local.y + 1} stroke={DICHROIC_COLOR} strokeWidth="1.5" strokeLinecap="round" />
+    );
+  } else if (type === 'color-filter') {
+    const thickness = 6;
+    visualElements.push(
+      <rect
+        key="filter"
+        x={-halfLine} y={-thickness/2}
+        width={lineLength} height={thickness}
+        fill={wavelengthToColor(passWavelength ?? COLOR_FILTER_DEFAULT_WAVELENGTH)}
+        fillOpacity={COLOR_FILTER_FILL_OPACITY}
+        stroke={COLOR_FILTER_EDGE_COLOR}
+        strokeWidth="0.75"
+        rx="1"
+      />
+    );
+  } else if (type === 'polarizer' || type === 'half-wave-plate') {
+    const isPolarizer = type === 'polarizer';
+    const thickness = 6;
+    const edgeColor = isPolarizer ? POLARIZER_EDGE_COLOR : WAVE_PLATE_EDGE_COLOR;
+    visualElements.push(
+      <rect
+        key="plate"
+        x={-halfLine} y={-thickness/2}
+        width={lineLength} height={thickness}
+        fill={isPolarizer ? POLARIZER_COLOR : WAVE_PLATE_COLOR}
+        fillOpacity={POLARIZER_FILL_OPACITY}
+        stroke={edgeColor}
+        strokeWidth="0.75"
+        rx="1"
+      />,
+      // Axis symbol, kept upright so the angle reads the same as on the board
+      <g key="axis" transform={`rotate(${-angle + (axisAngle ?? POLARIZER_DEFAULT_AXIS_ANGLE)})`}>
+        <circle r={5} fill="white" stroke={edgeColor} strokeWidth="0.75" />
+        <line x1={0} y1={-4} x2={0} y2={4} stroke={edgeColor} strokeWidth="1.25" strokeDasharray={isPolarizer ? undefined : '2 1.5'} />
+      </g>
+    );
+  } else if (type === 'polarizing-beam-splitter') {
+    const half = lineLength / 2 * 0.6;
+    visualElements.push(
+      <polygon key="cube" points={`${-half},0 0,${-half} ${half},0 0,${half}`} fill={PBS_COLOR} fillOpacity={POLARIZER_FILL_OPACITY} stroke={PBS_EDGE_COLOR} strokeWidth="0.75" />,
+      <line key="surface" x1={-half} y1={0} x2={half} y2={0} stroke={PBS_EDGE_COLOR} strokeWidth="1.25" />
+    );
+  } else if (type === 'concave-mirror' || type === 'convex-mirror') {
+    // The reflecting front faces down before rotation, as on the board
+    const bulge = type === 'concave-mirror' ? -10 : 10;
+    const path = `M ${p1_local.x} 0 Q 0 ${bulge} ${p2_local.x} 0`;
+    visualElements.push(
+      <path key="backing" d={path} transform="translate(0 -1.5)" fill="none" stroke={CURVED_MIRROR_BACK_COLOR} strokeWidth="3" strokeLinecap="round" />,
+      <path key="surface" d={path} fill="none" stroke={CURVED_MIRROR_COLOR} strokeWidth="2.5" strokeLinecap="round" />
+    );
+  } else if (type === 'converging-lens' || type === 'diverging-lens') {
+    const path = type === 'converging-lens'
+      ? `M ${p1_local.x} -1.5 Q 0 -11.5 ${p2_local.x} -1.5 L ${p2_local.x} 1.5 Q 0 11.5 ${p1_local.x} 1.5 Z`
+      : `M ${p1_local.x} -6.5 Q 0 1.5 ${p2_local.x} -6.5 L ${p2_local.x} 6.5 Q 0 -1.5 ${p1_local.x} 6.5 Z`;
+    visualElements.push(
+      <path key="lens" d={path} fill={LENS_COLOR} fillOpacity={LENS_FILL_OPACITY} stroke={LENS_EDGE_COLOR} strokeWidth="0.75" strokeLinejoin="round" />
+    );
+  } else if (isGlassType(type)) {
+    // Glass outlines are in units of the segment length; draw them a little smaller so they fit the tile
+    const scale = lineLength * 0.75;
+    const points = (outline ?? GLASS_OUTLINES[type])
+      .map(v => `${(v.x - 0.5) * scale},${v.y * scale}`)
+      .join(' ');
+    visualElements.push(
+      <polygon
+        key="glass"
+        points={points}
+        fill={GLASS_COLOR}
+        fillOpacity={GLASS_FILL_OPACITY}
+        stroke={GLASS_EDGE_COLOR}
+        strokeWidth="0.75"
+        strokeLinejoin="round"
+      />
+    );
   }
 
   return (
@@ -90,7 +189,8 @@ const PaletteItemVisual: React.FC<{ type: MirrorType, angle?: number }> = ({ typ
 };
 
 
-const PaletteMirrorItem: React.FC<PaletteMirrorItemProps> = ({ template, isDisabled }) => {
+const PaletteMirrorItem: React.FC<PaletteMirrorItemProps> = ({ template, remaining, onPlaceAtCenter }) => {
+  const isDisabled = remaining <= 0;
   const handleDragStart = (event: React.DragEvent<HTMLDivElement>) => {
     if (isDisabled) {
       event.preventDefault();
@@ -100,33 +200,57 @@ const PaletteMirrorItem: React.FC<PaletteMirrorItemProps> = ({ template, isDisab
     event.dataTransfer.effectAllowed = 'move';
   };
 
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+    event.preventDefault();
+    if (!isDisabled) onPlaceAtCenter(template.id);
+  };
+
   return (
     <div
       draggable={!isDisabled}
       onDragStart={handleDragStart}
+      onKeyDown={handleKeyDown}
+      role="button"
+      tabIndex={0}
+      aria-label={isDisabled
+        ? `${template.description}. None left to place.`
+        : `${template.description}. ${remaining} left. Press Enter to place one at the center of the board.`}
       className={`p-3 mb-3 bg-white border border-slate-300 rounded-md shadow hover:shadow-md transition-all duration-150 ease-in-out 
                   ${isDisabled 
                     ? 'opacity-50 cursor-not-allowed' 
-                    : 'cursor-grab active:cursor-grabbing hover:border-slate-400'}`}
+                    : 'cursor-grab active:cursor-grabbing hover:border-slate-400'}
+                  focus:outline-none focus:ring-2 focus:ring-blue-500`}
       aria-disabled={isDisabled}
-      title={isDisabled ? "Maximum number of optical components placed" : template.description}
+      title={isDisabled ? `No ${template.description} left to place` : template.description}
     >
       <div className="flex items-center space-x-3">
-        <PaletteItemVisual type={template.type} angle={template.defaultAngle} />
-        <p className="text-sm text-slate-600">{template.description}</p>
+        <PaletteItemVisual
+          type={template.type}
+          angle={template.defaultAngle}
+          outline={template.outline}
+          cutoffWavelength={template.cutoffWavelength}
+          passWavelength={template.passWavelength}
+          axisAngle={template.axisAngle}
+        />
+        <p className="flex-1 text-sm text-slate-600">{template.description}</p>
+        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${isDisabled ? 'bg-slate-200 text-slate-500' : 'bg-blue-100 text-blue-700'}`} aria-hidden="true">
+          ×{remaining}
+        </span>
       </div>
     </div>
   );
 };
 
-export const MirrorPalette: React.FC<MirrorPaletteProps> = ({ mirrors, canPlaceMoreMirrors }) => {
+export const MirrorPalette: React.FC<MirrorPaletteProps> = ({ mirrors, remainingCounts, onPlaceAtCenter }) => {
   return (
     <div className="space-y-2">
       {mirrors.map(template => (
         <PaletteMirrorItem 
           key={template.id} 
           template={template} 
-          isDisabled={!canPlaceMoreMirrors} 
+          remaining={remainingCounts[template.id] ?? 0}
+          onPlaceAtCenter={onPlaceAtCenter}
         />
       ))}
     </div>
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ModalDialogProps {
+  titleId: string;
+  title: string;
+  closeLabel: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+// Centered dialog over a dimmed page. Escape, the close button and clicks outside it all close it.
+export const ModalDialog: React.FC<ModalDialogProps> = ({ titleId, title, closeLabel, onClose, children }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto m-4 p-6 bg-white rounded-lg shadow-2xl focus:outline-none"
+        onClick={event => event.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id={titleId} className="text-2xl font-semibold text-slate-800">{title}</h2>
+          <button onClick={onClose} className="px-2 py-1 text-slate-500 hover:text-slate-800 rounded focus:outline-none focus:ring-2 focus:ring-slate-400" aria-label={closeLabel}>
+            ✕
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+
+interface SeedInputProps {
+  seed: string;
+  onSubmitSeed: (seed: string) => void;
+}
+
+export const SeedInput: React.FC<SeedInputProps> = ({ seed, onSubmitSeed }) => {
+  const [draftSeed, setDraftSeed] = useState<string>(seed);
+
+  // Keep the field in sync when the level changes from elsewhere (e.g. the refresh button)
+  useEffect(() => {
+    setDraftSeed(seed);
+  }, [seed]);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmedSeed = draftSeed.trim();
+    if (trimmedSeed) {
+      onSubmitSeed(trimmedSeed);
+    } else {
+      setDraftSeed(seed);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center space-x-2" aria-label="Level seed">
+      <label htmlFor="level-seed-input" className="text-sm text-slate-300">Seed</label>
+      <input
+        id="level-seed-input"
+        type="text"
+        value={draftSeed}
+        onChange={(e) => setDraftSeed(e.target.value)}
+        className="w-32 px-2 py-1 rounded bg-slate-700 border border-slate-500 text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-green-400"
+        title="Enter a number or any text to load the matching level"
+        spellCheck={false}
+      />
+      <button
+        type="submit"
+        className="px-3 py-1 bg-slate-600 hover:bg-slate-500 text-white text-sm rounded shadow focus:outline-none focus:ring-2 focus:ring-green-400 transition-colors"
+        title="Load level from seed"
+      >
+        Load
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+
+interface ShareLinkControlsProps {
+  getShareUrl: (includePlacedMirrors: boolean) => string;
+  hasPlacedMirrors: boolean;
+}
+
+export const ShareLinkControls: React.FC<ShareLinkControlsProps> = ({ getShareUrl, hasPlacedMirrors }) => {
+  const [copiedMessage, setCopiedMessage] = useState<string | null>(null);
+  const [manualCopyUrl, setManualCopyUrl] = useState<string | null>(null);
+
+  const handleCopy = async (includePlacedMirrors: boolean) => {
+    const url = getShareUrl(includePlacedMirrors);
+    try {
+      if (!navigator.clipboard) throw new Error('Clipboard unavailable');
+      await navigator.clipboard.writeText(url);
+      setManualCopyUrl(null);
+      setCopiedMessage(includePlacedMirrors ? 'Link with your components copied!' : 'Board link copied!');
+      setTimeout(() => setCopiedMessage(null), 2000);
+    } catch {
+      // Clipboard access can be blocked (insecure context, permissions); let the player copy by hand
+      setCopiedMessage(null);
+      setManualCopyUrl(url);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-slate-300">
+      <h3 className="text-sm font-semibold mb-2 text-slate-700">Share</h3>
+      <div className="flex flex-col space-y-2">
+        <button
+          onClick={() => handleCopy(false)}
+          className="px-3 py-1.5 bg-slate-600 hover:bg-slate-700 text-white text-sm rounded shadow focus:outline-none focus:ring-2 focus:ring-slate-400 transition-colors"
+          title="Copy a link that opens this board"
+        >
+          Copy board link
+        </button>
+        <button
+          onClick={() => handleCopy(true)}
+          disabled={!hasPlacedMirrors}
+          className={`px-3 py-1.5 text-sm border border-slate-300 rounded shadow focus:outline-none focus:ring-2 focus:ring-slate-400 transition-colors
+                      ${hasPlacedMirrors ? 'bg-white hover:bg-slate-50 text-slate-700' : 'bg-slate-100 text-slate-400 cursor-not-allowed'}`}
+          title="Copy a link that opens this board with your components in place"
+        >
+          Copy link with my components
+        </button>
+      </div>
+      {copiedMessage && <p className="mt-2 text-xs text-green-700" role="status">{copiedMessage}</p>}
+      {manualCopyUrl && (
+        <div className="mt-2">
+          <p className="text-xs text-slate-600 mb-1">Copying failed. Select the link and copy it manually:</p>
+          <input
+            type="text"
+            readOnly
+            value={manualCopyUrl}
+            onFocus={(e) => e.target.select()}
+            autoFocus
+            className="w-full px-2 py-1 text-xs font-mono border border-slate-300 rounded bg-white"
+            aria-label="Share link"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import type { SnapSettings } from '../types';
+import { SNAP_GRID_SIZES, SNAP_ANGLE_STEPS } from '../constants';
+
+interface SnapControlsProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+}
+
+export const SnapControls: React.FC<SnapControlsProps> = ({ settings, onChange }) => {
+  return (
+    <div className="mt-6 pt-4 border-t border-slate-300 space-y-2">
+      <h3 className="text-sm font-semibold text-slate-700">Snapping</h3>
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.gridEnabled}
+            onChange={(e) => onChange({ ...settings, gridEnabled: e.target.checked })}
+          />
+          <span>Grid</span>
+        </label>
+        <select
+          value={settings.gridSize}
+          onChange={(e) => onChange({ ...settings, gridSize: Number(e.target.value) })}
+          disabled={!settings.gridEnabled}
+          className="w-20 px-2 py-1 border border-slate-300 rounded bg-white disabled:text-slate-400"
+          aria-label="Grid size"
+        >
+          {SNAP_GRID_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+        </select>
+      </div>
+      <label className="flex items-center justify-between text-sm text-slate-600">
+        <span>Angle steps</span>
+        <select
+          value={settings.angleStep ?? ''}
+          onChange={(e) => onChange({ ...settings, angleStep: e.target.value === '' ? null : Number(e.target.value) })}
+          className="w-20 px-2 py-1 border border-slate-300 rounded bg-white"
+        >
+          <option value="">Off</option>
+          {SNAP_ANGLE_STEPS.map(step => <option key={step} value={step}>{step}°</option>)}
+        </select>
+      </label>
+      <label className="flex items-center space-x-2 text-sm text-slate-600">
+        <input
+          type="checkbox"
+          checked={settings.alignEnabled}
+          onChange={(e) => onChange({ ...settings, alignEnabled: e.target.checked })}
+        />
+        <span>Align with other items</span>
+      </label>
+      <p className="text-xs text-slate-500">Hold Alt while dragging to place freely.</p>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface StarRatingProps {
+  stars: number;
+  className?: string;
+}
+
+const MAX_STARS = 3;
+
+export const StarRating: React.FC<StarRatingProps> = ({ stars, className = '' }) => {
+  return (
+    <span className={`tracking-wider ${className}`} role="img" aria-label={`${stars} of ${MAX_STARS} stars`}>
+      {Array.from({ length: MAX_STARS }, (_, i) => (
+        <span key={i} className={i < stars ? 'text-amber-400' : 'text-slate-300'} aria-hidden="true">★</span>
+      ))}
+    </span>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface UndoRedoButtonsProps {
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const UndoRedoButtons: React.FC<UndoRedoButtonsProps> = ({ onUndo, onRedo, canUndo, canRedo }) => {
+  const buttonClass = (isEnabled: boolean) =>
+    `p-2 text-white rounded-full shadow-md focus:outline-none focus:ring-2 focus:ring-slate-300 focus:ring-opacity-75 transition-colors
+     ${isEnabled ? 'bg-slate-500 hover:bg-slate-600' : 'bg-slate-500 cursor-not-allowed opacity-40'}`;
+
+  return (
+    <div className="flex items-center space-x-1">
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClass(canUndo)} title="Undo (Ctrl+Z)" aria-label="Undo">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClass(canRedo)} title="Redo (Ctrl+Y)" aria-label="Redo">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+        </svg>
+      </button>
+    </div>
+  );
+};
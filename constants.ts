@@ -1,11 +1,18 @@
 
-import type { Point, Obstacle, PaletteMirrorTemplate } from './types';
+import type { Point, Obstacle, ObstacleMaterial, PaletteMirrorTemplate, GlassType, SnapSettings, StarThresholds } from './types';
 
 export const GAME_WIDTH = 800;
 export const GAME_HEIGHT = 600;
 export const PALETTE_WIDTH = 200;
 
-export const LASER_COLOR = "red";
+// Laser colors. Beams are drawn in the color of their wavelength (see utils/spectrum.ts).
+export const DEFAULT_LASER_WAVELENGTH = 650; // nm, red
+export const LASER_WAVELENGTHS: { wavelength: number; name: string }[] = [
+  { wavelength: 650, name: 'Red' },
+  { wavelength: 532, name: 'Green' },
+  { wavelength: 450, name: 'Blue' },
+];
+export const WAVELENGTH_MATCH_TOLERANCE_NM = 10; // How close light must be to a detector's required color
 
 // Standard Mirror
 export const MIRROR_COLOR = "rgb(51 65 85)"; // slate-700 (Front reflective surface)
@@ -23,10 +30,86 @@ export const DIFFRACTION_GRATING_FILL_OPACITY = 0.5;
 export const DIFFRACTION_GRATING_EDGE_COLOR = "rgb(120 40 160)"; // Darker purple for edge
 export const DIFFRACTION_GRATING_LINE_COLOR = "rgba(255, 255, 255, 0.6)"; // Light lines on grating
 
+// Dichroic mirror
+export const DICHROIC_COLOR = "rgb(250 204 21)"; // yellow-400
+export const DICHROIC_EDGE_COLOR = "rgb(161 98 7)"; // yellow-700
+export const DICHROIC_DEFAULT_CUTOFF_WAVELENGTH = 590; // nm; reflects green and blue, passes red
+
+// Color filter
+export const COLOR_FILTER_FILL_OPACITY = 0.55;
+export const COLOR_FILTER_EDGE_COLOR = "rgb(71 85 105)"; // slate-600
+export const COLOR_FILTER_DEFAULT_WAVELENGTH = 650; // nm
+export const COLOR_FILTER_HALF_BANDWIDTH_NM = 40; // Passes light within this distance of its wavelength
+
+// Polarization optics
+export const POLARIZER_COLOR = "rgb(100 116 139)"; // slate-500
+export const POLARIZER_FILL_OPACITY = 0.35;
+export const POLARIZER_EDGE_COLOR = "rgb(51 65 85)"; // slate-700
+export const WAVE_PLATE_COLOR = "rgb(244 114 182)"; // pink-400
+export const WAVE_PLATE_EDGE_COLOR = "rgb(190 24 93)"; // pink-700
+export const PBS_COLOR = "rgb(129 140 248)"; // indigo-400
+export const PBS_EDGE_COLOR = "rgb(67 56 202)"; // indigo-700
+export const POLARIZER_DEFAULT_AXIS_ANGLE = 0;
+export const POLARIZATION_MARK_COLOR = "rgba(255, 255, 255, 0.9)";
+export const POLARIZATION_MARK_SPACING = 36; // Pixels between polarization marks drawn on a beam
+export const POLARIZATION_MARK_SIZE = 5;
+
+// Refractive glass (slabs, prisms, polygons)
+export const GLASS_COLOR = "rgb(165 243 252)"; // cyan-200
+export const GLASS_FILL_OPACITY = 0.45;
+export const GLASS_EDGE_COLOR = "rgb(8 145 178)"; // cyan-600
+export const GLASS_HIGHLIGHT_COLOR = "rgba(255, 255, 255, 0.8)";
+
+// Curved mirrors and thin lenses
+export const CURVED_MIRROR_COLOR = "rgb(148 163 184)"; // slate-400
+export const CURVED_MIRROR_BACK_COLOR = "rgb(71 85 105)"; // slate-600
+export const LENS_COLOR = "rgb(186 230 253)"; // sky-200
+export const LENS_FILL_OPACITY = 0.55;
+export const LENS_EDGE_COLOR = "rgb(2 132 199)"; // sky-600
+export const CURVATURE_HANDLE_COLOR = "rgb(250 204 21)"; // yellow-400
+
 export const MIRROR_HANDLE_COLOR = "rgb(203 213 225)"; // slate-300
+export const FOCUS_RING_COLOR = "rgb(37 99 235)"; // blue-600, around the component that has keyboard focus
+
+// Markers on a level's locked components
+export const LOCKED_COMPONENT_COLOR = "rgb(71 85 105)"; // slate-600, fully locked
+export const NO_ROTATE_COMPONENT_COLOR = "rgb(13 148 136)"; // teal-600, moves but keeps its angle
+export const ROTATE_ONLY_COMPONENT_COLOR = "rgb(147 51 234)"; // purple-600, turns about its pivot
+
+export const HINT_COLOR = "rgb(245 158 11)"; // amber-500
+export const HINT_GHOST_OPACITY = 0.45;
+
+// Length limits of placed components, unless their palette template sets its own
+export const COMPONENT_MIN_LENGTH = 30;
+export const COMPONENT_MAX_LENGTH = 200;
+
+// Snapping of mirror drags (hold Alt to drag freely)
+export const SNAP_GRID_SIZES = [10, 20, 25, 50];
+export const SNAP_ANGLE_STEPS = [5, 15, 22.5, 45];
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { gridEnabled: false, gridSize: 20, angleStep: null, alignEnabled: false };
+export const ALIGNMENT_SNAP_DISTANCE = 8; // Pixels within which a center or endpoint lines up with another item
+export const SNAP_GUIDE_COLOR = "rgb(217 70 239)"; // fuchsia-500
+export const SNAP_GRID_COLOR = "rgb(226 232 240)"; // slate-200
+
+// Undo / redo
+export const MAX_HISTORY_ENTRIES = 100; // Undo steps kept per level
+
+// Keyboard control of placed components
+export const KEYBOARD_NUDGE_STEP = 2; // Pixels moved per arrow key press
+export const KEYBOARD_NUDGE_STEP_LARGE = 20; // With Shift held
+export const KEYBOARD_ROTATE_STEP_FINE = 1; // Degrees turned per Q / E press
+export const KEYBOARD_ROTATE_STEP_COARSE = 15; // With Shift held
+
+export const EDITOR_SELECTION_COLOR = "rgb(37 99 235)"; // blue-600
+export const EDITOR_HANDLE_COLOR = "rgb(219 234 254)"; // blue-100
+export const EDITOR_MIN_ITEM_SIZE = 10; // Smallest rectangle side / circle diameter the editor allows
+export const EDITOR_ROTATION_HANDLE_OFFSET = 20; // Distance of a rectangle's rotation knob above its top edge
+export const EDITOR_SOURCE_AIM_HANDLE_DISTANCE = 40; // Distance of a source's aim handle from its center
 
 export const FRAME_COLOR = "rgb(0 0 0)"; // black
 export const FRAME_THICKNESS = 2;
+export const ABSORBING_FRAME_COLOR = "rgb(68 64 60)"; // stone-700
+export const ABSORBING_FRAME_THICKNESS = 6;
 
 
 export const DETECTOR_BASE_COLOR = "rgb(71 85 105)"; // slate-600
@@ -34,9 +117,7 @@ export const DETECTOR_APERTURE_COLOR = "rgb(30 41 59)"; // slate-800
 export const DETECTOR_ARROW_COLOR = "rgb(226 232 240)"; // slate-200
 export const DETECTOR_HIT_COLOR = "rgb(34 197 94)"; // green-500
 
-export const SOURCE_COLOR = "rgb(239 68 68)"; // red-500
 export const SOURCE_EMITTER_BODY_COLOR = "rgb(51 65 85)"; // slate-700
-export const SOURCE_EMITTER_APERTURE_COLOR = SOURCE_COLOR;
 // Note: SOURCE_EMITTER_WIDTH is effectively the length along the emission axis after rotation.
 // SOURCE_EMITTER_HEIGHT is the dimension perpendicular to emission.
 export const SOURCE_EMITTER_WIDTH = 20; // Length of the emitter body
@@ -47,10 +128,14 @@ export const SOURCE_EMITTER_APERTURE_RADIUS = 3;
 export const OBSTACLE_COLOR = "rgb(100 116 139)"; // slate-500
 export const OBSTACLE_RECT_FILL_COLOR = "rgb(100 116 139 / 0.8)"; // slate-500 with opacity
 export const OBSTACLE_CIRCLE_FILL_COLOR = "rgb(100 116 139 / 0.8)"; // slate-500 with opacity
+export const OBSTACLE_MIRRORED_COLOR = "rgb(148 163 184)"; // slate-400
+export const OBSTACLE_MIRRORED_FILL_COLOR = "rgb(226 232 240 / 0.9)"; // slate-200 with opacity
+export const OBSTACLE_DIFFUSE_COLOR = "rgb(168 162 158)"; // stone-400
+export const OBSTACLE_DIFFUSE_FILL_COLOR = "rgb(245 245 244 / 0.9)"; // stone-100 with opacity
 
 
 export const MAX_REFLECTIONS = 10; // Max interactions for any single path branch
-export const MAX_PLACED_MIRRORS = 5;
+export const MAX_PLACED_MIRRORS = 5; // Component cap on generated levels; other levels set their own inventory
 export const MAX_DETECTECTORS = 5; 
 export const MAX_LASER_SOURCES = 3;
 
@@ -61,14 +146,82 @@ export const DETECTOR_ARROW_LENGTH = 12; // Length of the arrow shaft + arrowhea
 export const DETECTOR_ARROWHEAD_SIZE = 6; // Width and height of the arrowhead triangle base
 export const DETECTOR_ACCEPTANCE_ANGLE_DEGREES = 10;
 
-// Constant for diffraction grating physics (lambda / d)
-// A value of 0.35 means that for normal incidence (theta_i = 0),
-// the first order (m=1) diffracts at asin(-0.35) approx -20.48 degrees.
-// and (m=-1) diffracts at asin(0.35) approx 20.48 degrees.
-export const GRATING_K_CONSTANT = 0.35;
+// Line spacing d of every diffraction grating, in nm. Each beam diffracts with lambda / d:
+// red light (650 nm) gives 0.35, so at normal incidence (theta_i = 0)
+// the first order (m=1) diffracts at asin(-0.35) approx -20.48 degrees
+// and (m=-1) at asin(0.35) approx 20.48 degrees; blue light spreads less, at about 14 degrees.
+export const GRATING_PERIOD_NM = 1857;
 
+// Beam power. Sources emit power 1; every interaction passes on a share of it.
+export const MIRROR_REFLECTIVITY = 0.95;
+export const BOUNDARY_REFLECTIVITY = 0.9;
+export const BEAM_SPLITTER_DEFAULT_REFLECT_RATIO = 0.5;
+export const GRATING_ZERO_ORDER_WEIGHT = 0.4; // Relative to each first order; renormalized over the orders that propagate
+export const GRATING_FIRST_ORDER_WEIGHT = 0.3;
+export const MIN_TRACED_POWER = 0.01; // Weaker beams are neither traced nor drawn
+export const DETECTOR_DEFAULT_MIN_POWER = 0.05;
+export const LASER_MIN_OPACITY = 0.25; // Opacity and width of a beam at (near) zero power; full power is fully opaque
+export const LASER_MIN_STROKE_WIDTH = 1;
+export const LASER_MAX_STROKE_WIDTH = 2.5;
+export const DETECTOR_POWER_LABEL_COLOR = "rgb(71 85 105)"; // slate-600
 
-export const OBSTACLE_COLLISION_BUFFER = 15; // Pixels of space between bounding boxes of obstacles/sources/detectors
+// Refraction
+export const GLASS_DEFAULT_REFRACTIVE_INDEX = 1.5;
+export const GLASS_FRESNEL_REFLECTIONS = false; // Also trace the partially reflected beam at glass faces
+export const GLASS_FRESNEL_MIN_REFLECTANCE = 0.1; // Fresnel branches weaker than this are not traced
+
+// Obstacle materials
+export const OBSTACLE_DIFFUSE_REFLECTANCE = 0.6; // Share of the power a diffuse surface scatters back, over all its rays
+export const OBSTACLE_DIFFUSE_RAY_COUNT = 5; // Rays a diffuse surface scatters into, fanned out over 150 degrees
+
+// Curved mirrors and thin lenses
+export const DEFAULT_FOCAL_LENGTH = 150; // px
+export const MAX_FOCAL_LENGTH = 1000; // Flatter than this is treated as the limit when dragging the curvature handle
+export const LENS_EDGE_THICKNESS = 3; // px; drawn thickness of a lens at its rim (converging) or center (diverging)
+
+// Default glass outlines in mirror segment coordinates (see PlacedMirror.outline). Every outline must be convex.
+export const GLASS_OUTLINES: Record<GlassType, Point[]> = {
+  'glass-slab': [{ x: 0, y: -0.2 }, { x: 1, y: -0.2 }, { x: 1, y: 0.2 }, { x: 0, y: 0.2 }],
+  'prism': [{ x: 0, y: 0.2887 }, { x: 1, y: 0.2887 }, { x: 0.5, y: -0.5774 }], // Equilateral, centroid on the segment
+  'glass-polygon': [
+    { x: 0, y: 0 }, { x: 0.25, y: -0.433 }, { x: 0.75, y: -0.433 },
+    { x: 1, y: 0 }, { x: 0.75, y: 0.433 }, { x: 0.25, y: 0.433 }
+  ],
+};
+
+
+// Spatial index over obstacles and detectors (see utils/spatialIndex.ts)
+export const SPATIAL_INDEX_CELL_SIZE = 50; // Grid cell side in px; about the size of a typical obstacle
+
+// Solver / solvable level generation
+export const SOLVER_MAX_EVALUATIONS = 600; // Full-board traces the solver may run before giving up on a board
+export const MAX_LEVEL_GENERATION_ATTEMPTS = 12; // Boards generated per seed before falling back to an obstacle-free board
+export const DETECTOR_APPROACH_CLEARANCE = 160; // Length of the corridor in front of a detector that board repair keeps free
+export const GENERATED_OBSTACLE_MATERIAL_WEIGHTS: [ObstacleMaterial, number][] = [['absorbing', 6], ['mirrored', 2], ['diffuse', 1], ['glass', 1]];
+export const ABSORBING_BOUNDARIES_CHANCE = 0.25; // Share of generated levels whose board edges absorb light
+
+// Campaign (see levels/campaign.ts)
+export const CAMPAIGN_PROGRESS_STORAGE_KEY = 'optika-campaign-progress';
+
+// Scoring (see utils/scoring.ts). A solve is worth the base score plus a bonus from each measure,
+// each bonus shrinking towards zero as the measure grows.
+export const SCORE_SOLVE_BASE = 1000;
+export const SCORE_PER_UNUSED_COMPONENT = 150;
+export const SCORE_BEAM_LENGTH_BONUS = 400;
+export const SCORE_BEAM_LENGTH_PX_PER_POINT = 10;
+export const SCORE_INTERACTION_BONUS = 300;
+export const SCORE_PER_INTERACTION = 25;
+export const SCORE_TIME_BONUS = 600;
+export const SCORE_TIME_MS_PER_POINT = 100; // The time bonus is gone after a minute
+export const DEFAULT_STAR_THRESHOLDS: StarThresholds = { twoStars: 1300, threeStars: 1700 };
+export const PERSONAL_BESTS_STORAGE_KEY = 'optika-personal-bests';
+
+// Daily challenge (see utils/daily.ts)
+export const DAILY_SEED_PREFIX = 'daily-'; // Followed by the date, e.g. daily-2024-05-31
+export const DAILY_HISTORY_STORAGE_KEY = 'optika-daily-history';
+
+
+export const OBSTACLE_COLLISION_BUFFER = 15; // Pixels of space kept around obstacles, sources and detectors, on each side
 export const GAME_BOUNDARY_PADDING = 10; // Min distance from game edge for any part of an obstacle/source/detector
 
 // Obstacle dimension ranges
@@ -81,6 +234,13 @@ export const MAX_OBSTACLE_DIMENSION_VARIANCE = 55; // Max additional size over m
 export const MIN_OBSTACLE_RADIUS = 15;
 export const MAX_OBSTACLE_RADIUS_VARIANCE = 25; // Max additional radius over min
 
+export const ROTATED_RECTANGLE_CHANCE = 0.5; // Share of generated rectangles turned by a random angle
+export const MIN_OBSTACLE_POLYGON_RADIUS = 25; // Distance from a generated polygon's center to its farthest corner
+export const MAX_OBSTACLE_POLYGON_RADIUS_VARIANCE = 30;
+export const MIN_POLYGON_VERTICES = 3;
+export const MAX_POLYGON_VERTICES = 7;
+export const POLYGON_MIN_RADIUS_FRACTION = 0.45; // Corners pulled in this far make generated polygons concave
+
 
 // Initial obstacles are now more for example, resetLevel generates dynamic ones.
 export const INITIAL_OBSTACLES_EXAMPLE: Obstacle[] = [
@@ -92,5 +252,23 @@ export const INITIAL_OBSTACLES_EXAMPLE: Obstacle[] = [
 export const INITIAL_PALETTE_MIRRORS: PaletteMirrorTemplate[] = [
   { id: 'pm1', type: 'default', defaultLength: 80, defaultAngle: 0, description: 'Standard Mirror (80px)' },
   { id: 'pm-bs', type: 'beam-splitter', defaultLength: 80, defaultAngle: 45, description: 'Beam Splitter (80px)' },
+  { id: 'pm-bs-70', type: 'beam-splitter', defaultLength: 80, defaultAngle: 45, splitRatio: 0.7, description: 'Beam Splitter 70:30 (80px)' },
   { id: 'pm-dg', type: 'diffraction-grating', defaultLength: 80, defaultAngle: 0, description: 'Diffraction Grating (80px)' },
+  { id: 'pm-dichroic', type: 'dichroic', defaultLength: 80, defaultAngle: 45, cutoffWavelength: 590, description: 'Dichroic Mirror (reflects green & blue)' },
+  { id: 'pm-filter-red', type: 'color-filter', defaultLength: 60, defaultAngle: 90, passWavelength: 650, description: 'Red Filter' },
+  { id: 'pm-filter-green', type: 'color-filter', defaultLength: 60, defaultAngle: 90, passWavelength: 532, description: 'Green Filter' },
+  { id: 'pm-filter-blue', type: 'color-filter', defaultLength: 60, defaultAngle: 90, passWavelength: 450, description: 'Blue Filter' },
+  { id: 'pm-pol-0', type: 'polarizer', defaultLength: 60, defaultAngle: 90, axisAngle: 0, description: 'Polarizer (0°)' },
+  { id: 'pm-pol-45', type: 'polarizer', defaultLength: 60, defaultAngle: 90, axisAngle: 45, description: 'Polarizer (45°)' },
+  { id: 'pm-pol-90', type: 'polarizer', defaultLength: 60, defaultAngle: 90, axisAngle: 90, description: 'Polarizer (90°)' },
+  { id: 'pm-hwp-22', type: 'half-wave-plate', defaultLength: 60, defaultAngle: 90, axisAngle: 22.5, description: 'Half-Wave Plate (axis 22.5°)' },
+  { id: 'pm-hwp-45', type: 'half-wave-plate', defaultLength: 60, defaultAngle: 90, axisAngle: 45, description: 'Half-Wave Plate (axis 45°)' },
+  { id: 'pm-pbs', type: 'polarizing-beam-splitter', defaultLength: 60, defaultAngle: 45, description: 'Polarizing Beam Splitter' },
+  { id: 'pm-slab', type: 'glass-slab', defaultLength: 100, defaultAngle: 0, refractiveIndex: 1.5, minLength: 50, maxLength: 160, description: 'Glass Slab (n = 1.5)' },
+  { id: 'pm-prism', type: 'prism', defaultLength: 80, defaultAngle: 0, refractiveIndex: 1.5, minLength: 50, maxLength: 140, description: 'Prism (n = 1.5)' },
+  { id: 'pm-hex', type: 'glass-polygon', defaultLength: 70, defaultAngle: 0, refractiveIndex: 1.7, minLength: 40, maxLength: 120, description: 'Hexagonal Glass (n = 1.7)' },
+  { id: 'pm-concave', type: 'concave-mirror', defaultLength: 80, defaultAngle: 90, focalLength: 150, minLength: 40, maxLength: 160, description: 'Concave Mirror (f = 150)' },
+  { id: 'pm-convex', type: 'convex-mirror', defaultLength: 80, defaultAngle: 90, focalLength: 150, minLength: 40, maxLength: 160, description: 'Convex Mirror (f = 150)' },
+  { id: 'pm-lens-converging', type: 'converging-lens', defaultLength: 80, defaultAngle: 90, focalLength: 150, minLength: 40, maxLength: 160, description: 'Converging Lens (f = 150)' },
+  { id: 'pm-lens-diverging', type: 'diverging-lens', defaultLength: 80, defaultAngle: 90, focalLength: 150, minLength: 40, maxLength: 160, description: 'Diverging Lens (f = 150)' },
 ];
@@ -0,0 +1,55 @@
+import type { CampaignPack } from '../types';
+import { levelFromJson } from '../utils/levelFormat';
+import firstBounce from './mirrors/01-first-bounce.json';
+import aroundTheWall from './mirrors/02-around-the-wall.json';
+import overTheTop from './mirrors/03-over-the-top.json';
+import splitDecision from './beam-splitters/01-split-decision.json';
+import threeWays from './beam-splitters/02-three-ways.json';
+import stacked from './beam-splitters/03-stacked.json';
+import bentByLines from './diffraction-gratings/01-bent-by-lines.json';
+import fanOut from './diffraction-gratings/02-fan-out.json';
+import steepOrder from './diffraction-gratings/03-steep-order.json';
+import pivotPoint from './fixed-pieces/01-pivot-point.json';
+
+// The campaign, in play order. Level files use the same format as exported levels and are
+// validated when the app loads, so a broken file fails loudly instead of showing an empty board.
+export const CAMPAIGN_PACKS: CampaignPack[] = [
+  {
+    id: 'mirrors',
+    title: 'Mirrors',
+    description: 'Steer a single beam with plain mirrors.',
+    levels: [
+      { id: 'mirrors-1', level: levelFromJson(firstBounce) },
+      { id: 'mirrors-2', level: levelFromJson(aroundTheWall) },
+      { id: 'mirrors-3', level: levelFromJson(overTheTop) },
+    ],
+  },
+  {
+    id: 'beam-splitters',
+    title: 'Beam Splitters',
+    description: 'Reflect part of a beam and let the rest through.',
+    levels: [
+      { id: 'beam-splitters-1', level: levelFromJson(splitDecision) },
+      { id: 'beam-splitters-2', level: levelFromJson(threeWays) },
+      { id: 'beam-splitters-3', level: levelFromJson(stacked) },
+    ],
+  },
+  {
+    id: 'diffraction-gratings',
+    title: 'Diffraction Gratings',
+    description: 'Fan a beam out into orders that leave at fixed angles.',
+    levels: [
+      { id: 'diffraction-gratings-1', level: levelFromJson(bentByLines) },
+      { id: 'diffraction-gratings-2', level: levelFromJson(fanOut) },
+      { id: 'diffraction-gratings-3', level: levelFromJson(steepOrder) },
+    ],
+  },
+  {
+    id: 'fixed-pieces',
+    title: 'Fixed Pieces',
+    description: 'Work with components the level put there: some locked, some only slide, some only turn.',
+    levels: [
+      { id: 'fixed-pieces-1', level: levelFromJson(pivotPoint) },
+    ],
+  },
+];
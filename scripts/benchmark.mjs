@@ -0,0 +1,11 @@
+// Runs a TypeScript benchmark from benchmarks/ through Vite's module loader, so no extra tooling is needed.
+//   node scripts/benchmark.mjs            runs benchmarks/spatialIndex.ts
+import { createServer } from 'vite';
+
+const server = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error', optimizeDeps: { noDiscovery: true, entries: [] } });
+try {
+  const { runSpatialIndexBenchmark } = await server.ssrLoadModule('/benchmarks/spatialIndex.ts');
+  runSpatialIndexBenchmark();
+} finally {
+  await server.close();
+}
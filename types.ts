@@ -3,7 +3,15 @@ export interface Point {
   y: number;
 }
 
-export type MirrorType = 'default' | 'beam-splitter' | 'diffraction-grating';
+export type GlassType = 'glass-slab' | 'prism' | 'glass-polygon';
+
+export type CurvedMirrorType = 'concave-mirror' | 'convex-mirror';
+
+export type LensType = 'converging-lens' | 'diverging-lens';
+
+export type MirrorType =
+  | 'default' | 'beam-splitter' | 'diffraction-grating' | 'dichroic' | 'color-filter'
+  | 'polarizer' | 'half-wave-plate' | 'polarizing-beam-splitter' | GlassType | CurvedMirrorType | LensType;
 
 export interface PaletteMirrorTemplate {
   id: string;
@@ -11,22 +19,62 @@ export interface PaletteMirrorTemplate {
   defaultLength: number;
   defaultAngle?: number; // degrees, 0 is horizontal right
   description: string;
+  refractiveIndex?: number; // Glass only; defaults to GLASS_DEFAULT_REFRACTIVE_INDEX
+  outline?: Point[]; // Glass only; see PlacedMirror.outline
+  cutoffWavelength?: number; // Dichroic only
+  passWavelength?: number; // Color filter only
+  splitRatio?: number; // Beam splitter only
+  axisAngle?: number; // Polarizer and half-wave plate only
+  focalLength?: number; // Curved mirrors and lenses only
+  minLength?: number; // Shortest the component may be resized to; defaults to COMPONENT_MIN_LENGTH
+  maxLength?: number; // Longest the component may be resized to; defaults to COMPONENT_MAX_LENGTH
+}
+
+// How many of one palette template a level hands out, and how long they are
+export interface InventoryItem {
+  templateId: string;
+  count: number;
+  length?: number; // The template's defaultLength when absent
 }
 
+// How a level's pre-placed component may be handled: not at all, moved without turning it, or turned
+// about its center without moving it. Components without a lock are the player's to change or remove.
+export type ComponentLock = 'locked' | 'no-rotate' | 'rotate-only';
+
 export interface PlacedMirror {
   id: string;
   p1: Point;
   p2: Point;
   type: MirrorType;
+  // Glass bodies are anchored to the p1-p2 segment so they move, rotate and scale like any other component.
+  // The outline is a convex polygon in segment coordinates: x runs from p1 (0) to p2 (1),
+  // y is perpendicular to the segment in units of its length. Defaults to GLASS_OUTLINES[type].
+  refractiveIndex?: number;
+  outline?: Point[];
+  cutoffWavelength?: number; // Dichroic mirrors reflect shorter wavelengths (nm) and pass longer ones
+  passWavelength?: number; // Color filters pass light near this wavelength (nm) and absorb the rest
+  splitRatio?: number; // Share of the power a beam splitter reflects (0-1); the rest is transmitted
+  axisAngle?: number; // Transmission axis of a polarizer / fast axis of a half-wave plate, in degrees (see utils/polarization.ts)
+  // Curved mirrors are circular arcs through p1 and p2 that reflect on their front (the side left of p1->p2
+  // in board coordinates, i.e. along (-dy, dx)) and absorb on the back. Lenses are ideal thin lenses along p1-p2.
+  // Always positive (px); the type decides whether it focuses or spreads. Defaults to DEFAULT_FOCAL_LENGTH.
+  focalLength?: number;
+  templateId?: string; // The palette template it was placed from, which sets its length limits
+  lock?: ComponentLock; // Locked components belong to the level and never count against its inventory
 }
 
-export type ObstacleShape = 'line' | 'rectangle' | 'circle';
+export type ObstacleShape = 'line' | 'rectangle' | 'circle' | 'polygon';
+
+// What happens to light that hits an obstacle: stopped, reflected off the surface,
+// scattered into several weaker rays, or refracted through it (thin line obstacles just let it pass).
+export type ObstacleMaterial = 'absorbing' | 'mirrored' | 'diffuse' | 'glass';
 
 export interface LineObstacle {
   id: string;
   shape: 'line';
   p1: Point;
   p2: Point;
+  material?: ObstacleMaterial; // Absorbing when absent
 }
 
 export interface RectangleObstacle {
@@ -36,6 +84,8 @@ export interface RectangleObstacle {
   y: number;
   width: number;
   height: number;
+  rotation?: number; // Degrees clockwise on screen, about the rectangle's center; x, y, width and height describe it unrotated
+  material?: ObstacleMaterial;
 }
 
 export interface CircleObstacle {
@@ -44,9 +94,17 @@ export interface CircleObstacle {
   cx: number;
   cy: number;
   radius: number;
+  material?: ObstacleMaterial;
 }
 
-export type Obstacle = LineObstacle | RectangleObstacle | CircleObstacle;
+export interface PolygonObstacle {
+  id: string;
+  shape: 'polygon';
+  points: Point[]; // Corners of a simple polygon, convex or concave, in either winding order
+  material?: ObstacleMaterial;
+}
+
+export type Obstacle = LineObstacle | RectangleObstacle | CircleObstacle | PolygonObstacle;
 
 
 export interface DetectorType {
@@ -56,11 +114,17 @@ export interface DetectorType {
   width: number;
   height: number;
   angle: number; // Angle in degrees (0 right, 90 down, 180 left, 270 up) indicating required entry direction of light
+  requiredWavelengths?: number[]; // Every one of these colors (nm) must arrive; any light will do when absent
+  minPower?: number; // Power needed to light the detector, per required color; DETECTOR_DEFAULT_MIN_POWER when absent
+  requiredPolarization?: number; // Degrees; when set, only polarized light counts, weighted by Malus's law
 }
 
 export interface LaserSegment {
   start: Point;
   end: Point;
+  wavelength?: number; // nm; the default laser wavelength when absent
+  power?: number; // Fraction of the source's power still in the beam; full power when absent
+  polarization?: number | null; // Degrees, or null for unpolarized light
 }
 
 export interface BoundaryObject {
@@ -74,13 +138,16 @@ export interface IntersectionDetail {
   point: Point;
   distance: number;
   object: PlacedMirror | Obstacle | DetectorType | BoundaryObject;
-  type: 'mirror' | 'obstacle' | 'detector' | 'boundary';
+  type: 'mirror' | 'glass' | 'obstacle' | 'detector' | 'boundary';
+  normal?: Point; // Outward normal of the glass face, curved mirror arc or obstacle surface that was hit (either side for line obstacles)
 }
 
 export interface LaserSource {
   id: string;
   position: Point;
   initialDirection: Point;
+  wavelength?: number; // nm; DEFAULT_LASER_WAVELENGTH when absent
+  polarization?: number; // Degrees (see utils/polarization.ts); unpolarized when absent
 }
 
 export interface TrackedLaserSource {
@@ -89,9 +156,90 @@ export interface TrackedLaserSource {
   laserPath: LaserSegment[];
 }
 
-export interface BoundingBox {
-  minX: number;
-  minY: number;
-  maxX: number;
-  maxY: number;
-}
\ No newline at end of file
+// A complete board definition: what the player is given, independent of their progress.
+export interface Level {
+  name?: string;
+  seed?: string; // Only present while the board is exactly what this seed generates
+  sources: LaserSource[];
+  detectors: DetectorType[];
+  obstacles: Obstacle[];
+  absorbingBoundaries?: boolean; // The board's edges swallow light instead of reflecting it
+  inventory: InventoryItem[]; // What the player may place, per palette template
+  maxComponents: number; // Cap on components in total; may be below the inventory's sum, so the player picks which to use
+  placedMirrors: PlacedMirror[]; // Components already on the board when the level starts
+  // Components that light every detector alongside the level's own. An entry with a level component's id
+  // is where that component has to be turned or slid to.
+  solution?: PlacedMirror[];
+  starThresholds?: StarThresholds; // DEFAULT_STAR_THRESHOLDS when absent
+}
+
+// Scores needed for two and three stars; solving a level always earns one.
+export interface StarThresholds {
+  twoStars: number;
+  threeStars: number;
+}
+
+// How a board was solved, and what that was worth (see utils/scoring.ts).
+export interface LevelScore {
+  score: number;
+  stars: number;
+  componentsUsed: number;
+  maxComponents: number;
+  beamLength: number; // px, over every traced segment
+  interactions: number; // Times a beam met something and carried on, summed over all sources
+  solveTimeMs: number;
+}
+
+export type LevelHint =
+  | { kind: 'place'; mirror: PlacedMirror } // Add this component
+  | { kind: 'move'; mirrorId: string; mirror: PlacedMirror }; // Move mirrorId (the player's, or a level component its lock lets move) to this placement
+
+export type EditorTool = 'select' | 'line' | 'rectangle' | 'circle' | 'polygon' | 'source' | 'detector';
+
+export type EditorSelection = { kind: 'obstacle' | 'source' | 'detector'; id: string } | null;
+
+// Optional snapping of mirror drags. angleStep is in degrees; null leaves angles free.
+export interface SnapSettings {
+  gridEnabled: boolean;
+  gridSize: number;
+  angleStep: number | null;
+  alignEnabled: boolean; // Pull centers and endpoints in line with other items' centers
+}
+
+// A dashed line on the board showing what a drag snapped to
+export interface SnapGuide {
+  kind: 'grid' | 'alignment' | 'angle';
+  from: Point;
+  to: Point;
+}
+
+// A bundled level in the campaign. Ids are stable across releases because saved progress refers to them.
+export interface CampaignLevel {
+  id: string;
+  level: Level;
+}
+
+// Levels that introduce one mechanic, played in order
+export interface CampaignPack {
+  id: string;
+  title: string;
+  description: string;
+  levels: CampaignLevel[];
+}
+
+export interface CampaignProgress {
+  completedLevelIds: string[];
+}
+
+// What the current board belongs to; decides where a solve is recorded
+export type PlayMode =
+  | { kind: 'free' } // Generated, shared, imported or edited boards
+  | { kind: 'campaign'; levelId: string }
+  | { kind: 'daily'; date: string }; // YYYY-MM-DD
+
+// One day's daily challenge, as played on this device
+export interface DailyRecord {
+  date: string; // YYYY-MM-DD
+  bestScore: LevelScore;
+  solvedOnDay: boolean; // Solved on the date itself rather than replayed later; only these count towards streaks
+}
@@ -0,0 +1,49 @@
+import type { CampaignPack, CampaignLevel, CampaignProgress } from '../types';
+import { CAMPAIGN_PROGRESS_STORAGE_KEY } from '../constants';
+import { CAMPAIGN_PACKS } from '../levels/campaign';
+import { readStoredJson, writeStoredJson } from './storage';
+
+// Campaign order and saved progress. A level unlocks once the one before it (across packs) is solved;
+// progress lives in localStorage and falls back to a fresh start when storage is unavailable or corrupt.
+
+export const getCampaignLevels = (packs: CampaignPack[] = CAMPAIGN_PACKS): CampaignLevel[] => packs.flatMap(pack => pack.levels);
+
+export const findCampaignLevel = (levelId: string, packs: CampaignPack[] = CAMPAIGN_PACKS): CampaignLevel | undefined =>
+  getCampaignLevels(packs).find(entry => entry.id === levelId);
+
+export const getNextCampaignLevel = (levelId: string, packs: CampaignPack[] = CAMPAIGN_PACKS): CampaignLevel | undefined => {
+  const levels = getCampaignLevels(packs);
+  const index = levels.findIndex(entry => entry.id === levelId);
+  return index === -1 ? undefined : levels[index + 1];
+};
+
+export const isCampaignLevelUnlocked = (levelId: string, progress: CampaignProgress, packs: CampaignPack[] = CAMPAIGN_PACKS): boolean => {
+  const levels = getCampaignLevels(packs);
+  const index = levels.findIndex(entry => entry.id === levelId);
+  if (index === -1) return false;
+  return index === 0 || progress.completedLevelIds.includes(levelId) || progress.completedLevelIds.includes(levels[index - 1].id);
+};
+
+// Where a returning player picks up: the first unlocked level they have not solved yet.
+export const getResumeCampaignLevel = (progress: CampaignProgress, packs: CampaignPack[] = CAMPAIGN_PACKS): CampaignLevel => {
+  const levels = getCampaignLevels(packs);
+  return levels.find(entry => !progress.completedLevelIds.includes(entry.id) && isCampaignLevelUnlocked(entry.id, progress, packs)) ?? levels[0];
+};
+
+export const completeCampaignLevel = (progress: CampaignProgress, levelId: string): CampaignProgress => {
+  if (progress.completedLevelIds.includes(levelId)) return progress;
+  return { completedLevelIds: [...progress.completedLevelIds, levelId] };
+};
+
+export const createCampaignProgress = (): CampaignProgress => ({ completedLevelIds: [] });
+
+export const loadCampaignProgress = (): CampaignProgress => {
+  const stored = readStoredJson(CAMPAIGN_PROGRESS_STORAGE_KEY);
+  const completed = (stored as Partial<CampaignProgress> | null)?.completedLevelIds;
+  if (!Array.isArray(completed)) return createCampaignProgress();
+  return { completedLevelIds: completed.filter((id): id is string => typeof id === 'string') };
+};
+
+export const saveCampaignProgress = (progress: CampaignProgress): void => {
+  writeStoredJson(CAMPAIGN_PROGRESS_STORAGE_KEY, progress);
+};
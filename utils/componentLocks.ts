@@ -0,0 +1,54 @@
+import type { ComponentLock, PlacedMirror, Point } from '../types';
+import { subtractPoints, getSegmentMidpoint, distance } from './geometry';
+import { setMirrorAngle } from './placement';
+
+// Levels can ship components of their own as part of the puzzle. A lock says what the player may still do
+// with one: nothing ('locked'), move it at its set angle ('no-rotate'), or turn it about its center, its
+// pivot ('rotate-only'). Locked components can't be removed, resized or swapped for another type, and they
+// don't use up the level's inventory.
+
+export const COMPONENT_LOCKS: ComponentLock[] = ['locked', 'no-rotate', 'rotate-only'];
+
+export const isLevelComponent = (mirror: PlacedMirror): boolean => mirror.lock !== undefined;
+
+export const canMoveComponent = (mirror: PlacedMirror): boolean => mirror.lock === undefined || mirror.lock === 'no-rotate';
+
+export const canRotateComponent = (mirror: PlacedMirror): boolean => mirror.lock === undefined || mirror.lock === 'rotate-only';
+
+// Resizing, reshaping (curvature), swapping the type and deleting are the player's own components only.
+export const canEditComponent = (mirror: PlacedMirror): boolean => mirror.lock === undefined;
+
+// The components that count against the inventory and the level's component cap
+export const getPlayerComponents = (mirrors: PlacedMirror[]): PlacedMirror[] => mirrors.filter(m => !isLevelComponent(m));
+
+// Endpoint drag on a rotate-only component: it turns about its pivot so the dragged end points at the
+// pointer, keeping its length.
+export const rotateAboutPivot = (mirror: PlacedMirror, pointType: 'p1' | 'p2', pointer: Point): PlacedMirror => {
+  const { x, y } = subtractPoints(pointer, getSegmentMidpoint(mirror));
+  if (Math.hypot(x, y) < 0.001) return mirror;
+  const angle = Math.atan2(y, x) * 180 / Math.PI;
+  return setMirrorAngle(mirror, pointType === 'p2' ? angle : angle + 180);
+};
+
+const LOCK_TOLERANCE = 0.01; // px; share links round coordinates to three decimals
+
+// Whether the player could have brought a level component from `original` to `moved` within its lock
+export const isReachableWithinLock = (original: PlacedMirror, moved: PlacedMirror): boolean => {
+  const isClose = (a: Point, b: Point) => distance(a, b) <= LOCK_TOLERANCE;
+  switch (original.lock) {
+    case 'locked': return isClose(original.p1, moved.p1) && isClose(original.p2, moved.p2);
+    case 'no-rotate': return isClose(subtractPoints(original.p2, original.p1), subtractPoints(moved.p2, moved.p1));
+    case 'rotate-only': return isClose(getSegmentMidpoint(original), getSegmentMidpoint(moved)) &&
+                               Math.abs(distance(original.p1, original.p2) - distance(moved.p1, moved.p2)) <= LOCK_TOLERANCE;
+    default: return true;
+  }
+};
+
+export const describeComponentLock = (lock: ComponentLock | undefined): string => {
+  switch (lock) {
+    case 'locked': return 'locked in place';
+    case 'no-rotate': return 'movable, cannot be rotated';
+    case 'rotate-only': return 'rotates about its pivot, cannot be moved';
+    default: return 'draggable';
+  }
+};
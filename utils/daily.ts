@@ -0,0 +1,84 @@
+import type { DailyRecord, LevelScore } from '../types';
+import { DAILY_SEED_PREFIX, DAILY_HISTORY_STORAGE_KEY } from '../constants';
+import { isBetterScore } from './scoring';
+import { readStoredJson, writeStoredJson } from './storage';
+
+// Daily challenge: one generated board per calendar date, the same for everyone because it comes
+// from a seed made of the date. Dates are local (YYYY-MM-DD), so the daily changes at the player's midnight.
+// Results, streaks and history stay on this device.
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Local midnight of a date key
+export const fromDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getTodayDateKey = (): string => toDateKey(new Date());
+
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const date = fromDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+export const getDailySeed = (dateKey: string): string => `${DAILY_SEED_PREFIX}${dateKey}`;
+
+export const recordDailyResult = (
+  history: Record<string, DailyRecord>,
+  dateKey: string,
+  score: LevelScore,
+  solvedOnDay: boolean
+): Record<string, DailyRecord> => {
+  const previous = history[dateKey];
+  const record: DailyRecord = {
+    date: dateKey,
+    bestScore: previous && !isBetterScore(score, previous.bestScore) ? previous.bestScore : score,
+    solvedOnDay: solvedOnDay || (previous?.solvedOnDay ?? false),
+  };
+  if (previous && previous.bestScore === record.bestScore && previous.solvedOnDay === record.solvedOnDay) return history;
+  return { ...history, [dateKey]: record };
+};
+
+// Consecutive days, up to today, whose daily was solved on the day. A streak survives until the end
+// of today, so it is still counted from yesterday while today's daily is open.
+export const getCurrentStreak = (history: Record<string, DailyRecord>, todayKey: string): number => {
+  let dateKey = history[todayKey]?.solvedOnDay ? todayKey : shiftDateKey(todayKey, -1);
+  let streak = 0;
+  while (history[dateKey]?.solvedOnDay) {
+    streak++;
+    dateKey = shiftDateKey(dateKey, -1);
+  }
+  return streak;
+};
+
+export const getLongestStreak = (history: Record<string, DailyRecord>): number => {
+  let longest = 0;
+  for (const dateKey of Object.keys(history)) {
+    if (!history[dateKey].solvedOnDay || history[shiftDateKey(dateKey, -1)]?.solvedOnDay) continue;
+    let length = 0;
+    for (let day = dateKey; history[day]?.solvedOnDay; day = shiftDateKey(day, 1)) length++;
+    longest = Math.max(longest, length);
+  }
+  return longest;
+};
+
+export const loadDailyHistory = (): Record<string, DailyRecord> => {
+  const stored = readStoredJson(DAILY_HISTORY_STORAGE_KEY);
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return {};
+  return Object.fromEntries(Object.entries(stored).filter(([dateKey, record]) => (
+    DATE_KEY_PATTERN.test(dateKey) && typeof record === 'object' && record !== null &&
+    typeof record.bestScore?.score === 'number' && typeof record.solvedOnDay === 'boolean'
+  ))) as Record<string, DailyRecord>;
+};
+
+export const saveDailyHistory = (history: Record<string, DailyRecord>): void => {
+  writeStoredJson(DAILY_HISTORY_STORAGE_KEY, history);
+};
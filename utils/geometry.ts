@@ -1,8 +1,11 @@
 
-import type { Point, PlacedMirror, Obstacle, DetectorType, IntersectionDetail, LineObstacle, RectangleObstacle, CircleObstacle, LaserSource, BoundingBox, BoundaryObject } from '../types';
-import { GAME_WIDTH, GAME_HEIGHT } from '../constants'; // Import game dimensions
+import type { Point, PlacedMirror, GlassType, CurvedMirrorType, LensType, Obstacle, DetectorType, IntersectionDetail, LineObstacle, RectangleObstacle, CircleObstacle, PolygonObstacle, LaserSource, BoundaryObject } from '../types';
+import {
+  GAME_WIDTH, GAME_HEIGHT, GLASS_OUTLINES, GLASS_DEFAULT_REFRACTIVE_INDEX, DEFAULT_FOCAL_LENGTH, MAX_FOCAL_LENGTH, LENS_EDGE_THICKNESS
+} from '../constants'; // Import game dimensions
 
-const EPSILON = 0.000001; // Small tolerance for floating point comparisons
+export const EPSILON = 0.000001; // Small tolerance for floating point comparisons
+const ARC_SELF_HIT_TOLERANCE = 0.0001; // A ray leaving an arc must not hit it again where it started
 
 export const distance = (p1: Point, p2: Point): number => {
   return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
@@ -80,122 +83,374 @@ export const calculateReflection = (incidentDirection: Point, normal: Point): Po
   });
 };
 
-export const getBoundingBoxForItem = (
+// Direction of a beam after crossing from refractive index n1 into n2 (Snell's law),
+// or null when the beam is totally internally reflected. The normal may point either way.
+export const calculateRefraction = (incidentDirection: Point, normal: Point, n1: number, n2: number): Point | null => {
+  const dNorm = normalizeVector(incidentDirection);
+  let nNorm = normalizeVector(normal);
+  let cosI = -dotProduct(dNorm, nNorm);
+  if (cosI < 0) { // Make the normal face the incoming beam
+    nNorm = scaleVector(nNorm, -1);
+    cosI = -cosI;
+  }
+  const eta = n1 / n2;
+  const k = 1 - eta * eta * (1 - cosI * cosI);
+  if (k < 0) return null;
+  return normalizeVector(addPoints(scaleVector(dNorm, eta), scaleVector(nNorm, eta * cosI - Math.sqrt(k))));
+};
+
+// Fraction of unpolarized light reflected at an interface between n1 and n2 (Fresnel equations).
+export const calculateFresnelReflectance = (incidentDirection: Point, normal: Point, n1: number, n2: number): number => {
+  const cosI = Math.abs(dotProduct(normalizeVector(incidentDirection), normalizeVector(normal)));
+  const sinT = (n1 / n2) * Math.sqrt(Math.max(0, 1 - cosI * cosI));
+  if (sinT >= 1) return 1;
+  const cosT = Math.sqrt(1 - sinT * sinT);
+  const rs = (n1 * cosI - n2 * cosT) / (n1 * cosI + n2 * cosT);
+  const rp = (n1 * cosT - n2 * cosI) / (n1 * cosT + n2 * cosI);
+  return (rs * rs + rp * rp) / 2;
+};
+
+export const isGlassType = (type: PlacedMirror['type']): type is GlassType => {
+  return type === 'glass-slab' || type === 'prism' || type === 'glass-polygon';
+};
+
+export const getRefractiveIndex = (mirror: PlacedMirror): number => mirror.refractiveIndex ?? GLASS_DEFAULT_REFRACTIVE_INDEX;
+
+// True for a simple convex polygon, in either winding order.
+export const isConvexPolygon = (points: Point[]): boolean => {
+  if (points.length < 3) return false;
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < EPSILON) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return sign !== 0;
+};
+
+// World-space corners of a glass body, mapped from its outline onto the p1-p2 segment.
+export const getGlassVertices = (mirror: PlacedMirror): Point[] => {
+  if (!isGlassType(mirror.type)) return [];
+  const outline = mirror.outline ?? GLASS_OUTLINES[mirror.type];
+  const axis = subtractPoints(mirror.p2, mirror.p1);
+  const perp = { x: -axis.y, y: axis.x };
+  return outline.map(v => addPoints(mirror.p1, addPoints(scaleVector(axis, v.x), scaleVector(perp, v.y))));
+};
+
+// Corners of a rectangle or polygon obstacle; rectangles are turned about their center by their rotation.
+export const getObstacleVertices = (obstacle: RectangleObstacle | PolygonObstacle): Point[] => {
+  if (obstacle.shape === 'polygon') return obstacle.points;
+  const { x, y, width, height } = obstacle;
+  const corners: Point[] = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+  if (!obstacle.rotation) return corners;
+  return corners.map(corner => rotatePoint(corner, getObstacleCenter(obstacle), obstacle.rotation as number));
+};
+
+export const getObstacleCenter = (obstacle: Obstacle): Point => {
+  switch (obstacle.shape) {
+    case 'line': return scaleVector(addPoints(obstacle.p1, obstacle.p2), 0.5);
+    case 'rectangle': return { x: obstacle.x + obstacle.width / 2, y: obstacle.y + obstacle.height / 2 };
+    case 'circle': return { x: obstacle.cx, y: obstacle.cy };
+    case 'polygon': return scaleVector(obstacle.points.reduce(addPoints, { x: 0, y: 0 }), 1 / obstacle.points.length);
+  }
+};
+
+// Rotates a point about a center by angleDegrees, clockwise on screen.
+export const rotatePoint = (point: Point, center: Point, angleDegrees: number): Point => {
+  const angle = angleDegrees * Math.PI / 180;
+  const offset = subtractPoints(point, center);
+  return {
+    x: center.x + offset.x * Math.cos(angle) - offset.y * Math.sin(angle),
+    y: center.y + offset.x * Math.sin(angle) + offset.y * Math.cos(angle),
+  };
+};
+
+// Twice the signed area; positive when the corners run clockwise on screen.
+const getSignedArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area;
+};
+
+// Edges of a closed polygon with the normal pointing out of it, whatever the winding order.
+// Works for concave polygons too.
+export const getPolygonEdges = (points: Point[]): { p1: Point; p2: Point; outwardNormal: Point }[] => {
+  const orientation = getSignedArea(points) >= 0 ? 1 : -1;
+  return points.map((p1, i) => {
+    const p2 = points[(i + 1) % points.length];
+    const edge = subtractPoints(p2, p1);
+    return { p1, p2, outwardNormal: normalizeVector({ x: edge.y * orientation, y: -edge.x * orientation }) };
+  });
+};
+
+// Even-odd test, so concave polygons work as well.
+export const isPointInPolygon = (point: Point, points: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// True when no two non-adjacent edges of the polygon cross.
+export const isSimplePolygon = (points: Point[]): boolean => {
+  if (points.length < 3 || Math.abs(getSignedArea(points)) < EPSILON) return false;
+  const edges = getPolygonEdges(points);
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const isAdjacent = j === i + 1 || (i === 0 && j === edges.length - 1);
+      if (!isAdjacent && segmentsIntersect(edges[i].p1, edges[i].p2, edges[j].p1, edges[j].p2)) return false;
+    }
+  }
+  return true;
+};
+
+const cross = (o: Point, a: Point, b: Point): number => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const segmentsIntersect = (a1: Point, a2: Point, b1: Point, b2: Point): boolean => {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true;
+  const onSegment = (p: Point, q: Point, r: Point) => Math.min(p.x, q.x) - EPSILON <= r.x && r.x <= Math.max(p.x, q.x) + EPSILON &&
+                                                     Math.min(p.y, q.y) - EPSILON <= r.y && r.y <= Math.max(p.y, q.y) + EPSILON;
+  return (Math.abs(d1) < EPSILON && onSegment(b1, b2, a1)) || (Math.abs(d2) < EPSILON && onSegment(b1, b2, a2)) ||
+         (Math.abs(d3) < EPSILON && onSegment(a1, a2, b1)) || (Math.abs(d4) < EPSILON && onSegment(a1, a2, b2));
+};
+
+const pointToSegmentDistance = (point: Point, s1: Point, s2: Point): number => {
+  const segment = subtractPoints(s2, s1);
+  const lengthSquared = dotProduct(segment, segment);
+  const t = lengthSquared < EPSILON ? 0 : Math.max(0, Math.min(1, dotProduct(subtractPoints(point, s1), segment) / lengthSquared));
+  return distance(point, addPoints(s1, scaleVector(segment, t)));
+};
+
+const segmentDistance = (a1: Point, a2: Point, b1: Point, b2: Point): number => {
+  if (segmentsIntersect(a1, a2, b1, b2)) return 0;
+  return Math.min(pointToSegmentDistance(a1, b1, b2), pointToSegmentDistance(a2, b1, b2), pointToSegmentDistance(b1, a1, a2), pointToSegmentDistance(b2, a1, a2));
+};
+
+// The exact footprint of a board item, used to keep generated items apart.
+export type CollisionShape =
+  | { kind: 'polygon'; points: Point[] }
+  | { kind: 'segment'; p1: Point; p2: Point }
+  | { kind: 'circle'; center: Point; radius: number };
+
+export const getCollisionShape = (
     item: Obstacle | LaserSource | DetectorType,
-    sourceEmitterWidth: number, 
+    sourceEmitterWidth: number,
     sourceEmitterHeight: number
-): BoundingBox => {
-    if ('shape' in item) { // Obstacle
-        const obstacle = item as Obstacle;
-        if (obstacle.shape === 'line') {
-            return {
-                minX: Math.min(obstacle.p1.x, obstacle.p2.x),
-                minY: Math.min(obstacle.p1.y, obstacle.p2.y),
-                maxX: Math.max(obstacle.p1.x, obstacle.p2.x),
-                maxY: Math.max(obstacle.p1.y, obstacle.p2.y),
-            };
-        } else if (obstacle.shape === 'rectangle') {
-            return {
-                minX: obstacle.x,
-                minY: obstacle.y,
-                maxX: obstacle.x + obstacle.width,
-                maxY: obstacle.y + obstacle.height,
-            };
-        } else if (obstacle.shape === 'circle') {
-            return {
-                minX: obstacle.cx - obstacle.radius,
-                minY: obstacle.cy - obstacle.radius,
-                maxX: obstacle.cx + obstacle.radius,
-                maxY: obstacle.cy + obstacle.radius,
-            };
-        }
-    } else if ('initialDirection' in item) { // LaserSource
-        const source = item as LaserSource;
-        const dir = source.initialDirection; 
-        
-        const halfW = sourceEmitterWidth / 2;  
-        const halfH = sourceEmitterHeight / 2; 
-
-        const localCorners: Point[] = [
-            { x: -halfW, y: -halfH }, { x: halfW, y: -halfH },
-            { x: halfW, y: halfH },   { x: -halfW, y: halfH }
-        ];
-        
-        const worldCorners = localCorners.map(lc => {
-            // General rotation formula:
-            // rotatedX = lc.x * cos(angle) - lc.y * sin(angle)
-            // rotatedY = lc.x * sin(angle) + lc.y * cos(angle)
-            // Since dir is normalized, dir.x = cos(angle), dir.y = sin(angle)
-            const rotatedX = lc.x * dir.x - lc.y * dir.y;
-            const rotatedY = lc.x * dir.y + lc.y * dir.x;
-
-            return {
-                x: source.position.x + rotatedX,
-                y: source.position.y + rotatedY
-            };
-        });
-
-        let minX = worldCorners[0].x, maxX = worldCorners[0].x;
-        let minY = worldCorners[0].y, maxY = worldCorners[0].y;
-
-        for (let i = 1; i < worldCorners.length; i++) {
-            minX = Math.min(minX, worldCorners[i].x);
-            maxX = Math.max(maxX, worldCorners[i].x);
-            minY = Math.min(minY, worldCorners[i].y);
-            maxY = Math.max(maxY, worldCorners[i].y);
+): CollisionShape => {
+    if ('shape' in item) {
+        switch (item.shape) {
+            case 'line': return { kind: 'segment', p1: item.p1, p2: item.p2 };
+            case 'circle': return { kind: 'circle', center: { x: item.cx, y: item.cy }, radius: item.radius };
+            default: return { kind: 'polygon', points: getObstacleVertices(item) };
         }
-        return { minX, minY, maxX, maxY };
-
-    } else { // DetectorType
-        const detector = item as DetectorType;
+    }
+    if ('initialDirection' in item) { // The emitter body, turned to face along the beam
+        const dir = item.initialDirection;
+        const halfW = sourceEmitterWidth / 2;
+        const halfH = sourceEmitterHeight / 2;
+        const localCorners: Point[] = [{ x: -halfW, y: -halfH }, { x: halfW, y: -halfH }, { x: halfW, y: halfH }, { x: -halfW, y: halfH }];
         return {
-            minX: detector.x,
-            minY: detector.y,
-            maxX: detector.x + detector.width,
-            maxY: detector.y + detector.height,
+            kind: 'polygon',
+            points: localCorners.map(lc => ({ x: item.position.x + lc.x * dir.x - lc.y * dir.y, y: item.position.y + lc.x * dir.y + lc.y * dir.x })),
         };
     }
-    // Should not be reached if types are handled
-    console.error("Unknown item type in getBoundingBoxForItem", item);
-    return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+    const { x, y, width, height } = item;
+    return { kind: 'polygon', points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }] };
+};
+
+const getShapeEdges = (shape: Exclude<CollisionShape, { kind: 'circle' }>): [Point, Point][] => {
+  if (shape.kind === 'segment') return [[shape.p1, shape.p2]];
+  return getPolygonEdges(shape.points).map(edge => [edge.p1, edge.p2]);
+};
+
+const pointToShapeDistance = (point: Point, shape: Exclude<CollisionShape, { kind: 'circle' }>): number => {
+  if (shape.kind === 'polygon' && isPointInPolygon(point, shape.points)) return 0;
+  return Math.min(...getShapeEdges(shape).map(([p1, p2]) => pointToSegmentDistance(point, p1, p2)));
+};
+
+// Gap between two shapes, 0 when they touch, cross or one contains the other.
+export const getCollisionShapeDistance = (a: CollisionShape, b: CollisionShape): number => {
+  if (a.kind === 'circle' && b.kind === 'circle') return Math.max(0, distance(a.center, b.center) - a.radius - b.radius);
+  if (a.kind === 'circle') return Math.max(0, pointToShapeDistance(a.center, b as Exclude<CollisionShape, { kind: 'circle' }>) - a.radius);
+  if (b.kind === 'circle') return getCollisionShapeDistance(b, a);
+
+  const aAnchor = a.kind === 'segment' ? a.p1 : a.points[0];
+  const bAnchor = b.kind === 'segment' ? b.p1 : b.points[0];
+  if ((b.kind === 'polygon' && isPointInPolygon(aAnchor, b.points)) || (a.kind === 'polygon' && isPointInPolygon(bAnchor, a.points))) return 0;
+  let gap = Infinity;
+  for (const [a1, a2] of getShapeEdges(a)) {
+    for (const [b1, b2] of getShapeEdges(b)) {
+      gap = Math.min(gap, segmentDistance(a1, a2, b1, b2));
+      if (gap === 0) return 0;
+    }
+  }
+  return gap;
+};
+
+// Whether two items come closer than `buffer` on each side, i.e. 2 * buffer apart.
+export const doItemsOverlap = (
+    a: Obstacle | LaserSource | DetectorType,
+    b: Obstacle | LaserSource | DetectorType,
+    sourceEmitterWidth: number,
+    sourceEmitterHeight: number,
+    buffer: number = 0
+): boolean => {
+  const shapeA = getCollisionShape(a, sourceEmitterWidth, sourceEmitterHeight);
+  const shapeB = getCollisionShape(b, sourceEmitterWidth, sourceEmitterHeight);
+  return getCollisionShapeDistance(shapeA, shapeB) < 2 * buffer;
+};
+
+export const isCurvedMirrorType = (type: PlacedMirror['type']): type is CurvedMirrorType => {
+  return type === 'concave-mirror' || type === 'convex-mirror';
+};
+
+export const isLensType = (type: PlacedMirror['type']): type is LensType => {
+  return type === 'converging-lens' || type === 'diverging-lens';
+};
+
+export const getFocalLength = (mirror: PlacedMirror): number => mirror.focalLength ?? DEFAULT_FOCAL_LENGTH;
+
+// Unit normal on the front side of a component, to the left of p1->p2: (-dy, dx).
+export const getFrontNormal = (mirror: PlacedMirror): Point => {
+  const segmentVector = subtractPoints(mirror.p2, mirror.p1);
+  return normalizeVector({ x: -segmentVector.y, y: segmentVector.x });
+};
+
+export const getSegmentMidpoint = (mirror: PlacedMirror): Point => scaleVector(addPoints(mirror.p1, mirror.p2), 0.5);
+
+// Radius of curvature behind a focal length: R = 2f for a mirror, and R = f for each face of a
+// symmetric thin lens with n = 1.5 (lensmaker's equation). Never tighter than a half circle over the segment.
+export const getCurvatureRadius = (mirror: PlacedMirror, focalLength: number = getFocalLength(mirror)): number => {
+  return Math.max(focalLength * (isLensType(mirror.type) ? 1 : 2), distance(mirror.p1, mirror.p2) / 2);
+};
+
+// How far a curved surface bulges out of the p1-p2 chord at its middle.
+export const getSagitta = (mirror: PlacedMirror, focalLength: number = getFocalLength(mirror)): number => {
+  const halfChord = distance(mirror.p1, mirror.p2) / 2;
+  const radius = getCurvatureRadius(mirror, focalLength);
+  return radius - Math.sqrt(Math.max(0, radius * radius - halfChord * halfChord));
 };
 
-export const doBoundingBoxesOverlap = (boxA: BoundingBox, boxB: BoundingBox, buffer: number = 0): boolean => {
-  if (boxA.maxX + buffer < boxB.minX - buffer || boxB.maxX + buffer < boxA.minX - buffer) {
-    return false;
+export interface MirrorArc {
+  center: Point;
+  radius: number;
+  midpoint: Point; // Middle of the p1-p2 chord
+  bulge: Point; // Unit direction from the chord towards the arc
+}
+
+// A concave mirror curves around its front, so its center of curvature lies in front and it bulges backwards;
+// a convex mirror is the other way round.
+export const getMirrorArc = (mirror: PlacedMirror): MirrorArc => {
+  const front = getFrontNormal(mirror);
+  const radius = getCurvatureRadius(mirror);
+  const halfChord = distance(mirror.p1, mirror.p2) / 2;
+  const midpoint = getSegmentMidpoint(mirror);
+  const bulge = mirror.type === 'convex-mirror' ? front : scaleVector(front, -1);
+  const center = addPoints(midpoint, scaleVector(bulge, -Math.sqrt(Math.max(0, radius * radius - halfChord * halfChord))));
+  return { center, radius, midpoint, bulge };
+};
+
+// First point where a ray meets an arc: the part of its circle on the bulge side of the chord.
+export const rayArcIntersection = (rayOrigin: Point, rayDirection: Point, arc: MirrorArc): Point | null => {
+  const direction = normalizeVector(rayDirection);
+  const fromCenter = subtractPoints(rayOrigin, arc.center);
+  const b = dotProduct(fromCenter, direction);
+  const c = dotProduct(fromCenter, fromCenter) - arc.radius * arc.radius;
+  const discriminant = b * b - c;
+  if (discriminant < 0) return null;
+  const root = Math.sqrt(discriminant);
+  for (const t of [-b - root, -b + root]) {
+    if (t < ARC_SELF_HIT_TOLERANCE) continue;
+    const point = addPoints(rayOrigin, scaleVector(direction, t));
+    if (dotProduct(subtractPoints(point, arc.midpoint), arc.bulge) >= -EPSILON) return point;
   }
-  if (boxA.maxY + buffer < boxB.minY - buffer || boxB.maxY + buffer < boxA.minY - buffer) {
-    return false;
+  return null;
+};
+
+// Direction of a ray leaving an ideal thin lens at `point`. A ray through the center goes straight on;
+// every ray parallel to it meets it in the back focal plane (converging) or seems to come from the front one (diverging).
+export const calculateThinLensRefraction = (rayDirection: Point, point: Point, lens: PlacedMirror): Point => {
+  const direction = normalizeVector(rayDirection);
+  let opticalAxis = getFrontNormal(lens);
+  if (dotProduct(direction, opticalAxis) < 0) opticalAxis = scaleVector(opticalAxis, -1);
+  const cosIncidence = dotProduct(direction, opticalAxis);
+  if (cosIncidence < EPSILON) return direction; // Grazing along the lens
+  const signedFocalLength = getFocalLength(lens) * (lens.type === 'diverging-lens' ? -1 : 1);
+  const focalPoint = addPoints(getSegmentMidpoint(lens), scaleVector(direction, signedFocalLength / cosIncidence));
+  const towardsFocalPoint = subtractPoints(focalPoint, point);
+  return normalizeVector(signedFocalLength > 0 ? towardsFocalPoint : scaleVector(towardsFocalPoint, -1));
+};
+
+// Where the curvature handle sits: on the apex of a curved mirror, or on the middle of a lens's front face
+// (its rim for a diverging lens).
+export const getCurvatureHandlePosition = (mirror: PlacedMirror): Point => {
+  const sagitta = getSagitta(mirror);
+  if (isCurvedMirrorType(mirror.type)) {
+    const arc = getMirrorArc(mirror);
+    return addPoints(arc.midpoint, scaleVector(arc.bulge, sagitta));
   }
-  return true; 
+  return addPoints(getSegmentMidpoint(mirror), scaleVector(getFrontNormal(mirror), sagitta + LENS_EDGE_THICKNESS / 2));
+};
+
+// Focal length that puts the curvature handle as close as possible to `point`.
+export const focalLengthFromHandle = (mirror: PlacedMirror, point: Point): number => {
+  const halfChord = distance(mirror.p1, mirror.p2) / 2;
+  if (halfChord < EPSILON) return getFocalLength(mirror);
+  const isLens = isLensType(mirror.type);
+  const direction = isLens ? getFrontNormal(mirror) : getMirrorArc(mirror).bulge;
+  const offset = dotProduct(subtractPoints(point, getSegmentMidpoint(mirror)), direction) - (isLens ? LENS_EDGE_THICKNESS / 2 : 0);
+  const sagitta = Math.min(halfChord, Math.max(getSagitta(mirror, MAX_FOCAL_LENGTH), offset));
+  const radius = (sagitta * sagitta + halfChord * halfChord) / (2 * sagitta);
+  return Math.min(MAX_FOCAL_LENGTH, Math.round(isLens ? radius : radius / 2));
 };
 
-const gameBoundaries: BoundaryObject[] = [
-    { p1: {x:0, y:0}, p2: {x:GAME_WIDTH, y:0}, normal: {x:0, y:1}, name: 'top_boundary'},
-    { p1: {x:0, y:GAME_HEIGHT}, p2: {x:GAME_WIDTH, y:GAME_HEIGHT}, normal: {x:0, y:-1}, name: 'bottom_boundary'},
-    { p1: {x:0, y:0}, p2: {x:0, y:GAME_HEIGHT}, normal: {x:1, y:0}, name: 'left_boundary'},
-    { p1: {x:GAME_WIDTH, y:0}, p2: {x:GAME_WIDTH, y:GAME_HEIGHT}, normal: {x:-1, y:0}, name: 'right_boundary'}
+// The four walls of a board, with normals pointing into the board.
+export const createBoardBoundaries = (width: number, height: number): BoundaryObject[] => [
+    { p1: {x:0, y:0}, p2: {x:width, y:0}, normal: {x:0, y:1}, name: 'top_boundary'},
+    { p1: {x:0, y:height}, p2: {x:width, y:height}, normal: {x:0, y:-1}, name: 'bottom_boundary'},
+    { p1: {x:0, y:0}, p2: {x:0, y:height}, normal: {x:1, y:0}, name: 'left_boundary'},
+    { p1: {x:width, y:0}, p2: {x:width, y:height}, normal: {x:-1, y:0}, name: 'right_boundary'}
 ];
 
+const gameBoundaries: BoundaryObject[] = createBoardBoundaries(GAME_WIDTH, GAME_HEIGHT);
+
 export const findClosestIntersection = (
   rayOrigin: Point,
   rayDirection: Point,
   mirrors: PlacedMirror[],
   obstacles: Obstacle[],
-  detectors: DetectorType[] 
+  detectors: DetectorType[],
+  boundaries: BoundaryObject[] = gameBoundaries
 ): IntersectionDetail | null => {
   let closestIntersection: IntersectionDetail | null = null;
   let minDistance = Infinity;
 
-  const updateClosest = (point: Point, object: PlacedMirror | Obstacle | DetectorType | BoundaryObject, type: IntersectionDetail['type']) => {
+  const updateClosest = (point: Point, object: PlacedMirror | Obstacle | DetectorType | BoundaryObject, type: IntersectionDetail['type'], normal?: Point) => {
     const dist = distance(rayOrigin, point);
     if (dist > EPSILON && dist < minDistance) { 
       minDistance = dist;
-      closestIntersection = { point, distance: dist, object, type };
+      closestIntersection = { point, distance: dist, object, type, ...(normal && { normal }) };
     }
   };
 
-  for (const boundary of gameBoundaries) {
+  for (const boundary of boundaries) {
     const intersectionPoint = raySegmentIntersection(rayOrigin, rayDirection, boundary.p1, boundary.p2);
     if (intersectionPoint) {
         updateClosest(intersectionPoint, boundary, 'boundary');
@@ -203,6 +458,30 @@ export const findClosestIntersection = (
   }
 
   for (const mirror of mirrors) {
+    if (isGlassType(mirror.type)) {
+      const vertices = getGlassVertices(mirror);
+      const centroid = scaleVector(vertices.reduce(addPoints, { x: 0, y: 0 }), 1 / vertices.length);
+      for (let i = 0; i < vertices.length; i++) {
+        const p1 = vertices[i];
+        const p2 = vertices[(i + 1) % vertices.length];
+        const intersectionPoint = raySegmentIntersection(rayOrigin, rayDirection, p1, p2);
+        if (intersectionPoint) {
+          const edge = subtractPoints(p2, p1);
+          let normal = normalizeVector({ x: -edge.y, y: edge.x });
+          if (dotProduct(normal, subtractPoints(p1, centroid)) < 0) normal = scaleVector(normal, -1);
+          updateClosest(intersectionPoint, mirror, 'glass', normal);
+        }
+      }
+      continue;
+    }
+    if (isCurvedMirrorType(mirror.type)) {
+      const arc = getMirrorArc(mirror);
+      const intersectionPoint = rayArcIntersection(rayOrigin, rayDirection, arc);
+      if (intersectionPoint) {
+        updateClosest(intersectionPoint, mirror, 'mirror', normalizeVector(subtractPoints(intersectionPoint, arc.center)));
+      }
+      continue;
+    }
     const intersectionPoint = raySegmentIntersection(rayOrigin, rayDirection, mirror.p1, mirror.p2);
     if (intersectionPoint) {
       updateClosest(intersectionPoint, mirror, 'mirror');
@@ -214,27 +493,21 @@ export const findClosestIntersection = (
       const lineObstacle = obstacle as LineObstacle;
       const intersectionPoint = raySegmentIntersection(rayOrigin, rayDirection, lineObstacle.p1, lineObstacle.p2);
       if (intersectionPoint) {
-        updateClosest(intersectionPoint, lineObstacle, 'obstacle');
+        const lineVector = subtractPoints(lineObstacle.p2, lineObstacle.p1);
+        updateClosest(intersectionPoint, lineObstacle, 'obstacle', normalizeVector({ x: -lineVector.y, y: lineVector.x }));
       }
-    } else if (obstacle.shape === 'rectangle') {
-      const rectObstacle = obstacle as RectangleObstacle;
-      const { x, y, width, height } = rectObstacle;
-      const rectPoints: Point[] = [
-        { x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }
-      ];
-      for (let i = 0; i < 4; i++) {
-        const p1 = rectPoints[i];
-        const p2 = rectPoints[(i + 1) % 4];
-        const intersectionPoint = raySegmentIntersection(rayOrigin, rayDirection, p1, p2);
+    } else if (obstacle.shape === 'rectangle' || obstacle.shape === 'polygon') {
+      for (const edge of getPolygonEdges(getObstacleVertices(obstacle))) {
+        const intersectionPoint = raySegmentIntersection(rayOrigin, rayDirection, edge.p1, edge.p2);
         if (intersectionPoint) {
-          updateClosest(intersectionPoint, rectObstacle, 'obstacle');
+          updateClosest(intersectionPoint, obstacle, 'obstacle', edge.outwardNormal);
         }
       }
     } else if (obstacle.shape === 'circle') {
         const circleObstacle = obstacle as CircleObstacle;
         const intersectionPoint = rayCircleIntersection(rayOrigin, rayDirection, {x: circleObstacle.cx, y: circleObstacle.cy}, circleObstacle.radius);
         if (intersectionPoint) {
-            updateClosest(intersectionPoint, circleObstacle, 'obstacle');
+            updateClosest(intersectionPoint, circleObstacle, 'obstacle', normalizeVector(subtractPoints(intersectionPoint, {x: circleObstacle.cx, y: circleObstacle.cy})));
         }
     }
   }
@@ -0,0 +1,71 @@
+import type { PlacedMirror, LevelHint, Point, PaletteMirrorTemplate } from '../types';
+import { solveLevel, evaluateBoard, type SolverScene, type SolverOptions } from './solver';
+import { getPlayerComponents, isLevelComponent } from './componentLocks';
+import { distance, getSegmentMidpoint } from './geometry';
+
+const SAME_PLACEMENT_TOLERANCE = 2; // px, per endpoint
+
+const isNear = (a: Point, b: Point): boolean => distance(a, b) <= SAME_PLACEMENT_TOLERANCE;
+
+// Either way round: a component turned by 180 degrees sits in the same spot.
+const isSamePlacement = (a: PlacedMirror, b: PlacedMirror): boolean =>
+  (isNear(a.p1, b.p1) && isNear(a.p2, b.p2)) || (isNear(a.p1, b.p2) && isNear(a.p2, b.p1));
+
+// Whether the spot is (partly) taken by one of the level's components
+const overlapsAny = (mirror: PlacedMirror, components: PlacedMirror[]): boolean => components.some(c =>
+  distance(getSegmentMidpoint(c), getSegmentMidpoint(mirror)) < (distance(c.p1, c.p2) + distance(mirror.p1, mirror.p2)) / 2
+);
+
+export interface HintOptions extends SolverOptions {
+  placeableTemplates: PaletteMirrorTemplate[]; // The templates with some left in the inventory; only these are hinted as new placements
+}
+
+// Finds the next step towards a solution, building on what the player has already placed.
+// 1. Keep every player mirror and look for the components still missing, among those left to place.
+// 2. Otherwise find a single player mirror that, once moved, lets the rest of the board work.
+// 3. Otherwise fall back to the solution stored with the level, starting with any level component that
+//    still has to be turned or slid into place.
+// The level's locked components stay where they are and take none of the maxComponents slots.
+// Returns null when the board is already solved.
+export const findHint = (
+  scene: SolverScene,
+  playerMirrors: PlacedMirror[],
+  options: HintOptions,
+  knownSolution: PlacedMirror[]
+): LevelHint | null => {
+  const currentEvaluation = evaluateBoard(scene, playerMirrors);
+  if (scene.detectors.every(d => currentEvaluation.hitDetectorIds.has(d.id))) return null;
+
+  const completion = options.placeableTemplates.length > 0 && solveLevel(scene, {
+    ...options,
+    templates: options.placeableTemplates,
+    fixedMirrors: playerMirrors,
+    maxComponents: options.maxComponents - getPlayerComponents(playerMirrors).length,
+  });
+  if (completion && completion.length > 0) {
+    return { kind: 'place', mirror: completion[0] };
+  }
+
+  const levelComponents = playerMirrors.filter(isLevelComponent);
+  const movableMirrors = getPlayerComponents(playerMirrors);
+  for (const mirrorToMove of movableMirrors) {
+    const remainingMirrors = playerMirrors.filter(m => m.id !== mirrorToMove.id);
+    const solution = solveLevel(scene, {
+      ...options,
+      fixedMirrors: remainingMirrors,
+      maxComponents: options.maxComponents - (movableMirrors.length - 1),
+    });
+    const freeSpots = (solution ?? []).filter(m => !overlapsAny(m, levelComponents));
+    const target = freeSpots.find(m => m.type === mirrorToMove.type) ?? freeSpots[0];
+    if (target) return { kind: 'move', mirrorId: mirrorToMove.id, mirror: target };
+  }
+
+  for (const target of knownSolution) {
+    const levelComponent = levelComponents.find(m => m.id === target.id);
+    if (levelComponent && !isSamePlacement(levelComponent, target)) return { kind: 'move', mirrorId: levelComponent.id, mirror: target };
+  }
+  const playerSolution = knownSolution.filter(m => !levelComponents.some(c => c.id === m.id));
+  if (playerSolution.length === 0) return null;
+  if (movableMirrors.length === 0) return { kind: 'place', mirror: playerSolution[0] };
+  return { kind: 'move', mirrorId: movableMirrors[0].id, mirror: playerSolution[0] };
+};
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_HISTORY_ENTRIES } from '../constants';
+import { createHistory, recordHistory, undoHistory, redoHistory, type History } from './history';
+
+// Records each state in turn, the way the app does before replacing its current state
+const recordAll = (states: string[]): History<string> => states.reduce(recordHistory, createHistory<string>());
+
+describe('history', () => {
+  it('has nothing to undo or redo when new', () => {
+    expect(undoHistory(createHistory<string>(), 'a')).toBeNull();
+    expect(redoHistory(createHistory<string>(), 'a')).toBeNull();
+  });
+
+  it('undoes back to the states it recorded, newest first', () => {
+    const first = undoHistory(recordAll(['a', 'b']), 'c')!;
+    expect(first.state).toBe('b');
+    const second = undoHistory(first.history, first.state)!;
+    expect(second.state).toBe('a');
+    expect(undoHistory(second.history, second.state)).toBeNull();
+  });
+
+  it('redoes what was undone', () => {
+    const undone = undoHistory(recordAll(['a', 'b']), 'c')!;
+    const redone = redoHistory(undone.history, undone.state)!;
+    expect(redone.state).toBe('c');
+    expect(redone.history).toEqual(recordAll(['a', 'b']));
+  });
+
+  it('drops the undone states once a new change is recorded', () => {
+    const undone = undoHistory(recordAll(['a', 'b']), 'c')!;
+    const changed = recordHistory(undone.history, undone.state);
+    expect(redoHistory(changed, 'd')).toBeNull();
+    expect(changed.past).toEqual(['a', 'b']);
+  });
+
+  it(`keeps only the last ${MAX_HISTORY_ENTRIES} states`, () => {
+    const states = Array.from({ length: MAX_HISTORY_ENTRIES + 5 }, (_, i) => String(i));
+    const history = recordAll(states);
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[0]).toBe('5');
+  });
+});
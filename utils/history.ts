@@ -0,0 +1,32 @@
+import { MAX_HISTORY_ENTRIES } from '../constants';
+
+// Undo / redo stacks of whole snapshots. The current state lives outside the history:
+// past holds what came before it (oldest first), future what was undone (next redo first).
+export interface History<T> {
+  past: T[];
+  future: T[];
+}
+
+export const createHistory = <T,>(): History<T> => ({ past: [], future: [] });
+
+// Call before replacing the current state; a new change discards everything that was undone.
+export const recordHistory = <T,>(history: History<T>, previous: T): History<T> => ({
+  past: [...history.past, previous].slice(-MAX_HISTORY_ENTRIES),
+  future: [],
+});
+
+export const undoHistory = <T,>(history: History<T>, current: T): { history: History<T>; state: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    state: history.past[history.past.length - 1],
+  };
+};
+
+export const redoHistory = <T,>(history: History<T>, current: T): { history: History<T>; state: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    state: history.future[0],
+  };
+};
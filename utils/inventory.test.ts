@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { InventoryItem, PlacedMirror } from '../types';
+import { INITIAL_PALETTE_MIRRORS } from '../constants';
+import { getInventoryTemplates, getRemainingCounts, getInventoryTotal, createFullPaletteInventory } from './inventory';
+
+const inventory: InventoryItem[] = [{ templateId: 'pm-bs', count: 1 }, { templateId: 'pm1', count: 2, length: 120 }];
+
+const placed = (id: string, type: PlacedMirror['type'], extras: Partial<PlacedMirror> = {}): PlacedMirror => ({
+  id, type, p1: { x: 100, y: 100 }, p2: { x: 180, y: 100 }, ...extras,
+});
+
+describe('inventory templates', () => {
+  it('lists the items in palette order, with their lengths', () => {
+    const templates = getInventoryTemplates(inventory);
+    expect(templates.map(t => t.id)).toEqual(['pm1', 'pm-bs']);
+    expect(templates[0].defaultLength).toBe(120);
+    expect(templates[0].description).toBe('Standard Mirror (120px)');
+    expect(templates[1].defaultLength).toBe(80);
+  });
+
+  it('keeps used-up items so the palette can show them', () => {
+    expect(getInventoryTemplates([{ templateId: 'pm1', count: 0 }]).map(t => t.id)).toEqual(['pm1']);
+  });
+});
+
+describe('remaining counts', () => {
+  it('takes the player components on the board off their items', () => {
+    expect(getRemainingCounts(inventory, [placed('a', 'default')], 3)).toEqual({ 'pm-bs': 1, pm1: 1 });
+  });
+
+  it('never lets the total go past the component cap', () => {
+    expect(getRemainingCounts(inventory, [placed('a', 'default'), placed('b', 'beam-splitter')], 2)).toEqual({ 'pm-bs': 0, pm1: 0 });
+  });
+
+  it('does not count the level components', () => {
+    const board = [placed('pivot', 'default', { lock: 'rotate-only' }), placed('slider', 'beam-splitter', { lock: 'no-rotate' })];
+    expect(getRemainingCounts(inventory, board, 3)).toEqual({ 'pm-bs': 1, pm1: 2 });
+  });
+
+  it('matches components to their template before their type', () => {
+    const split = placed('a', 'beam-splitter', { templateId: 'pm-bs-70', splitRatio: 0.7 });
+    const counts = getRemainingCounts([...inventory, { templateId: 'pm-bs-70', count: 1 }], [split], 3);
+    expect(counts).toEqual({ 'pm-bs': 1, pm1: 2, 'pm-bs-70': 0 });
+  });
+});
+
+describe('inventory totals', () => {
+  it('adds up the counts', () => {
+    expect(getInventoryTotal(inventory)).toBe(3);
+  });
+
+  it('offers every palette template up to the cap in a full palette', () => {
+    const full = createFullPaletteInventory(4);
+    expect(full).toHaveLength(INITIAL_PALETTE_MIRRORS.length);
+    expect(full.every(item => item.count === 4)).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import type { InventoryItem, PaletteMirrorTemplate, PlacedMirror } from '../types';
+import { INITIAL_PALETTE_MIRRORS } from '../constants';
+import { getTemplateForMirror, getLengthLimits, clampLength } from './placement';
+import { getPlayerComponents } from './componentLocks';
+
+// A level's inventory: how many of each palette template the player gets, at what length.
+// The player's components on the board use up their template's count, and each counts towards the level's
+// maxComponents cap. The level's own locked components count towards neither.
+
+// The level's templates, in palette order, with each item's length applied. Items with a count of 0 stay
+// in the list so the palette can show them as used up.
+export const getInventoryTemplates = (inventory: InventoryItem[]): PaletteMirrorTemplate[] => {
+  return INITIAL_PALETTE_MIRRORS.flatMap(template => {
+    const item = inventory.find(i => i.templateId === template.id);
+    if (!item) return [];
+    if (item.length === undefined) return [template];
+    const length = clampLength(item.length, getLengthLimits(template));
+    return [{ ...template, defaultLength: length, description: template.description.replace(`(${template.defaultLength}px)`, `(${length}px)`) }];
+  });
+};
+
+// How many more of each template can be placed, given what is on the board and the overall cap.
+export const getRemainingCounts = (
+  inventory: InventoryItem[],
+  placedMirrors: PlacedMirror[],
+  maxComponents: number
+): Record<string, number> => {
+  const templates = getInventoryTemplates(inventory);
+  const playerComponents = getPlayerComponents(placedMirrors);
+  const slotsLeft = Math.max(0, maxComponents - playerComponents.length);
+  return Object.fromEntries(inventory.map(item => {
+    const used = playerComponents.filter(m => getTemplateForMirror(m, templates)?.id === item.templateId).length;
+    return [item.templateId, Math.min(slotsLeft, Math.max(0, item.count - used))];
+  }));
+};
+
+export const getInventoryTotal = (inventory: InventoryItem[]): number => inventory.reduce((sum, item) => sum + item.count, 0);
+
+// Every palette template, as many of each as the cap allows: what levels offered before inventories existed.
+export const createFullPaletteInventory = (maxComponents: number): InventoryItem[] =>
+  INITIAL_PALETTE_MIRRORS.map(template => ({ templateId: template.id, count: maxComponents }));
@@ -0,0 +1,70 @@
+import type { Point, PlacedMirror } from '../types';
+import {
+  GAME_WIDTH, GAME_HEIGHT,
+  KEYBOARD_NUDGE_STEP, KEYBOARD_NUDGE_STEP_LARGE, KEYBOARD_ROTATE_STEP_FINE, KEYBOARD_ROTATE_STEP_COARSE
+} from '../constants';
+import {
+  addPoints, subtractPoints, rotatePoint, getSegmentMidpoint,
+  isGlassType, isCurvedMirrorType, isLensType, getRefractiveIndex, getFocalLength
+} from './geometry';
+import { getMirrorAngle } from './placement';
+
+// Keyboard control of placed components: arrows move, Q / E turn, Delete removes. Shift takes bigger steps.
+
+export type KeyboardMirrorAction =
+  | { kind: 'nudge'; delta: Point }
+  | { kind: 'rotate'; degrees: number }
+  | { kind: 'delete' };
+
+interface KeyPress {
+  key: string;
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+}
+
+export const KEYBOARD_HELP_TEXT = 'Arrow keys move the component, Shift with an arrow moves it further. Q and E rotate it by 1 degree, or by 15 degrees with Shift. Delete removes it.';
+
+export const getKeyboardMirrorAction = (press: KeyPress): KeyboardMirrorAction | null => {
+  if (press.ctrlKey || press.metaKey || press.altKey) return null; // Leave browser and app shortcuts alone
+  const step = press.shiftKey ? KEYBOARD_NUDGE_STEP_LARGE : KEYBOARD_NUDGE_STEP;
+  const turn = press.shiftKey ? KEYBOARD_ROTATE_STEP_COARSE : KEYBOARD_ROTATE_STEP_FINE;
+  switch (press.key.toLowerCase()) {
+    case 'arrowleft': return { kind: 'nudge', delta: { x: -step, y: 0 } };
+    case 'arrowright': return { kind: 'nudge', delta: { x: step, y: 0 } };
+    case 'arrowup': return { kind: 'nudge', delta: { x: 0, y: -step } };
+    case 'arrowdown': return { kind: 'nudge', delta: { x: 0, y: step } };
+    case 'q': return { kind: 'rotate', degrees: -turn };
+    case 'e': return { kind: 'rotate', degrees: turn };
+    case 'delete':
+    case 'backspace': return { kind: 'delete' };
+    default: return null;
+  }
+};
+
+// Moves are clamped so the component's center stays on the board; turns are about the center.
+export const applyKeyboardMirrorAction = (mirror: PlacedMirror, action: Exclude<KeyboardMirrorAction, { kind: 'delete' }>): PlacedMirror => {
+  const center = getSegmentMidpoint(mirror);
+  if (action.kind === 'rotate') {
+    return { ...mirror, p1: rotatePoint(mirror.p1, center, action.degrees), p2: rotatePoint(mirror.p2, center, action.degrees) };
+  }
+  const target = addPoints(center, action.delta);
+  const clampedTarget = {
+    x: Math.min(GAME_WIDTH, Math.max(0, target.x)),
+    y: Math.min(GAME_HEIGHT, Math.max(0, target.y)),
+  };
+  const delta = subtractPoints(clampedTarget, center);
+  return { ...mirror, p1: addPoints(mirror.p1, delta), p2: addPoints(mirror.p2, delta) };
+};
+
+export const describeComponent = (mirror: PlacedMirror): string => {
+  if (isGlassType(mirror.type)) return `Glass type ${mirror.type} with refractive index ${getRefractiveIndex(mirror)}`;
+  if (isCurvedMirrorType(mirror.type) || isLensType(mirror.type)) return `${mirror.type} with focal length ${Math.round(getFocalLength(mirror))}`;
+  return `Mirror type ${mirror.type}`;
+};
+
+export const describeMirrorPlacement = (mirror: PlacedMirror): string => {
+  const center = getSegmentMidpoint(mirror);
+  return `centered at (${Math.round(center.x)}, ${Math.round(center.y)}), angle ${getMirrorAngle(mirror)} degrees`;
+};
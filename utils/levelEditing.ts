@@ -0,0 +1,217 @@
+import type { Point, Obstacle, DetectorType, LaserSource, Level, EditorTool, EditorSelection, ComponentLock } from '../types';
+import {
+  GAME_WIDTH, GAME_HEIGHT, DETECTOR_WIDTH, DETECTOR_HEIGHT,
+  MIN_OBSTACLE_LINE_LENGTH, MIN_OBSTACLE_DIMENSION, MIN_OBSTACLE_RADIUS, EDITOR_MIN_ITEM_SIZE, EDITOR_ROTATION_HANDLE_OFFSET
+} from '../constants';
+import { addPoints, subtractPoints, scaleVector, normalizeVector, distance, rotatePoint, getObstacleVertices, getObstacleCenter, isSimplePolygon } from './geometry';
+
+// Pure helpers behind the level editor. Every function returns a new Level and leaves the input untouched.
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+export const clampToBoard = (point: Point): Point => ({
+  x: clamp(point.x, 0, GAME_WIDTH),
+  y: clamp(point.y, 0, GAME_HEIGHT),
+});
+
+// Ids read like the generated ones ("obs-3") and never collide with an existing item.
+const createEditorId = (prefix: string, existingIds: string[]): string => {
+  let n = 0;
+  while (existingIds.includes(`${prefix}-${n}`)) n++;
+  return `${prefix}-${n}`;
+};
+
+// Handles of a selected obstacle: line endpoints, a rectangle's resize corner and rotation knob,
+// a circle's rim and each corner of a polygon.
+export type ObstacleHandle = 'p1' | 'p2' | 'corner' | 'rotation' | 'radius' | { vertex: number };
+
+// Edited boards no longer match their seed or stored solution.
+const markEdited = (level: Level): Level => ({ ...level, seed: undefined, solution: undefined });
+
+export const addItemAt = (level: Level, tool: Exclude<EditorTool, 'select'>, point: Point): { level: Level; selection: EditorSelection } => {
+  const at = clampToBoard(point);
+  switch (tool) {
+    case 'line': {
+      const id = createEditorId('obs', level.obstacles.map(o => o.id));
+      const halfLength = MIN_OBSTACLE_LINE_LENGTH;
+      const obstacle: Obstacle = { id, shape: 'line', p1: { x: at.x - halfLength, y: at.y }, p2: { x: at.x + halfLength, y: at.y } };
+      return { level: markEdited({ ...level, obstacles: [...level.obstacles, obstacle] }), selection: { kind: 'obstacle', id } };
+    }
+    case 'rectangle': {
+      const id = createEditorId('obs', level.obstacles.map(o => o.id));
+      const size = MIN_OBSTACLE_DIMENSION * 2;
+      const obstacle: Obstacle = { id, shape: 'rectangle', x: at.x - size / 2, y: at.y - size / 2, width: size, height: size };
+      return { level: markEdited({ ...level, obstacles: [...level.obstacles, obstacle] }), selection: { kind: 'obstacle', id } };
+    }
+    case 'circle': {
+      const id = createEditorId('obs', level.obstacles.map(o => o.id));
+      const obstacle: Obstacle = { id, shape: 'circle', cx: at.x, cy: at.y, radius: MIN_OBSTACLE_RADIUS * 2 };
+      return { level: markEdited({ ...level, obstacles: [...level.obstacles, obstacle] }), selection: { kind: 'obstacle', id } };
+    }
+    case 'polygon': {
+      // An L shape, so new polygons start out concave
+      const id = createEditorId('obs', level.obstacles.map(o => o.id));
+      const half = MIN_OBSTACLE_DIMENSION;
+      const corners: Point[] = [{ x: -half, y: -half }, { x: 0, y: -half }, { x: 0, y: 0 }, { x: half, y: 0 }, { x: half, y: half }, { x: -half, y: half }];
+      const obstacle: Obstacle = { id, shape: 'polygon', points: corners.map(c => addPoints(at, c)) };
+      return { level: markEdited({ ...level, obstacles: [...level.obstacles, obstacle] }), selection: { kind: 'obstacle', id } };
+    }
+    case 'source': {
+      const id = createEditorId('source', level.sources.map(s => s.id));
+      const source: LaserSource = { id, position: at, initialDirection: { x: 1, y: 0 } };
+      return { level: markEdited({ ...level, sources: [...level.sources, source] }), selection: { kind: 'source', id } };
+    }
+    case 'detector': {
+      const id = createEditorId('detector', level.detectors.map(d => d.id));
+      const detector: DetectorType = { id, x: at.x - DETECTOR_WIDTH / 2, y: at.y - DETECTOR_HEIGHT / 2, width: DETECTOR_WIDTH, height: DETECTOR_HEIGHT, angle: 0 };
+      return { level: markEdited({ ...level, detectors: [...level.detectors, detector] }), selection: { kind: 'detector', id } };
+    }
+  }
+};
+
+export const deleteItem = (level: Level, selection: NonNullable<EditorSelection>): Level => {
+  switch (selection.kind) {
+    case 'obstacle': return markEdited({ ...level, obstacles: level.obstacles.filter(o => o.id !== selection.id) });
+    case 'source': return markEdited({ ...level, sources: level.sources.filter(s => s.id !== selection.id) });
+    case 'detector': return markEdited({ ...level, detectors: level.detectors.filter(d => d.id !== selection.id) });
+  }
+};
+
+const translateObstacle = (obstacle: Obstacle, delta: Point): Obstacle => {
+  switch (obstacle.shape) {
+    case 'line': return { ...obstacle, p1: addPoints(obstacle.p1, delta), p2: addPoints(obstacle.p2, delta) };
+    case 'rectangle': return { ...obstacle, x: obstacle.x + delta.x, y: obstacle.y + delta.y };
+    case 'circle': return { ...obstacle, cx: obstacle.cx + delta.x, cy: obstacle.cy + delta.y };
+    case 'polygon': return { ...obstacle, points: obstacle.points.map(p => addPoints(p, delta)) };
+  }
+};
+
+export const updateObstacle = (level: Level, id: string, update: (obstacle: Obstacle) => Obstacle): Level => {
+  return markEdited({ ...level, obstacles: level.obstacles.map(o => (o.id === id ? update(o) : o)) });
+};
+
+export const updateSource = (level: Level, id: string, update: (source: LaserSource) => LaserSource): Level => {
+  return markEdited({ ...level, sources: level.sources.map(s => (s.id === id ? update(s) : s)) });
+};
+
+export const updateDetector = (level: Level, id: string, update: (detector: DetectorType) => DetectorType): Level => {
+  return markEdited({ ...level, detectors: level.detectors.map(d => (d.id === id ? update(d) : d)) });
+};
+
+export const setRequiredWavelength = (detector: DetectorType, wavelength: number, isRequired: boolean): DetectorType => {
+  const current = detector.requiredWavelengths ?? [];
+  const requiredWavelengths = isRequired ? [...new Set([...current, wavelength])] : current.filter(w => w !== wavelength);
+  const { requiredWavelengths: _previous, ...rest } = detector;
+  return requiredWavelengths.length > 0 ? { ...rest, requiredWavelengths } : rest;
+};
+
+// Moves the selected item by delta. Drags pass the level as it was when the drag started.
+export const moveItem = (level: Level, selection: NonNullable<EditorSelection>, delta: Point): Level => {
+  switch (selection.kind) {
+    case 'obstacle':
+      return updateObstacle(level, selection.id, o => translateObstacle(o, delta));
+    case 'source':
+      return updateSource(level, selection.id, s => ({ ...s, position: clampToBoard(addPoints(s.position, delta)) }));
+    case 'detector':
+      return updateDetector(level, selection.id, d => ({ ...d, x: d.x + delta.x, y: d.y + delta.y }));
+  }
+};
+
+// Rotations are kept in [0, 360) and an unrotated rectangle carries no rotation at all.
+export const setRectangleRotation = (obstacle: Obstacle, degrees: number): Obstacle => {
+  if (obstacle.shape !== 'rectangle') return obstacle;
+  const { rotation: _previous, ...rest } = obstacle;
+  const rotation = ((degrees % 360) + 360) % 360;
+  return rotation === 0 ? rest : { ...rest, rotation };
+};
+
+// Where the rotation knob of a rectangle sits: above the middle of its top edge, turning with it.
+export const getRectangleRotationHandle = (obstacle: Obstacle & { shape: 'rectangle' }): Point => {
+  const center = getObstacleCenter(obstacle);
+  return rotatePoint({ x: center.x, y: obstacle.y - EDITOR_ROTATION_HANDLE_OFFSET }, center, obstacle.rotation ?? 0);
+};
+
+// Handle drags. A rectangle's resize corner is the one opposite its first corner, which stays put.
+export const resizeObstacle = (obstacle: Obstacle, handle: ObstacleHandle, point: Point): Obstacle => {
+  const at = clampToBoard(point);
+  if (obstacle.shape === 'line' && (handle === 'p1' || handle === 'p2')) {
+    return { ...obstacle, [handle]: at };
+  }
+  if (obstacle.shape === 'rectangle' && handle === 'corner') {
+    const rotation = obstacle.rotation ?? 0;
+    const fixedCorner = getObstacleVertices(obstacle)[0];
+    const localDiagonal = rotatePoint(subtractPoints(at, fixedCorner), { x: 0, y: 0 }, -rotation);
+    const width = Math.max(EDITOR_MIN_ITEM_SIZE, localDiagonal.x);
+    const height = Math.max(EDITOR_MIN_ITEM_SIZE, localDiagonal.y);
+    const draggedCorner = addPoints(fixedCorner, rotatePoint({ x: width, y: height }, { x: 0, y: 0 }, rotation));
+    const center = scaleVector(addPoints(fixedCorner, draggedCorner), 0.5);
+    return { ...obstacle, x: center.x - width / 2, y: center.y - height / 2, width, height };
+  }
+  if (obstacle.shape === 'rectangle' && handle === 'rotation') {
+    const offset = subtractPoints(at, getObstacleCenter(obstacle));
+    return setRectangleRotation(obstacle, Math.round(Math.atan2(offset.y, offset.x) * 180 / Math.PI) + 90);
+  }
+  if (obstacle.shape === 'circle' && handle === 'radius') {
+    return { ...obstacle, radius: Math.max(EDITOR_MIN_ITEM_SIZE / 2, distance({ x: obstacle.cx, y: obstacle.cy }, at)) };
+  }
+  if (obstacle.shape === 'polygon' && typeof handle === 'object') {
+    const points = obstacle.points.map((p, i) => (i === handle.vertex ? at : p));
+    return isSimplePolygon(points) ? { ...obstacle, points } : obstacle; // Corners may not be dragged across other edges
+  }
+  return obstacle;
+};
+
+// Points a source towards the given board position, rounded to whole degrees.
+export const aimSource = (source: LaserSource, target: Point): LaserSource => {
+  const direction = normalizeVector(subtractPoints(target, source.position));
+  if (direction.x === 0 && direction.y === 0) return source;
+  const angleDegrees = Math.round(Math.atan2(direction.y, direction.x) * 180 / Math.PI);
+  return { ...source, initialDirection: directionFromDegrees(angleDegrees) };
+};
+
+export const directionFromDegrees = (angleDegrees: number): Point => {
+  const angleRad = angleDegrees * Math.PI / 180;
+  return { x: Math.cos(angleRad), y: Math.sin(angleRad) };
+};
+
+export const directionToDegrees = (direction: Point): number => {
+  return (Math.round(Math.atan2(direction.y, direction.x) * 180 / Math.PI) + 360) % 360;
+};
+
+// A count of 0 keeps the item listed (shown as used up); removing it takes the component out of the palette.
+export const setInventoryCount = (level: Level, templateId: string, count: number | null): Level => {
+  const others = level.inventory.filter(item => item.templateId !== templateId);
+  if (count === null) return markEdited({ ...level, inventory: others });
+  const existing = level.inventory.find(item => item.templateId === templateId);
+  const item = { ...existing, templateId, count: Math.max(0, Math.floor(count)) };
+  return markEdited({ ...level, inventory: existing ? level.inventory.map(i => (i.templateId === templateId ? item : i)) : [...others, item] });
+};
+
+// Null goes back to the template's default length
+export const setInventoryLength = (level: Level, templateId: string, length: number | null): Level => {
+  const inventory = level.inventory.map(item => {
+    if (item.templateId !== templateId) return item;
+    const { length: _previous, ...rest } = item;
+    return length === null ? rest : { ...rest, length };
+  });
+  return markEdited({ ...level, inventory });
+};
+
+// Null frees the pre-placed component, so the player may change or remove it like one of their own
+export const setPlacedMirrorLock = (level: Level, mirrorId: string, lock: ComponentLock | null): Level => {
+  const placedMirrors = level.placedMirrors.map(mirror => {
+    if (mirror.id !== mirrorId) return mirror;
+    const { lock: _previous, ...rest } = mirror;
+    return lock === null ? rest : { ...rest, lock };
+  });
+  return markEdited({ ...level, placedMirrors });
+};
+
+export const setAbsorbingBoundaries = (level: Level, absorbing: boolean): Level => {
+  const { absorbingBoundaries: _previous, ...rest } = level;
+  return markEdited(absorbing ? { ...rest, absorbingBoundaries: true } : rest);
+};
+
+export const setMaxComponents = (level: Level, maxComponents: number): Level => {
+  return markEdited({ ...level, maxComponents: Math.max(0, Math.floor(maxComponents)) });
+};
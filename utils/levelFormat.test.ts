@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { Level } from '../types';
+import { INITIAL_PALETTE_MIRRORS, MAX_PLACED_MIRRORS } from '../constants';
+import { levelFromJson, levelToJson, parseLevelFile, serializeLevel, LevelFormatError, LEVEL_FORMAT_ID, LEVEL_FORMAT_VERSION } from './levelFormat';
+
+const source = { id: 'source', position: { x: 50, y: 300 }, initialDirection: { x: 1, y: 0 } };
+const detector = { id: 'detector', x: 700, y: 285, width: 30, height: 30, angle: 0 };
+const obstacle = { id: 'wall', shape: 'rectangle' as const, x: 300, y: 100, width: 40, height: 120 };
+const mirror = { id: 'mirror', type: 'default' as const, p1: { x: 380, y: 280 }, p2: { x: 420, y: 320 } };
+
+const level: Level = {
+  name: 'Test level',
+  sources: [source],
+  detectors: [detector],
+  obstacles: [obstacle],
+  inventory: [{ templateId: INITIAL_PALETTE_MIRRORS[0].id, count: 2 }],
+  maxComponents: 2,
+  placedMirrors: [mirror],
+};
+
+describe('level files', () => {
+  it('reads back what it writes', () => {
+    expect(levelFromJson(levelToJson(level))).toEqual(level);
+    expect(parseLevelFile(serializeLevel(level))).toEqual(level);
+  });
+
+  it('writes the current format id and version', () => {
+    expect(levelToJson(level)).toMatchObject({ format: LEVEL_FORMAT_ID, version: LEVEL_FORMAT_VERSION });
+  });
+
+  it('rejects files from a newer version of the game', () => {
+    expect(() => levelFromJson({ ...levelToJson(level), version: LEVEL_FORMAT_VERSION + 1 })).toThrow(LevelFormatError);
+  });
+
+  it('rejects files in another format', () => {
+    expect(() => levelFromJson({ ...levelToJson(level), format: 'something-else' })).toThrow(/format must be "optika-level"/);
+  });
+
+  it('names the first invalid field', () => {
+    const json = levelToJson({ ...level, detectors: [{ ...detector, angle: 45 }] });
+    expect(() => levelFromJson(json)).toThrow(/detectors\[0\]\.angle/);
+  });
+
+  it('reports text that is not JSON', () => {
+    expect(() => parseLevelFile('{ not json')).toThrow(/not valid JSON/);
+  });
+});
+
+describe('migrating version 1 files', () => {
+  // The React state the game kept before the format existed
+  const v1File = {
+    version: 1,
+    trackedLaserSources: [{ id: source.id, source, laserPath: [] }],
+    detectors: [detector],
+    obstacles: [obstacle],
+    placedMirrors: [mirror],
+  };
+
+  it('takes the sources out of the tracked laser sources', () => {
+    const migrated = levelFromJson(v1File);
+    expect(migrated.sources).toEqual([source]);
+    expect(migrated.detectors).toEqual([detector]);
+    expect(migrated.obstacles).toEqual([obstacle]);
+    expect(migrated.placedMirrors).toEqual([mirror]);
+  });
+
+  it('allows every component up to the old global cap', () => {
+    const migrated = levelFromJson(v1File);
+    expect(migrated.maxComponents).toBe(MAX_PLACED_MIRRORS);
+    expect(migrated.inventory.map(item => item.templateId)).toEqual(INITIAL_PALETTE_MIRRORS.map(t => t.id));
+  });
+
+  it('reports a version 1 file without its sources', () => {
+    expect(() => levelFromJson({ ...v1File, trackedLaserSources: undefined })).toThrow(/trackedLaserSources/);
+  });
+});
+
+describe('migrating version 2 files', () => {
+  const v2File = {
+    format: LEVEL_FORMAT_ID,
+    version: 2,
+    sources: [source],
+    detectors: [detector],
+    obstacles: [obstacle],
+    palette: { components: ['pm1', 'pm-bs'], maxComponents: 3 },
+  };
+
+  it('gives each allowed component as many as the cap', () => {
+    const migrated = levelFromJson(v2File);
+    expect(migrated.inventory).toEqual([{ templateId: 'pm1', count: 3 }, { templateId: 'pm-bs', count: 3 }]);
+    expect(migrated.maxComponents).toBe(3);
+  });
+
+  it('reports a palette without its cap before migrating it', () => {
+    expect(() => levelFromJson({ ...v2File, palette: { components: ['pm1'] } })).toThrow(/palette\.maxComponents/);
+  });
+});
+
+describe('level components', () => {
+  it('keeps their locks', () => {
+    const locked = { ...level, placedMirrors: [{ ...mirror, lock: 'rotate-only' as const }] };
+    expect(levelFromJson(levelToJson(locked)).placedMirrors[0].lock).toBe('rotate-only');
+  });
+
+  it('leaves them out of the cap on placed components', () => {
+    const placedMirrors = [mirror, { ...mirror, id: 'pivot', lock: 'locked' as const }];
+    expect(() => levelFromJson(levelToJson({ ...level, maxComponents: 1, placedMirrors }))).not.toThrow();
+    expect(() => levelFromJson(levelToJson({ ...level, maxComponents: 0, placedMirrors }))).toThrow(/palette\.maxComponents is 0/);
+  });
+});
@@ -0,0 +1,364 @@
+import type { Point, PlacedMirror, Obstacle, ObstacleMaterial, DetectorType, LaserSource, MirrorType, Level, StarThresholds, InventoryItem } from '../types';
+import { INITIAL_PALETTE_MIRRORS, MAX_PLACED_MIRRORS } from '../constants';
+import { isConvexPolygon, isSimplePolygon } from './geometry';
+import { COMPONENT_LOCKS, getPlayerComponents } from './componentLocks';
+
+// On-disk level format.
+//
+// Version 1 files are snapshots of the React state a level lived in before the format existed:
+//   { version: 1, obstacles, detectors, trackedLaserSources: [{ id, source, laserPath }], placedMirrors }
+// Version 2 adds the allowed palette, the component limit and optional metadata:
+//   { format: 'optika-level', version: 2, name?, seed?, sources, detectors, obstacles, absorbingBoundaries?,
+//     palette: { components: string[], maxComponents: number }, placedMirrors?, solution?,
+//     starThresholds?: { twoStars: number, threeStars: number } }
+// Version 3 replaces the list of allowed components with an inventory: how many of each, and how long:
+//   palette: { items: [{ component: string, count: number, length?: number }], maxComponents: number }
+// and lets each of placedMirrors carry a lock ('locked' | 'no-rotate' | 'rotate-only'), making it part of the level.
+//
+// Older files are migrated forward one version at a time before validation.
+
+export const LEVEL_FORMAT_ID = 'optika-level';
+export const LEVEL_FORMAT_VERSION = 3;
+
+export class LevelFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LevelFormatError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const MIRROR_TYPES: MirrorType[] = ['default', 'beam-splitter', 'diffraction-grating', 'glass-slab', 'prism', 'glass-polygon', 'dichroic', 'color-filter',
+  'polarizer', 'half-wave-plate', 'polarizing-beam-splitter', 'concave-mirror', 'convex-mirror', 'converging-lens', 'diverging-lens'];
+const DETECTOR_ANGLES = [0, 90, 180, 270];
+const OBSTACLE_MATERIALS: ObstacleMaterial[] = ['absorbing', 'mirrored', 'diffuse', 'glass'];
+
+// Each entry upgrades a file from version `key` to version `key + 1`.
+const MIGRATIONS: Record<number, (file: JsonObject) => JsonObject> = {
+  1: (file) => {
+    const trackedLaserSources = expectArray(file.trackedLaserSources, 'trackedLaserSources');
+    return {
+      format: LEVEL_FORMAT_ID,
+      version: 2,
+      sources: trackedLaserSources.map((tracked, i) => expectObject(tracked, `trackedLaserSources[${i}]`).source),
+      detectors: file.detectors,
+      obstacles: file.obstacles,
+      palette: { components: INITIAL_PALETTE_MIRRORS.map(t => t.id), maxComponents: MAX_PLACED_MIRRORS },
+      placedMirrors: file.placedMirrors ?? [],
+    };
+  },
+  // Every allowed component could be used up to the cap
+  2: (file) => {
+    const palette = expectObject(file.palette, 'palette');
+    const components = expectArray(palette.components, 'palette.components');
+    const maxComponents = expectNumber(palette.maxComponents, 'palette.maxComponents');
+    return {
+      ...file,
+      version: 3,
+      palette: { items: components.map(component => ({ component, count: maxComponents })), maxComponents },
+    };
+  },
+};
+
+const isObject = (value: unknown): value is JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const expectObject = (value: unknown, path: string): JsonObject => {
+  if (!isObject(value)) throw new LevelFormatError(`${path} must be an object.`);
+  return value;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw new LevelFormatError(`${path} must be an array.`);
+  return value;
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new LevelFormatError(`${path} must be a finite number.`);
+  return value;
+};
+
+const expectPositiveNumber = (value: unknown, path: string): number => {
+  const num = expectNumber(value, path);
+  if (num <= 0) throw new LevelFormatError(`${path} must be greater than 0.`);
+  return num;
+};
+
+const expectWavelength = (value: unknown, path: string): number => {
+  const num = expectNumber(value, path);
+  if (num < 380 || num > 780) throw new LevelFormatError(`${path} must be a visible wavelength between 380 and 780 nm (got ${num}).`);
+  return num;
+};
+
+const expectFraction = (value: unknown, path: string): number => {
+  const num = expectNumber(value, path);
+  if (num < 0 || num > 1) throw new LevelFormatError(`${path} must be between 0 and 1 (got ${num}).`);
+  return num;
+};
+
+const expectAngle = (value: unknown, path: string): number => {
+  const num = expectNumber(value, path);
+  if (num < 0 || num >= 180) throw new LevelFormatError(`${path} must be an angle from 0 up to (not including) 180 degrees (got ${num}).`);
+  return num;
+};
+
+const expectBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw new LevelFormatError(`${path} must be true or false.`);
+  return value;
+};
+
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string' || value.length === 0) throw new LevelFormatError(`${path} must be a non-empty string.`);
+  return value;
+};
+
+const expectOneOf = <T,>(value: unknown, allowed: readonly T[], path: string): T => {
+  if (!allowed.includes(value as T)) {
+    throw new LevelFormatError(`${path} must be one of ${allowed.map(a => JSON.stringify(a)).join(', ')} (got ${JSON.stringify(value)}).`);
+  }
+  return value as T;
+};
+
+const parsePoint = (value: unknown, path: string): Point => {
+  const obj = expectObject(value, path);
+  return { x: expectNumber(obj.x, `${path}.x`), y: expectNumber(obj.y, `${path}.y`) };
+};
+
+const parseSource = (value: unknown, path: string): LaserSource => {
+  const obj = expectObject(value, path);
+  const initialDirection = parsePoint(obj.initialDirection, `${path}.initialDirection`);
+  if (initialDirection.x === 0 && initialDirection.y === 0) {
+    throw new LevelFormatError(`${path}.initialDirection must not be the zero vector.`);
+  }
+  return {
+    id: expectString(obj.id, `${path}.id`),
+    position: parsePoint(obj.position, `${path}.position`),
+    initialDirection,
+    ...(obj.wavelength !== undefined && { wavelength: expectWavelength(obj.wavelength, `${path}.wavelength`) }),
+    ...(obj.polarization !== undefined && { polarization: expectAngle(obj.polarization, `${path}.polarization`) }),
+  };
+};
+
+const parseInventoryItem = (value: unknown, path: string): InventoryItem => {
+  const obj = expectObject(value, path);
+  const templateId = expectString(obj.component, `${path}.component`);
+  if (!INITIAL_PALETTE_MIRRORS.some(t => t.id === templateId)) {
+    throw new LevelFormatError(`${path}.component refers to unknown component "${templateId}". Known components: ${INITIAL_PALETTE_MIRRORS.map(t => t.id).join(', ')}.`);
+  }
+  const count = expectNumber(obj.count, `${path}.count`);
+  if (!Number.isInteger(count) || count < 0) throw new LevelFormatError(`${path}.count must be a non-negative integer.`);
+  return {
+    templateId,
+    count,
+    ...(obj.length !== undefined && { length: expectPositiveNumber(obj.length, `${path}.length`) }),
+  };
+};
+
+const parseStarThresholds = (value: unknown, path: string): StarThresholds => {
+  const obj = expectObject(value, path);
+  const twoStars = expectPositiveNumber(obj.twoStars, `${path}.twoStars`);
+  const threeStars = expectPositiveNumber(obj.threeStars, `${path}.threeStars`);
+  if (threeStars < twoStars) throw new LevelFormatError(`${path}.threeStars must not be below ${path}.twoStars.`);
+  return { twoStars, threeStars };
+};
+
+const parseDetector = (value: unknown, path: string): DetectorType => {
+  const obj = expectObject(value, path);
+  return {
+    id: expectString(obj.id, `${path}.id`),
+    x: expectNumber(obj.x, `${path}.x`),
+    y: expectNumber(obj.y, `${path}.y`),
+    width: expectPositiveNumber(obj.width, `${path}.width`),
+    height: expectPositiveNumber(obj.height, `${path}.height`),
+    angle: expectOneOf(obj.angle, DETECTOR_ANGLES, `${path}.angle`),
+    ...(obj.requiredWavelengths !== undefined && { requiredWavelengths: parseRequiredWavelengths(obj.requiredWavelengths, `${path}.requiredWavelengths`) }),
+    ...(obj.minPower !== undefined && { minPower: expectFraction(obj.minPower, `${path}.minPower`) }),
+    ...(obj.requiredPolarization !== undefined && { requiredPolarization: expectAngle(obj.requiredPolarization, `${path}.requiredPolarization`) }),
+  };
+};
+
+const parseRequiredWavelengths = (value: unknown, path: string): number[] => {
+  const wavelengths = parseList(value, path, expectWavelength);
+  if (wavelengths.length === 0) throw new LevelFormatError(`${path} must list at least one wavelength; leave it out to accept any light.`);
+  return wavelengths;
+};
+
+const parseObstacle = (value: unknown, path: string): Obstacle => {
+  const obj = expectObject(value, path);
+  const id = expectString(obj.id, `${path}.id`);
+  const shape = expectOneOf(obj.shape, ['line', 'rectangle', 'circle', 'polygon'] as const, `${path}.shape`);
+  const material = obj.material === undefined ? {} : { material: expectOneOf(obj.material, OBSTACLE_MATERIALS, `${path}.material`) };
+  switch (shape) {
+    case 'line':
+      return { id, shape, p1: parsePoint(obj.p1, `${path}.p1`), p2: parsePoint(obj.p2, `${path}.p2`), ...material };
+    case 'rectangle':
+      return {
+        id, shape,
+        x: expectNumber(obj.x, `${path}.x`),
+        y: expectNumber(obj.y, `${path}.y`),
+        width: expectPositiveNumber(obj.width, `${path}.width`),
+        height: expectPositiveNumber(obj.height, `${path}.height`),
+        ...(obj.rotation === undefined ? {} : { rotation: expectNumber(obj.rotation, `${path}.rotation`) }),
+        ...material,
+      };
+    case 'circle':
+      return {
+        id, shape,
+        cx: expectNumber(obj.cx, `${path}.cx`),
+        cy: expectNumber(obj.cy, `${path}.cy`),
+        radius: expectPositiveNumber(obj.radius, `${path}.radius`),
+        ...material,
+      };
+    case 'polygon': {
+      const points = parseList(obj.points, `${path}.points`, parsePoint);
+      if (!isSimplePolygon(points)) throw new LevelFormatError(`${path}.points must describe a polygon with at least 3 corners whose edges do not cross.`);
+      return { id, shape, points, ...material };
+    }
+  }
+};
+
+const parseOutline = (value: unknown, path: string): Point[] => {
+  const outline = parseList(value, path, parsePoint);
+  if (!isConvexPolygon(outline)) throw new LevelFormatError(`${path} must be a convex polygon with at least 3 corners.`);
+  return outline;
+};
+
+const parseMirror = (value: unknown, path: string): PlacedMirror => {
+  const obj = expectObject(value, path);
+  const mirror: PlacedMirror = {
+    id: expectString(obj.id, `${path}.id`),
+    p1: parsePoint(obj.p1, `${path}.p1`),
+    p2: parsePoint(obj.p2, `${path}.p2`),
+    type: expectOneOf(obj.type, MIRROR_TYPES, `${path}.type`),
+  };
+  if (obj.refractiveIndex !== undefined) {
+    const refractiveIndex = expectNumber(obj.refractiveIndex, `${path}.refractiveIndex`);
+    if (refractiveIndex < 1) throw new LevelFormatError(`${path}.refractiveIndex must be at least 1.`);
+    mirror.refractiveIndex = refractiveIndex;
+  }
+  if (obj.outline !== undefined) mirror.outline = parseOutline(obj.outline, `${path}.outline`);
+  if (obj.cutoffWavelength !== undefined) mirror.cutoffWavelength = expectWavelength(obj.cutoffWavelength, `${path}.cutoffWavelength`);
+  if (obj.passWavelength !== undefined) mirror.passWavelength = expectWavelength(obj.passWavelength, `${path}.passWavelength`);
+  if (obj.splitRatio !== undefined) mirror.splitRatio = expectFraction(obj.splitRatio, `${path}.splitRatio`);
+  if (obj.axisAngle !== undefined) mirror.axisAngle = expectAngle(obj.axisAngle, `${path}.axisAngle`);
+  if (obj.focalLength !== undefined) mirror.focalLength = expectPositiveNumber(obj.focalLength, `${path}.focalLength`);
+  if (obj.templateId !== undefined) mirror.templateId = expectString(obj.templateId, `${path}.templateId`);
+  if (obj.lock !== undefined) mirror.lock = expectOneOf(obj.lock, COMPONENT_LOCKS, `${path}.lock`);
+  return mirror;
+};
+
+const parseList = <T,>(value: unknown, path: string, parseItem: (item: unknown, itemPath: string) => T): T[] => {
+  return expectArray(value, path).map((item, i) => parseItem(item, `${path}[${i}]`));
+};
+
+const ensureUniqueIds = (items: { id: string }[], path: string) => {
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.id)) throw new LevelFormatError(`${path} contains the id "${item.id}" more than once.`);
+    seen.add(item.id);
+  }
+};
+
+const migrateToCurrentVersion = (file: JsonObject): JsonObject => {
+  const version = expectNumber(file.version, 'version');
+  if (!Number.isInteger(version) || version < 1) {
+    throw new LevelFormatError(`version must be a positive integer (got ${version}).`);
+  }
+  if (version > LEVEL_FORMAT_VERSION) {
+    throw new LevelFormatError(`This level was saved in format version ${version}, but this game only understands up to version ${LEVEL_FORMAT_VERSION}.`);
+  }
+  let migrated = file;
+  for (let v = version; v < LEVEL_FORMAT_VERSION; v++) {
+    migrated = MIGRATIONS[v](migrated);
+  }
+  return migrated;
+};
+
+// Validates an already-parsed JSON value and converts it into a Level, migrating older versions.
+// Throws LevelFormatError describing the first problem found.
+export const levelFromJson = (json: unknown): Level => {
+  const file = migrateToCurrentVersion(expectObject(json, 'Level file'));
+  if (file.format !== LEVEL_FORMAT_ID) {
+    throw new LevelFormatError(`format must be "${LEVEL_FORMAT_ID}" (got ${JSON.stringify(file.format)}).`);
+  }
+
+  const sources = parseList(file.sources, 'sources', parseSource);
+  const detectors = parseList(file.detectors, 'detectors', parseDetector);
+  const obstacles = parseList(file.obstacles, 'obstacles', parseObstacle);
+  const placedMirrors = file.placedMirrors === undefined ? [] : parseList(file.placedMirrors, 'placedMirrors', parseMirror);
+  const solution = file.solution === undefined ? undefined : parseList(file.solution, 'solution', parseMirror);
+
+  if (sources.length === 0) throw new LevelFormatError('sources must contain at least one laser source.');
+  if (detectors.length === 0) throw new LevelFormatError('detectors must contain at least one detector.');
+  ensureUniqueIds(sources, 'sources');
+  ensureUniqueIds(detectors, 'detectors');
+  ensureUniqueIds(obstacles, 'obstacles');
+  ensureUniqueIds(placedMirrors, 'placedMirrors');
+
+  const palette = expectObject(file.palette, 'palette');
+  const inventory = parseList(palette.items, 'palette.items', parseInventoryItem);
+  const seenTemplateIds = new Set<string>();
+  inventory.forEach(({ templateId }, i) => {
+    if (seenTemplateIds.has(templateId)) throw new LevelFormatError(`palette.items[${i}] lists "${templateId}" again; each component may appear once.`);
+    seenTemplateIds.add(templateId);
+  });
+  const maxComponents = expectNumber(palette.maxComponents, 'palette.maxComponents');
+  if (!Number.isInteger(maxComponents) || maxComponents < 0) {
+    throw new LevelFormatError('palette.maxComponents must be a non-negative integer.');
+  }
+  const playerComponentCount = getPlayerComponents(placedMirrors).length;
+  if (playerComponentCount > maxComponents) {
+    throw new LevelFormatError(`placedMirrors has ${playerComponentCount} unlocked components but palette.maxComponents is ${maxComponents}.`);
+  }
+
+  return {
+    name: file.name === undefined ? undefined : expectString(file.name, 'name'),
+    seed: file.seed === undefined ? undefined : expectString(file.seed, 'seed'),
+    sources,
+    detectors,
+    obstacles,
+    ...(file.absorbingBoundaries !== undefined && { absorbingBoundaries: expectBoolean(file.absorbingBoundaries, 'absorbingBoundaries') }),
+    inventory,
+    maxComponents,
+    placedMirrors,
+    solution,
+    ...(file.starThresholds !== undefined && { starThresholds: parseStarThresholds(file.starThresholds, 'starThresholds') }),
+  };
+};
+
+// Parses the text of a level file. Throws LevelFormatError for invalid JSON or an invalid level.
+export const parseLevelFile = (text: string): Level => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new LevelFormatError(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+  return levelFromJson(json);
+};
+
+export const levelToJson = (level: Level): JsonObject => {
+  return {
+    format: LEVEL_FORMAT_ID,
+    version: LEVEL_FORMAT_VERSION,
+    ...(level.name !== undefined && { name: level.name }),
+    ...(level.seed !== undefined && { seed: level.seed }),
+    sources: level.sources,
+    detectors: level.detectors,
+    obstacles: level.obstacles,
+    ...(level.absorbingBoundaries && { absorbingBoundaries: true }),
+    palette: {
+      items: level.inventory.map(item => ({ component: item.templateId, count: item.count, ...(item.length !== undefined && { length: item.length }) })),
+      maxComponents: level.maxComponents,
+    },
+    ...(level.placedMirrors.length > 0 && { placedMirrors: level.placedMirrors }),
+    ...(level.solution !== undefined && { solution: level.solution }),
+    ...(level.starThresholds !== undefined && { starThresholds: level.starThresholds }),
+  };
+};
+
+export const serializeLevel = (level: Level): string => {
+  return JSON.stringify(levelToJson(level), null, 2);
+};
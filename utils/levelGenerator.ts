@@ -0,0 +1,255 @@
+import type { Point, Obstacle, DetectorType, LaserSource, PlacedMirror, Level } from '../types';
+import {
+    GAME_WIDTH, GAME_HEIGHT, DETECTOR_WIDTH, DETECTOR_HEIGHT, MAX_DETECTECTORS, MAX_LASER_SOURCES,
+    SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT, OBSTACLE_COLLISION_BUFFER, GAME_BOUNDARY_PADDING,
+    MIN_OBSTACLE_LINE_LENGTH, OBSTACLE_LINE_LENGTH_VARIANCE,
+    MIN_OBSTACLE_DIMENSION, MAX_OBSTACLE_DIMENSION_VARIANCE,
+    MIN_OBSTACLE_RADIUS, MAX_OBSTACLE_RADIUS_VARIANCE,
+    ROTATED_RECTANGLE_CHANCE, MIN_OBSTACLE_POLYGON_RADIUS, MAX_OBSTACLE_POLYGON_RADIUS_VARIANCE,
+    MIN_POLYGON_VERTICES, MAX_POLYGON_VERTICES, POLYGON_MIN_RADIUS_FRACTION,
+    MAX_PLACED_MIRRORS, INITIAL_PALETTE_MIRRORS, MAX_LEVEL_GENERATION_ATTEMPTS, DETECTOR_APPROACH_CLEARANCE,
+    GENERATED_OBSTACLE_MATERIAL_WEIGHTS, ABSORBING_BOUNDARIES_CHANCE
+} from '../constants';
+import { normalizeVector, scaleVector, distance, getObstacleVertices, doItemsOverlap, findClosestIntersection } from './geometry';
+import { getDetectorEntryDirection } from './simulation';
+import { solveLevel, type SolverScene, type SolverOptions } from './solver';
+import { createFullPaletteInventory } from './inventory';
+import { createSeededRandom, randomInt, pickRandom, pickWeighted, type RandomGenerator } from './random';
+
+// Seeds are only meaningful to the generator that consumed them: bump this whenever a change makes the same
+// seed yield a different board, so links and records made with the old boards can be told apart.
+// 1: the original generator. 2: obstacle materials and absorbing edges. 3: rotated rectangles and polygon obstacles.
+export const GENERATOR_VERSION = 3;
+
+// Generates the sources, detectors and obstacles of a level, together with a proven solution.
+// Every random choice is drawn from the seeded generator, so the same seed always yields the same level.
+// Boards the solver cannot crack are first repaired by clearing the space in front of each detector,
+// and rejected if that is not enough.
+export const generateLevel = (seed: string): Level => {
+    const random = createSeededRandom(seed);
+    let candidate: SolverScene = { sources: [], detectors: [], obstacles: [] };
+
+    for (let attempt = 0; attempt < MAX_LEVEL_GENERATION_ATTEMPTS; attempt++) {
+        const sources = generateSources(random);
+        const detectors = generateDetectors(random, sources.length);
+        const obstacles = generateObstacles(random, sources, detectors);
+        const absorbingBoundaries = random() < ABSORBING_BOUNDARIES_CHANCE;
+        candidate = { sources, detectors, obstacles, ...(absorbingBoundaries && { absorbingBoundaries }) };
+
+        const solution = solveLevel(candidate, SOLVER_OPTIONS);
+        if (solution) return createLevel(seed, candidate, solution);
+
+        const repaired = { ...candidate, obstacles: clearDetectorApproaches(candidate.detectors, candidate.obstacles) };
+        const repairedSolution = solveLevel(repaired, SOLVER_OPTIONS);
+        if (repairedSolution) return createLevel(seed, repaired, repairedSolution);
+    }
+
+    // Last resort: obstacle-free boards with reflective edges, dropping detectors until the remaining ones can be lit
+    for (let attempt = 0; attempt < MAX_LEVEL_GENERATION_ATTEMPTS; attempt++) {
+        const sources = generateSources(random);
+        const detectors = generateDetectors(random, sources.length);
+        while (detectors.length > 0) {
+            candidate = { sources, detectors: [...detectors], obstacles: [] };
+            const solution = solveLevel(candidate, SOLVER_OPTIONS);
+            if (solution) return createLevel(seed, candidate, solution);
+            detectors.pop();
+        }
+    }
+    // No proven solution: the empty solution tells callers so
+    return createLevel(seed, candidate, []);
+};
+
+const createLevel = (seed: string, scene: SolverScene, solution: PlacedMirror[]): Level => ({
+    seed,
+    ...scene,
+    inventory: createFullPaletteInventory(MAX_PLACED_MIRRORS),
+    maxComponents: MAX_PLACED_MIRRORS,
+    placedMirrors: [],
+    solution,
+});
+
+const SOLVER_OPTIONS: SolverOptions = { templates: INITIAL_PALETTE_MIRRORS, maxComponents: MAX_PLACED_MIRRORS };
+
+// Removes obstacles that sit in the corridor light has to travel through to enter a detector.
+const clearDetectorApproaches = (detectors: DetectorType[], obstacles: Obstacle[]): Obstacle[] => {
+    return obstacles.filter(obstacle => !detectors.some(detector => {
+        const detectorCenter = { x: detector.x + detector.width / 2, y: detector.y + detector.height / 2 };
+        const approachDirection = scaleVector(getDetectorEntryDirection(detector), -1);
+        const hit = findClosestIntersection(detectorCenter, approachDirection, [], [obstacle], []);
+        return hit !== null && hit.type === 'obstacle' && hit.distance < DETECTOR_APPROACH_CLEARANCE;
+    }));
+};
+
+const generateSources = (random: RandomGenerator): LaserSource[] => {
+    const numSourcesToGenerate = 1 + randomInt(random, MAX_LASER_SOURCES);
+    const tempNewSources: LaserSource[] = [];
+    const availableSourceEdges: ('left' | 'top' | 'bottom')[] = ['left', 'top', 'bottom'];
+    const usedSourcePositions: Point[] = [];
+
+    for (let i = 0; i < numSourcesToGenerate; i++) {
+        const sourceId = `source-${i}`;
+        let sourcePos: Point;
+        let sourceInitialDirection: Point;
+
+        const sourceEdge = pickRandom(random, availableSourceEdges);
+        let attempts = 0;
+        do {
+            const randomY = GAME_BOUNDARY_PADDING + SOURCE_EMITTER_HEIGHT / 2 + random() * (GAME_HEIGHT - 2 * GAME_BOUNDARY_PADDING - SOURCE_EMITTER_HEIGHT);
+            const randomX = GAME_BOUNDARY_PADDING + SOURCE_EMITTER_HEIGHT / 2 + random() * (GAME_WIDTH - 2 * GAME_BOUNDARY_PADDING - SOURCE_EMITTER_HEIGHT);
+
+            let directions: Point[];
+            switch(sourceEdge) {
+                case 'top':
+                    sourcePos = { x: randomX, y: GAME_BOUNDARY_PADDING + SOURCE_EMITTER_WIDTH / 2 };
+                    directions = [{x:0, y:1}, {x:0.707, y:0.707}, {x:-0.707, y:0.707}];
+                    break;
+                case 'bottom':
+                    sourcePos = { x: randomX, y: GAME_HEIGHT - (GAME_BOUNDARY_PADDING + SOURCE_EMITTER_WIDTH / 2) };
+                    directions = [{x:0, y:-1}, {x:0.707, y:-0.707}, {x:-0.707, y:-0.707}];
+                    break;
+                case 'left':
+                default:
+                    sourcePos = { x: GAME_BOUNDARY_PADDING + SOURCE_EMITTER_WIDTH / 2, y: randomY };
+                    directions = [{x:1, y:0}, {x:0.707, y:0.707}, {x:0.707, y:-0.707}];
+                    break;
+            }
+            sourceInitialDirection = normalizeVector(pickRandom(random, directions));
+            attempts++;
+        } while (usedSourcePositions.some(p => distance(p, sourcePos) < Math.max(SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT) * 1.5) && attempts < 10);
+        usedSourcePositions.push(sourcePos);
+        tempNewSources.push({ id: sourceId, position: sourcePos, initialDirection: sourceInitialDirection });
+    }
+    return tempNewSources;
+};
+
+const generateDetectors = (random: RandomGenerator, numSources: number): DetectorType[] => {
+    let numDetectorsToGenerate = numSources + 1;
+    if (numDetectorsToGenerate < MAX_DETECTECTORS) {
+        const maxCanAdd = MAX_DETECTECTORS - numDetectorsToGenerate;
+        numDetectorsToGenerate += randomInt(random, maxCanAdd + 1);
+    }
+    numDetectorsToGenerate = Math.min(MAX_DETECTECTORS, numDetectorsToGenerate);
+    numDetectorsToGenerate = Math.max(numSources + 1, numDetectorsToGenerate);
+
+    const tempNewDetectors: DetectorType[] = [];
+    const availableDetectorEdges: ('right' | 'top' | 'bottom')[] = ['right', 'top', 'bottom'];
+    const usedDetectorPositions: Point[] = [];
+
+    for (let i = 0; i < numDetectorsToGenerate; i++) {
+        const detectorId = `detector-${i}`;
+        let detectorPos: Point;
+        const detectorEdge = pickRandom(random, availableDetectorEdges);
+        let attempts = 0;
+        do {
+            const randomYDet = GAME_BOUNDARY_PADDING + DETECTOR_HEIGHT/2 + random() * (GAME_HEIGHT - 2 * GAME_BOUNDARY_PADDING - DETECTOR_HEIGHT);
+            const randomXDet = GAME_BOUNDARY_PADDING + DETECTOR_WIDTH/2 + random() * (GAME_WIDTH - 2* GAME_BOUNDARY_PADDING - DETECTOR_WIDTH);
+            switch(detectorEdge) {
+                case 'top':
+                    detectorPos = { x: randomXDet, y: GAME_BOUNDARY_PADDING };
+                    break;
+                case 'bottom':
+                    detectorPos = { x: randomXDet, y: GAME_HEIGHT - GAME_BOUNDARY_PADDING - DETECTOR_HEIGHT };
+                    break;
+                case 'right':
+                default:
+                    detectorPos = { x: GAME_WIDTH - GAME_BOUNDARY_PADDING - DETECTOR_WIDTH, y: randomYDet };
+                    break;
+            }
+            attempts++;
+        } while (usedDetectorPositions.some(p => distance(p, {x: detectorPos.x + DETECTOR_WIDTH/2, y: detectorPos.y + DETECTOR_HEIGHT/2 }) < DETECTOR_HEIGHT * 1.5) && attempts < 10);
+        usedDetectorPositions.push({x: detectorPos.x + DETECTOR_WIDTH/2, y: detectorPos.y + DETECTOR_HEIGHT/2 });
+
+        let detectorAngle: number;
+        switch(detectorEdge) {
+            case 'top': detectorAngle = 270; break;
+            case 'bottom': detectorAngle = 90; break;
+            case 'right': default: detectorAngle = 0; break;
+        }
+        tempNewDetectors.push({
+            id: detectorId,
+            x: detectorPos.x,
+            y: detectorPos.y,
+            width: DETECTOR_WIDTH,
+            height: DETECTOR_HEIGHT,
+            angle: detectorAngle
+        });
+    }
+    return tempNewDetectors;
+};
+
+const arePointsOnBoard = (points: Point[]): boolean => points.every(p => (
+    p.x >= GAME_BOUNDARY_PADDING && p.x <= GAME_WIDTH - GAME_BOUNDARY_PADDING && p.y >= GAME_BOUNDARY_PADDING && p.y <= GAME_HEIGHT - GAME_BOUNDARY_PADDING
+));
+
+const generateObstacles = (random: RandomGenerator, sources: LaserSource[], detectors: DetectorType[]): Obstacle[] => {
+    const newObstaclesList: Obstacle[] = [];
+    const numObstaclesToGenerate = 10 + randomInt(random, 11);
+    const MAX_ATTEMPTS_PER_OBSTACLE = 20;
+
+    const itemsToAvoidCollisionWith: (Obstacle | LaserSource | DetectorType)[] = [];
+    sources.forEach(s => itemsToAvoidCollisionWith.push(s));
+    detectors.forEach(d => itemsToAvoidCollisionWith.push(d));
+
+    const obsPlacementXMin = GAME_BOUNDARY_PADDING + Math.max(SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT) + 30;
+    const obsPlacementXMax = GAME_WIDTH - (GAME_BOUNDARY_PADDING + DETECTOR_WIDTH + 30);
+    const obsPlacementYMin = GAME_BOUNDARY_PADDING + Math.max(SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT) + 30;
+    const obsPlacementYMax = GAME_HEIGHT - (GAME_BOUNDARY_PADDING + Math.max(SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT) + 30);
+
+    for (let i = 0; i < numObstaclesToGenerate; i++) {
+        for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_OBSTACLE; attempt++) {
+            let candidateObstacle: Obstacle;
+            const shapeOptions: Obstacle['shape'][] = ['line', 'rectangle', 'circle', 'polygon'];
+            const shape = pickRandom(random, shapeOptions);
+            const id = `obs-${i}`;
+
+            if (shape === 'line') {
+                let p1: Point, p2: Point; let lineAttempts = 0;
+                do {
+                    p1 = { x: obsPlacementXMin + random() * (obsPlacementXMax - obsPlacementXMin), y: obsPlacementYMin + random() * (obsPlacementYMax - obsPlacementYMin) };
+                    const angle = random() * 2 * Math.PI; const length = MIN_OBSTACLE_LINE_LENGTH + random() * OBSTACLE_LINE_LENGTH_VARIANCE;
+                    p2 = { x: p1.x + Math.cos(angle) * length, y: p1.y + Math.sin(angle) * length };
+                    lineAttempts++;
+                } while ((p2.x < GAME_BOUNDARY_PADDING || p2.x > GAME_WIDTH - GAME_BOUNDARY_PADDING || p2.y < GAME_BOUNDARY_PADDING || p2.y > GAME_HEIGHT - GAME_BOUNDARY_PADDING || p1.x < GAME_BOUNDARY_PADDING || p1.x > GAME_WIDTH - GAME_BOUNDARY_PADDING || p1.y < GAME_BOUNDARY_PADDING || p1.y > GAME_HEIGHT - GAME_BOUNDARY_PADDING) && lineAttempts < 10);
+                if (lineAttempts === 10) continue;
+                p1.x = Math.max(GAME_BOUNDARY_PADDING, Math.min(GAME_WIDTH - GAME_BOUNDARY_PADDING, p1.x)); p1.y = Math.max(GAME_BOUNDARY_PADDING, Math.min(GAME_HEIGHT - GAME_BOUNDARY_PADDING, p1.y));
+                p2.x = Math.max(GAME_BOUNDARY_PADDING, Math.min(GAME_WIDTH - GAME_BOUNDARY_PADDING, p2.x)); p2.y = Math.max(GAME_BOUNDARY_PADDING, Math.min(GAME_HEIGHT - GAME_BOUNDARY_PADDING, p2.y));
+                if (distance(p1, p2) < MIN_OBSTACLE_LINE_LENGTH / 2) continue;
+                candidateObstacle = { id, shape: 'line', p1, p2 };
+            } else if (shape === 'rectangle') {
+                const width = MIN_OBSTACLE_DIMENSION + random() * MAX_OBSTACLE_DIMENSION_VARIANCE; const height = MIN_OBSTACLE_DIMENSION + random() * MAX_OBSTACLE_DIMENSION_VARIANCE;
+                const x = obsPlacementXMin + random() * (obsPlacementXMax - obsPlacementXMin - width); const y = obsPlacementYMin + random() * (obsPlacementYMax - obsPlacementYMin - height);
+                const rotation = random() < ROTATED_RECTANGLE_CHANCE ? random() * 180 : 0;
+                candidateObstacle = { id, shape: 'rectangle', x, y, width, height, ...(rotation !== 0 && { rotation }) };
+                if (!arePointsOnBoard(getObstacleVertices(candidateObstacle))) continue;
+            } else if (shape === 'polygon') {
+                // Corners at increasing angles around the center never cross, so the polygon is simple;
+                // pulling some corners in makes it concave.
+                const radius = MIN_OBSTACLE_POLYGON_RADIUS + random() * MAX_OBSTACLE_POLYGON_RADIUS_VARIANCE;
+                const center = { x: obsPlacementXMin + random() * (obsPlacementXMax - obsPlacementXMin), y: obsPlacementYMin + random() * (obsPlacementYMax - obsPlacementYMin) };
+                const vertexCount = MIN_POLYGON_VERTICES + randomInt(random, MAX_POLYGON_VERTICES - MIN_POLYGON_VERTICES + 1);
+                const startAngle = random() * 2 * Math.PI;
+                const points = Array.from({ length: vertexCount }, (_, k) => {
+                    const angle = startAngle + (k + 0.3 + random() * 0.4) * 2 * Math.PI / vertexCount;
+                    const cornerRadius = radius * (POLYGON_MIN_RADIUS_FRACTION + random() * (1 - POLYGON_MIN_RADIUS_FRACTION));
+                    return { x: center.x + Math.cos(angle) * cornerRadius, y: center.y + Math.sin(angle) * cornerRadius };
+                });
+                if (!arePointsOnBoard(points)) continue;
+                candidateObstacle = { id, shape: 'polygon', points };
+            } else {
+                const radius = MIN_OBSTACLE_RADIUS + random() * MAX_OBSTACLE_RADIUS_VARIANCE;
+                const cx = obsPlacementXMin + radius + random() * (Math.max(0, obsPlacementXMax - obsPlacementXMin - 2 * radius)); const cy = obsPlacementYMin + radius + random() * (Math.max(0, obsPlacementYMax - obsPlacementYMin - 2 * radius));
+                if (cx - radius < GAME_BOUNDARY_PADDING || cx + radius > GAME_WIDTH - GAME_BOUNDARY_PADDING || cy - radius < GAME_BOUNDARY_PADDING || cy + radius > GAME_HEIGHT - GAME_BOUNDARY_PADDING) continue;
+                candidateObstacle = {id, shape: 'circle', cx, cy, radius};
+            }
+
+            const material = pickWeighted(random, GENERATED_OBSTACLE_MATERIAL_WEIGHTS);
+            if (material !== 'absorbing') candidateObstacle = { ...candidateObstacle, material };
+
+            const isOverlapping = itemsToAvoidCollisionWith.some(existingItem => (
+                doItemsOverlap(candidateObstacle, existingItem, SOURCE_EMITTER_WIDTH, SOURCE_EMITTER_HEIGHT, OBSTACLE_COLLISION_BUFFER)
+            ));
+            if (!isOverlapping) { newObstaclesList.push(candidateObstacle); itemsToAvoidCollisionWith.push(candidateObstacle); break; }
+        }
+    }
+    return newObstaclesList;
+};
@@ -0,0 +1,90 @@
+import type { Point, PlacedMirror, PaletteMirrorTemplate } from '../types';
+import { COMPONENT_MIN_LENGTH, COMPONENT_MAX_LENGTH } from '../constants';
+import { addPoints, subtractPoints, scaleVector, distance, getSegmentMidpoint } from './geometry';
+
+// Placing components from palette templates and setting their center, angle and length exactly.
+// Angles are in degrees clockwise from pointing right, measured along p1 -> p2.
+
+export interface LengthLimits {
+  min: number;
+  max: number;
+}
+
+// Components placed before they recorded their template fall back to the first template of their type.
+export const getTemplateForMirror = (mirror: PlacedMirror, templates: PaletteMirrorTemplate[]): PaletteMirrorTemplate | undefined =>
+  templates.find(t => t.id === mirror.templateId) ?? templates.find(t => t.type === mirror.type);
+
+export const getLengthLimits = (template: PaletteMirrorTemplate | undefined): LengthLimits => ({
+  min: template?.minLength ?? COMPONENT_MIN_LENGTH,
+  max: template?.maxLength ?? COMPONENT_MAX_LENGTH,
+});
+
+export const clampLength = (length: number, limits: LengthLimits): number => Math.min(limits.max, Math.max(limits.min, length));
+
+const segmentAround = (center: Point, angleDegrees: number, length: number): { p1: Point; p2: Point } => {
+  const angle = angleDegrees * Math.PI / 180;
+  const halfAxis = scaleVector({ x: Math.cos(angle), y: Math.sin(angle) }, length / 2);
+  return { p1: subtractPoints(center, halfAxis), p2: addPoints(center, halfAxis) };
+};
+
+export const createMirrorFromTemplate = (
+  template: PaletteMirrorTemplate,
+  id: string,
+  center: Point,
+  angleDegrees: number = template.defaultAngle ?? 0,
+  length: number = template.defaultLength
+): PlacedMirror => ({
+  id,
+  ...segmentAround(center, angleDegrees, clampLength(length, getLengthLimits(template))),
+  type: template.type,
+  templateId: template.id,
+  ...(template.refractiveIndex !== undefined && { refractiveIndex: template.refractiveIndex }),
+  ...(template.outline && { outline: template.outline }),
+  ...(template.cutoffWavelength !== undefined && { cutoffWavelength: template.cutoffWavelength }),
+  ...(template.passWavelength !== undefined && { passWavelength: template.passWavelength }),
+  ...(template.splitRatio !== undefined && { splitRatio: template.splitRatio }),
+  ...(template.axisAngle !== undefined && { axisAngle: template.axisAngle }),
+  ...(template.focalLength !== undefined && { focalLength: template.focalLength }),
+});
+
+// Angle of the p1-p2 segment in whole degrees, in [0, 360).
+export const getMirrorAngle = (mirror: PlacedMirror): number => {
+  const { x, y } = subtractPoints(mirror.p2, mirror.p1);
+  return ((Math.round(Math.atan2(y, x) * 180 / Math.PI) % 360) + 360) % 360;
+};
+
+// Unrounded, so that setting one value never nudges the others.
+const getExactAngle = (mirror: PlacedMirror): number => {
+  const { x, y } = subtractPoints(mirror.p2, mirror.p1);
+  return Math.atan2(y, x) * 180 / Math.PI;
+};
+
+export const setMirrorCenter = (mirror: PlacedMirror, center: Point): PlacedMirror => {
+  const delta = subtractPoints(center, getSegmentMidpoint(mirror));
+  return { ...mirror, p1: addPoints(mirror.p1, delta), p2: addPoints(mirror.p2, delta) };
+};
+
+export const setMirrorAngle = (mirror: PlacedMirror, angleDegrees: number): PlacedMirror => ({
+  ...mirror,
+  ...segmentAround(getSegmentMidpoint(mirror), angleDegrees, distance(mirror.p1, mirror.p2)),
+});
+
+export const setMirrorLength = (mirror: PlacedMirror, length: number, limits: LengthLimits): PlacedMirror => ({
+  ...mirror,
+  ...segmentAround(getSegmentMidpoint(mirror), getExactAngle(mirror), clampLength(length, limits)),
+});
+
+// Swaps a component for another template in the same spot, keeping its id, center and angle.
+export const replaceMirrorTemplate = (mirror: PlacedMirror, template: PaletteMirrorTemplate): PlacedMirror =>
+  createMirrorFromTemplate(template, mirror.id, getSegmentMidpoint(mirror), getExactAngle(mirror), distance(mirror.p1, mirror.p2));
+
+// Endpoint drag in resize mode: the other end stays put and the dragged end follows the pointer,
+// within the component's length limits.
+export const resizeFromEndpoint = (mirror: PlacedMirror, pointType: 'p1' | 'p2', pointer: Point, limits: LengthLimits): PlacedMirror => {
+  const fixedPoint = pointType === 'p1' ? mirror.p2 : mirror.p1;
+  const offset = subtractPoints(pointer, fixedPoint);
+  const offsetLength = Math.hypot(offset.x, offset.y);
+  if (offsetLength < 0.001) return mirror;
+  const draggedPoint = addPoints(fixedPoint, scaleVector(offset, clampLength(offsetLength, limits) / offsetLength));
+  return { ...mirror, [pointType]: draggedPoint };
+};
@@ -0,0 +1,32 @@
+import type { PlacedMirror } from '../types';
+import { POLARIZER_DEFAULT_AXIS_ANGLE } from '../constants';
+
+// Linear polarization is an angle in degrees within [0, 180), measured across the beam:
+// 0 is perpendicular to the board ("s"), 90 lies in the plane of the board ("p").
+// null stands for unpolarized light.
+export type Polarization = number | null;
+
+export const normalizePolarization = (angle: number): number => ((angle % 180) + 180) % 180;
+
+export const getAxisAngle = (mirror: PlacedMirror): number => mirror.axisAngle ?? POLARIZER_DEFAULT_AXIS_ANGLE;
+
+// Share of the power that passes an ideal analyzer along axisAngle (Malus's law; half for unpolarized light).
+export const malusFactor = (polarization: Polarization, axisAngle: number): number => {
+  if (polarization === null) return 0.5;
+  const delta = (polarization - axisAngle) * Math.PI / 180;
+  return Math.cos(delta) ** 2;
+};
+
+// A half-wave plate mirrors the polarization about its fast axis, i.e. rotates it by twice their difference.
+export const rotateByHalfWavePlate = (polarization: Polarization, fastAxisAngle: number): Polarization => {
+  return polarization === null ? null : normalizePolarization(2 * fastAxisAngle - polarization);
+};
+
+// A polarizing beam splitter transmits the p component (90) and reflects the s component (0).
+export const PBS_TRANSMITTED_POLARIZATION = 90;
+export const PBS_REFLECTED_POLARIZATION = 0;
+
+export const getPolarizationName = (polarization: Polarization): string => {
+  if (polarization === null) return 'unpolarized';
+  return `${Math.round(normalizePolarization(polarization))}° polarized`;
+};
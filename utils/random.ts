@@ -0,0 +1,55 @@
+// Seeded pseudo-random number generation so that a level seed always reproduces the same board.
+
+export type RandomGenerator = () => number; // Returns a float in [0, 1), like Math.random
+
+// Turns a numeric or string seed into a 32-bit unsigned integer.
+// Purely numeric seeds map to themselves so that 42 and "42" produce the same level.
+export const hashSeed = (seed: string | number): number => {
+  const seedString = String(seed).trim();
+  if (/^\d+$/.test(seedString)) {
+    return Number(BigInt(seedString) % 4294967296n);
+  }
+  // FNV-1a hash for arbitrary strings
+  let hash = 2166136261;
+  for (let i = 0; i < seedString.length; i++) {
+    hash ^= seedString.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for level layouts.
+export const createSeededRandom = (seed: string | number): RandomGenerator => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomInt = (random: RandomGenerator, maxExclusive: number): number => {
+  return Math.floor(random() * maxExclusive);
+};
+
+export const pickRandom = <T,>(random: RandomGenerator, items: T[]): T => {
+  return items[randomInt(random, items.length)];
+};
+
+// A fresh seed for the "new level" action. Kept short so it is easy to read out and type in.
+export const generateRandomSeed = (): string => {
+  return Math.floor(Math.random() * 1000000000).toString();
+};
+
+// Picks an item with probability proportional to its weight.
+export const pickWeighted = <T,>(random: RandomGenerator, entries: [T, number][]): T => {
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let remaining = random() * totalWeight;
+  for (const [item, weight] of entries) {
+    remaining -= weight;
+    if (remaining < 0) return item;
+  }
+  return entries[entries.length - 1][0];
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import type { LaserSegment, Level } from '../types';
+import {
+  SCORE_SOLVE_BASE, SCORE_PER_UNUSED_COMPONENT, SCORE_BEAM_LENGTH_BONUS, SCORE_BEAM_LENGTH_PX_PER_POINT,
+  SCORE_INTERACTION_BONUS, SCORE_PER_INTERACTION, SCORE_TIME_BONUS, SCORE_TIME_MS_PER_POINT, DEFAULT_STAR_THRESHOLDS
+} from '../constants';
+import { scoreSolvedBoard, getStarRating, getPersonalBestKey, isBetterScore, formatSolveTime } from './scoring';
+import { GENERATOR_VERSION } from './levelGenerator';
+
+const segment = (x1: number, x2: number): LaserSegment => ({ start: { x: x1, y: 300 }, end: { x: x2, y: 300 } });
+
+const level: Level = { sources: [], detectors: [], obstacles: [], inventory: [], maxComponents: 3, placedMirrors: [] };
+
+describe('scoring a solve', () => {
+  it('adds the bonuses for spare components, a short simple beam and a quick solve', () => {
+    const score = scoreSolvedBoard({ componentsUsed: 1, maxComponents: 3, laserPaths: [[segment(0, 300), segment(300, 500)]], solveTimeMs: 10_000 });
+    expect(score.score).toBe(
+      SCORE_SOLVE_BASE
+      + 2 * SCORE_PER_UNUSED_COMPONENT
+      + (SCORE_BEAM_LENGTH_BONUS - 500 / SCORE_BEAM_LENGTH_PX_PER_POINT)
+      + (SCORE_INTERACTION_BONUS - SCORE_PER_INTERACTION)
+      + (SCORE_TIME_BONUS - 10_000 / SCORE_TIME_MS_PER_POINT)
+    );
+    expect(score).toMatchObject({ componentsUsed: 1, maxComponents: 3, beamLength: 500, interactions: 1, solveTimeMs: 10_000 });
+  });
+
+  it('never takes more than a bonus is worth', () => {
+    const score = scoreSolvedBoard({ componentsUsed: 3, maxComponents: 3, laserPaths: [[segment(0, 100_000)]], solveTimeMs: 3_600_000 });
+    expect(score.score).toBe(SCORE_SOLVE_BASE + SCORE_INTERACTION_BONUS);
+  });
+
+  it('rates stars by the level thresholds, or the defaults', () => {
+    const thresholds = { twoStars: 1000, threeStars: 2000 };
+    expect(getStarRating(999, thresholds)).toBe(1);
+    expect(getStarRating(1000, thresholds)).toBe(2);
+    expect(getStarRating(2000, thresholds)).toBe(3);
+    expect(getStarRating(DEFAULT_STAR_THRESHOLDS.threeStars)).toBe(3);
+  });
+});
+
+describe('personal bests', () => {
+  it('files campaign levels by level id', () => {
+    expect(getPersonalBestKey({ ...level, seed: 'abc' }, 'mirrors-1')).toBe('campaign:mirrors-1');
+  });
+
+  it('files generated levels by seed and generator version', () => {
+    expect(getPersonalBestKey({ ...level, seed: 'abc' }, null)).toBe(`seed:${GENERATOR_VERSION}:abc`);
+  });
+
+  it('keeps no best for boards without a seed', () => {
+    expect(getPersonalBestKey(level, null)).toBeNull();
+  });
+
+  it('only replaces a best with a higher score', () => {
+    const best = scoreSolvedBoard({ componentsUsed: 1, maxComponents: 3, laserPaths: [[segment(0, 500)]], solveTimeMs: 10_000 });
+    const slower = scoreSolvedBoard({ componentsUsed: 1, maxComponents: 3, laserPaths: [[segment(0, 500)]], solveTimeMs: 20_000 });
+    expect(isBetterScore(best, undefined)).toBe(true);
+    expect(isBetterScore(slower, best)).toBe(false);
+    expect(isBetterScore(best, slower)).toBe(true);
+    expect(isBetterScore(best, best)).toBe(false);
+  });
+
+  it('shows solve times as minutes and seconds', () => {
+    expect(formatSolveTime(65_400)).toBe('1:05');
+    expect(formatSolveTime(0)).toBe('0:00');
+  });
+});
@@ -0,0 +1,77 @@
+import type { LaserSegment, Level, LevelScore, StarThresholds } from '../types';
+import {
+  SCORE_SOLVE_BASE, SCORE_PER_UNUSED_COMPONENT, SCORE_BEAM_LENGTH_BONUS, SCORE_BEAM_LENGTH_PX_PER_POINT,
+  SCORE_INTERACTION_BONUS, SCORE_PER_INTERACTION, SCORE_TIME_BONUS, SCORE_TIME_MS_PER_POINT,
+  DEFAULT_STAR_THRESHOLDS, PERSONAL_BESTS_STORAGE_KEY
+} from '../constants';
+import { distance } from './geometry';
+import { readStoredJson, writeStoredJson } from './storage';
+import { GENERATOR_VERSION } from './levelGenerator';
+
+// Scores a solved board: fewer components, shorter and simpler beam paths and a quicker solve are all
+// worth points on top of the base score for solving. Stars come from the level's thresholds.
+
+export interface SolvedBoard {
+  componentsUsed: number;
+  maxComponents: number;
+  laserPaths: LaserSegment[][]; // One path per source
+  solveTimeMs: number;
+}
+
+const bonus = (maximum: number, penalty: number): number => Math.max(0, Math.round(maximum - penalty));
+
+export const getStarRating = (score: number, thresholds: StarThresholds = DEFAULT_STAR_THRESHOLDS): number => {
+  if (score >= thresholds.threeStars) return 3;
+  if (score >= thresholds.twoStars) return 2;
+  return 1;
+};
+
+export const scoreSolvedBoard = (board: SolvedBoard, thresholds?: StarThresholds): LevelScore => {
+  const segments = board.laserPaths.flat();
+  const beamLength = segments.reduce((sum, segment) => sum + distance(segment.start, segment.end), 0);
+  const interactions = Math.max(0, segments.length - board.laserPaths.length); // Every segment after a source's first starts at an interaction
+  const score = SCORE_SOLVE_BASE
+    + SCORE_PER_UNUSED_COMPONENT * Math.max(0, board.maxComponents - board.componentsUsed)
+    + bonus(SCORE_BEAM_LENGTH_BONUS, beamLength / SCORE_BEAM_LENGTH_PX_PER_POINT)
+    + bonus(SCORE_INTERACTION_BONUS, interactions * SCORE_PER_INTERACTION)
+    + bonus(SCORE_TIME_BONUS, board.solveTimeMs / SCORE_TIME_MS_PER_POINT);
+  return {
+    score,
+    stars: getStarRating(score, thresholds),
+    componentsUsed: board.componentsUsed,
+    maxComponents: board.maxComponents,
+    beamLength: Math.round(beamLength),
+    interactions,
+    solveTimeMs: board.solveTimeMs,
+  };
+};
+
+// Personal bests are kept per campaign level and per seed and generator version, since a new generator
+// builds a different board from the same seed. Other boards (imported, shared or edited) have nothing
+// stable to file them under, so they are not kept.
+export const getPersonalBestKey = (level: Level, campaignLevelId: string | null): string | null => {
+  if (campaignLevelId) return `campaign:${campaignLevelId}`;
+  if (level.seed) return `seed:${GENERATOR_VERSION}:${level.seed}`;
+  return null;
+};
+
+export const isBetterScore = (score: LevelScore, best: LevelScore | undefined): boolean => {
+  return !best || score.score > best.score;
+};
+
+export const loadPersonalBests = (): Record<string, LevelScore> => {
+  const stored = readStoredJson(PERSONAL_BESTS_STORAGE_KEY);
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return {};
+  return Object.fromEntries(Object.entries(stored).filter(([, best]) => (
+    typeof best === 'object' && best !== null && typeof best.score === 'number' && typeof best.stars === 'number'
+  ))) as Record<string, LevelScore>;
+};
+
+export const savePersonalBests = (bests: Record<string, LevelScore>): void => {
+  writeStoredJson(PERSONAL_BESTS_STORAGE_KEY, bests);
+};
+
+export const formatSolveTime = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { Level, PlacedMirror } from '../types';
+import { encodeShareHash, decodeShareHash, resolveSharedComponents, ShareLinkError, SHARE_LINK_VERSION } from './shareLink';
+import { GENERATOR_VERSION } from './levelGenerator';
+
+const level: Level = {
+  name: 'Shared level',
+  sources: [{ id: 'source', position: { x: 50, y: 300 }, initialDirection: { x: 1, y: 0 }, wavelength: 532 }],
+  detectors: [{ id: 'detector', x: 700, y: 285, width: 30, height: 30, angle: 0 }],
+  obstacles: [{ id: 'wall', shape: 'circle', cx: 400, cy: 150, radius: 40, material: 'mirrored' }],
+  inventory: [{ templateId: 'pm1', count: 2 }, { templateId: 'pm-bs-70', count: 1 }],
+  maxComponents: 2,
+  placedMirrors: [{ id: 'pivot', type: 'default', p1: { x: 280, y: 300 }, p2: { x: 320, y: 300 }, lock: 'rotate-only' }],
+  solution: [{ id: 'solution-0', type: 'default', p1: { x: 100, y: 100 }, p2: { x: 180, y: 100 } }],
+};
+
+const pivotTurned: PlacedMirror = { ...level.placedMirrors[0], p1: { x: 300, y: 280 }, p2: { x: 300, y: 320 } };
+const splitter: PlacedMirror = { id: 'a', type: 'beam-splitter', p1: { x: 500.12345, y: 200 }, p2: { x: 560, y: 260 }, splitRatio: 0.7, templateId: 'pm-bs-70' };
+
+// Builds a hash from a hand-written payload, for links this version of the game would not make
+const hashOf = (payload: unknown): string => `#share=${btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+
+describe('share link round trips', () => {
+  it('shares generated levels by their seed', () => {
+    const hash = encodeShareHash({ ...level, seed: 'abc' }, []);
+    expect(decodeShareHash(hash)).toEqual({ kind: 'seed', seed: 'abc', placedMirrors: [] });
+  });
+
+  it('shares other levels in full, without their solution', () => {
+    const shared = decodeShareHash(encodeShareHash(level, []));
+    expect(shared?.kind).toBe('level');
+    if (shared?.kind !== 'level') return;
+    expect(shared.level).toEqual({ ...level, solution: undefined });
+  });
+
+  it('carries the placed components with their extras and locks, to three decimals', () => {
+    const shared = decodeShareHash(encodeShareHash(level, [pivotTurned, splitter]));
+    expect(shared?.placedMirrors).toEqual([
+      { ...pivotTurned, id: 'shared-0' },
+      { ...splitter, id: 'shared-1', p1: { x: 500.123, y: 200 } },
+    ]);
+  });
+
+  it('ignores hashes without a board', () => {
+    expect(decodeShareHash('')).toBeNull();
+    expect(decodeShareHash('#something=else')).toBeNull();
+  });
+});
+
+describe('broken share links', () => {
+  it('reports links cut off when copied', () => {
+    expect(() => decodeShareHash(encodeShareHash(level, []).slice(0, 40))).toThrow(ShareLinkError);
+  });
+
+  it('reports links from another link version', () => {
+    expect(() => decodeShareHash(hashOf({ v: SHARE_LINK_VERSION + 1, seed: 'abc' }))).toThrow(/incompatible version/);
+  });
+
+  it('reports seeds from another level generator', () => {
+    expect(() => decodeShareHash(hashOf({ v: SHARE_LINK_VERSION, seed: 'abc' }))).toThrow(/level generator/);
+    expect(() => decodeShareHash(hashOf({ v: SHARE_LINK_VERSION, seed: 'abc', g: GENERATOR_VERSION }))).not.toThrow();
+  });
+
+  it('reports malformed components', () => {
+    expect(() => decodeShareHash(hashOf({ v: SHARE_LINK_VERSION, seed: 'abc', g: GENERATOR_VERSION, m: [[0, 1, 2]] }))).toThrow(/Placed component 1/);
+  });
+});
+
+describe('shared components', () => {
+  it('gives the level its own components back under their ids', () => {
+    expect(resolveSharedComponents(level, [{ ...pivotTurned, id: 'shared-0' }, splitter]).map(m => m.id)).toEqual(['pivot', 'a']);
+  });
+
+  it('rejects level components moved further than their lock allows', () => {
+    const moved = { ...pivotTurned, p1: { x: 350, y: 280 }, p2: { x: 350, y: 320 } };
+    expect(() => resolveSharedComponents(level, [moved])).toThrow(/lock/);
+  });
+
+  it('rejects level components the level does not have', () => {
+    expect(() => resolveSharedComponents(level, [pivotTurned, { ...splitter, lock: 'locked' }])).toThrow(/own components/);
+  });
+
+  it('rejects more of an item than the inventory gives', () => {
+    expect(() => resolveSharedComponents(level, [pivotTurned, splitter, { ...splitter, id: 'b' }])).toThrow(/only gives 1/);
+  });
+
+  it('rejects components the level does not offer', () => {
+    const grating: PlacedMirror = { id: 'g', type: 'diffraction-grating', p1: { x: 100, y: 100 }, p2: { x: 180, y: 100 } };
+    expect(() => resolveSharedComponents(level, [pivotTurned, grating])).toThrow(/doesn't offer/);
+  });
+
+  it('checks values the way level files are checked', () => {
+    expect(() => resolveSharedComponents(level, [pivotTurned, { ...splitter, splitRatio: 1.5 }])).toThrow(/splitRatio/);
+  });
+});
@@ -0,0 +1,234 @@
+import type { PlacedMirror, MirrorType, Level, ComponentLock } from '../types';
+import { levelFromJson, levelToJson, LevelFormatError } from './levelFormat';
+import { isConvexPolygon } from './geometry';
+import { COMPONENT_LOCKS, isLevelComponent, isReachableWithinLock, getPlayerComponents } from './componentLocks';
+import { getInventoryTemplates } from './inventory';
+import { getTemplateForMirror } from './placement';
+import { GENERATOR_VERSION } from './levelGenerator';
+
+// Share links carry a board (and optionally the player's components) in the URL hash:
+//   #share=<base64url(JSON)>
+// where the JSON payload is { v, seed, g } for generated levels or { v, level } for any other board,
+// plus an optional compact list of placed components: m: [[typeCode, x1, y1, x2, y2, extras?], ...],
+// where extras is { n?, o?, c?, w?, r?, a?, f?, t?, l? }: a glass body's refractive index and outline,
+// a dichroic mirror's cutoff wavelength, a color filter's pass wavelength, a beam splitter's split ratio,
+// a polarizer's or wave plate's axis angle, a curved component's focal length, the palette template
+// the component came from and a level component's lock, when the component has them.
+// g is the GENERATOR_VERSION that turned the seed into the board; links without one predate it and are version 1.
+
+export const SHARE_LINK_VERSION = 1;
+const SHARE_HASH_KEY = 'share';
+const COORDINATE_PRECISION = 1000; // Three decimals keeps beams identical without bloating the link
+
+const MIRROR_TYPE_CODES: MirrorType[] = ['default', 'beam-splitter', 'diffraction-grating', 'glass-slab', 'prism', 'glass-polygon', 'dichroic', 'color-filter',
+  'polarizer', 'half-wave-plate', 'polarizing-beam-splitter', 'concave-mirror', 'convex-mirror', 'converging-lens', 'diverging-lens'];
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+export type SharedBoard =
+  | { kind: 'seed'; seed: string; placedMirrors: PlacedMirror[] }
+  | { kind: 'level'; level: Level; placedMirrors: PlacedMirror[] };
+
+interface CompactExtras {
+  n?: number;
+  o?: [number, number][];
+  c?: number;
+  w?: number;
+  r?: number;
+  a?: number;
+  f?: number;
+  t?: string;
+  l?: ComponentLock;
+}
+
+type CompactMirror = [number, number, number, number, number] | [number, number, number, number, number, CompactExtras];
+
+const roundCoordinate = (value: number): number => Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION;
+
+// Rounds every number in a JSON value so that the encoded link stays short.
+const roundNumbers = (value: unknown): unknown => {
+  if (typeof value === 'number') return roundCoordinate(value);
+  if (Array.isArray(value)) return value.map(roundNumbers);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, roundNumbers(v)]));
+  }
+  return value;
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+const compactMirror = (mirror: PlacedMirror): CompactMirror => {
+  const compact: CompactMirror = [
+    MIRROR_TYPE_CODES.indexOf(mirror.type),
+    roundCoordinate(mirror.p1.x), roundCoordinate(mirror.p1.y),
+    roundCoordinate(mirror.p2.x), roundCoordinate(mirror.p2.y),
+  ];
+  const extras: CompactExtras = {
+    ...(mirror.refractiveIndex !== undefined && { n: mirror.refractiveIndex }),
+    ...(mirror.outline && { o: mirror.outline.map(v => [roundCoordinate(v.x), roundCoordinate(v.y)] as [number, number]) }),
+    ...(mirror.cutoffWavelength !== undefined && { c: mirror.cutoffWavelength }),
+    ...(mirror.passWavelength !== undefined && { w: mirror.passWavelength }),
+    ...(mirror.splitRatio !== undefined && { r: mirror.splitRatio }),
+    ...(mirror.axisAngle !== undefined && { a: mirror.axisAngle }),
+    ...(mirror.focalLength !== undefined && { f: mirror.focalLength }),
+    ...(mirror.templateId !== undefined && { t: mirror.templateId }),
+    ...(mirror.lock !== undefined && { l: mirror.lock }),
+  };
+  return Object.keys(extras).length > 0 ? [...compact, extras] : compact;
+};
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+const expandExtras = (value: unknown, index: number): Pick<PlacedMirror, 'refractiveIndex' | 'outline' | 'cutoffWavelength' | 'passWavelength' | 'splitRatio' | 'axisAngle' | 'focalLength' | 'templateId' | 'lock'> => {
+  if (value === undefined) return {};
+  const { n, o, c, w, r, a, f, t, l } = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const isValid = typeof value === 'object' && value !== null &&
+                  (n === undefined || (isFiniteNumber(n) && n >= 1)) &&
+                  (o === undefined || (Array.isArray(o) && o.every(v => Array.isArray(v) && v.length === 2 && v.every(isFiniteNumber)))) &&
+                  (c === undefined || isFiniteNumber(c)) &&
+                  (w === undefined || isFiniteNumber(w)) &&
+                  (r === undefined || (isFiniteNumber(r) && r >= 0 && r <= 1)) &&
+                  (a === undefined || isFiniteNumber(a)) &&
+                  (f === undefined || (isFiniteNumber(f) && f > 0)) &&
+                  (t === undefined || typeof t === 'string') &&
+                  (l === undefined || COMPONENT_LOCKS.includes(l as ComponentLock));
+  if (!isValid) throw new ShareLinkError(`Placed component ${index + 1} in the link is malformed.`);
+  const outline = (o as [number, number][] | undefined)?.map(([x, y]) => ({ x, y }));
+  if (outline && !isConvexPolygon(outline)) throw new ShareLinkError(`Placed component ${index + 1} in the link is malformed.`);
+  return {
+    ...(n !== undefined && { refractiveIndex: n as number }),
+    ...(outline && { outline }),
+    ...(c !== undefined && { cutoffWavelength: c as number }),
+    ...(w !== undefined && { passWavelength: w as number }),
+    ...(r !== undefined && { splitRatio: r as number }),
+    ...(a !== undefined && { axisAngle: a as number }),
+    ...(f !== undefined && { focalLength: f as number }),
+    ...(t !== undefined && { templateId: t as string }),
+    ...(l !== undefined && { lock: l as ComponentLock }),
+  };
+};
+
+const expandMirrors = (value: unknown): PlacedMirror[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new ShareLinkError('The placed components in the link are malformed.');
+  return value.map((entry, i) => {
+    const isValid = Array.isArray(entry) && (entry.length === 5 || entry.length === 6) &&
+                    entry.slice(0, 5).every(isFiniteNumber) &&
+                    MIRROR_TYPE_CODES[entry[0]] !== undefined;
+    if (!isValid) throw new ShareLinkError(`Placed component ${i + 1} in the link is malformed.`);
+    const [typeCode, x1, y1, x2, y2, extras] = entry as [number, number, number, number, number, unknown];
+    return { id: `shared-${i}`, type: MIRROR_TYPE_CODES[typeCode], p1: { x: x1, y: y1 }, p2: { x: x2, y: y2 }, ...expandExtras(extras, i) };
+  });
+};
+
+// Builds the URL hash for a board. Generated levels are shared by seed alone.
+export const encodeShareHash = (level: Level, placedMirrors: PlacedMirror[]): string => {
+  const payload = {
+    v: SHARE_LINK_VERSION,
+    ...(level.seed !== undefined ? { seed: level.seed, g: GENERATOR_VERSION } : { level: roundNumbers(levelToJson({ ...level, solution: undefined })) }),
+    ...(placedMirrors.length > 0 && { m: placedMirrors.map(compactMirror) }),
+  };
+  return `#${SHARE_HASH_KEY}=${toBase64Url(JSON.stringify(payload))}`;
+};
+
+// Returns null when the hash holds no share payload at all.
+// Throws ShareLinkError when it does but the payload is corrupt or from an incompatible version.
+export const decodeShareHash = (hash: string): SharedBoard | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(SHARE_HASH_KEY);
+  if (encoded === null) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new ShareLinkError('The link is corrupt or was cut off when it was copied.');
+  }
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new ShareLinkError('The link does not contain a board.');
+  }
+
+  const { v, seed, g = 1, level, m } = payload as Record<string, unknown>;
+  if (v !== SHARE_LINK_VERSION) {
+    throw new ShareLinkError(`The link was made by an incompatible version of the game (link version ${JSON.stringify(v)}, expected ${SHARE_LINK_VERSION}).`);
+  }
+  const placedMirrors = expandMirrors(m);
+
+  if (typeof seed === 'string' && seed.length > 0) {
+    if (g !== GENERATOR_VERSION) {
+      throw new ShareLinkError(`The link's board was made by a different version of the level generator (generator version ${JSON.stringify(g)}, expected ${GENERATOR_VERSION}), so its seed no longer rebuilds it.`);
+    }
+    return { kind: 'seed', seed, placedMirrors };
+  }
+  if (level !== undefined) {
+    try {
+      return { kind: 'level', level: levelFromJson(level), placedMirrors };
+    } catch (error) {
+      if (error instanceof LevelFormatError) throw new ShareLinkError(`The board in the link is invalid: ${error.message}`);
+      throw error;
+    }
+  }
+  throw new ShareLinkError('The link does not contain a board.');
+};
+
+// Checks the components a link places against the level they are for, with the same checks an imported
+// file's components get, and that the board is one the player could have built: the level's own
+// components moved only as their locks allow, and no more of each inventory item than the level gives.
+// Returns the components with the level's ids restored to its own. Throws ShareLinkError otherwise.
+export const resolveSharedComponents = (level: Level, placedMirrors: PlacedMirror[]): PlacedMirror[] => {
+  try {
+    levelFromJson(levelToJson({ ...level, placedMirrors }));
+  } catch (error) {
+    if (error instanceof LevelFormatError) throw new ShareLinkError(`The components in the link are invalid: ${error.message}`);
+    throw error;
+  }
+
+  const levelComponents = level.placedMirrors.filter(isLevelComponent);
+  const sharedLevelComponents = placedMirrors.filter(isLevelComponent);
+  if (sharedLevelComponents.length !== levelComponents.length) {
+    throw new ShareLinkError(`The link has ${sharedLevelComponents.length} of the level's own components, but the level has ${levelComponents.length}.`);
+  }
+  const restoredIds = new Map<PlacedMirror, string>();
+  sharedLevelComponents.forEach((shared, i) => {
+    const original = levelComponents[i];
+    if (shared.type !== original.type || shared.lock !== original.lock || !isReachableWithinLock(original, shared)) {
+      throw new ShareLinkError(`The level's component ${i + 1} is somewhere its lock doesn't let it go.`);
+    }
+    restoredIds.set(shared, original.id);
+  });
+
+  const templates = getInventoryTemplates(level.inventory);
+  const playerComponents = getPlayerComponents(placedMirrors);
+  for (const item of level.inventory) {
+    const used = playerComponents.filter(m => getTemplateForMirror(m, templates)?.id === item.templateId).length;
+    if (used > item.count) throw new ShareLinkError(`The link places ${used} of "${item.templateId}", but the level only gives ${item.count}.`);
+  }
+  const unavailable = playerComponents.find(m => getTemplateForMirror(m, templates)?.type !== m.type);
+  if (unavailable) throw new ShareLinkError(`The link places a ${unavailable.type} component, which the level doesn't offer.`);
+
+  return placedMirrors.map(m => {
+    const id = restoredIds.get(m);
+    return id === undefined ? m : { ...m, id };
+  });
+};
+
+export const buildShareUrl = (level: Level, placedMirrors: PlacedMirror[]): string => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${encodeShareHash(level, placedMirrors)}`;
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import type { DetectorType, LaserSource, PlacedMirror, Point } from '../types';
+import { DETECTOR_ACCEPTANCE_ANGLE_DEGREES, GRATING_PERIOD_NM, DEFAULT_LASER_WAVELENGTH, MIRROR_REFLECTIVITY } from '../constants';
+import { simulate, traceSource, DEFAULT_SIMULATION_CONFIG, type InteractionNode } from './simulation';
+
+// Components are laid out on an absorbing board so that every beam ends at the first wall it reaches.
+
+const mirrorAt = (id: string, type: PlacedMirror['type'], center: Point, angleDegrees: number, extras: Partial<PlacedMirror> = {}): PlacedMirror => {
+  const angle = angleDegrees * Math.PI / 180;
+  const half = { x: Math.cos(angle) * 40, y: Math.sin(angle) * 40 };
+  return { id, type, p1: { x: center.x - half.x, y: center.y - half.y }, p2: { x: center.x + half.x, y: center.y + half.y }, ...extras };
+};
+
+const sourceAt = (position: Point, angleDegrees = 0): LaserSource => ({
+  id: 'source',
+  position,
+  initialDirection: { x: Math.cos(angleDegrees * Math.PI / 180), y: Math.sin(angleDegrees * Math.PI / 180) },
+});
+
+const traceThrough = (mirrors: PlacedMirror[], source: LaserSource = sourceAt({ x: 100, y: 300 })): InteractionNode => {
+  const { trace } = traceSource(source, { detectors: [], obstacles: [], mirrors, absorbingBoundaries: true });
+  if (!trace.root) throw new Error('The beam was not traced.');
+  return trace.root;
+};
+
+const directionOf = (node: InteractionNode): Point => {
+  const { start, end } = node.segment;
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  return { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+};
+
+const angleOf = (node: InteractionNode): number => {
+  const { x, y } = directionOf(node);
+  return Math.atan2(y, x) * 180 / Math.PI;
+};
+
+describe('flat mirror reflection', () => {
+  it('reflects at the angle of incidence', () => {
+    const root = traceThrough([mirrorAt('mirror', 'default', { x: 400, y: 300 }, 30)]);
+    expect(root.kind).toBe('mirror');
+    expect(root.children).toHaveLength(1);
+    // A beam travelling at 0 degrees off a mirror at 30 degrees leaves at 60 degrees
+    expect(angleOf(root.children[0])).toBeCloseTo(60, 6);
+  });
+
+  it('turns a beam through a right angle off a 45 degree mirror, losing the mirror reflectivity', () => {
+    const root = traceThrough([mirrorAt('mirror', 'default', { x: 400, y: 300 }, 45)]);
+    const reflected = root.children[0];
+    expect(directionOf(reflected).x).toBeCloseTo(0, 6);
+    expect(directionOf(reflected).y).toBeCloseTo(1, 6);
+    expect(reflected.power).toBeCloseTo(MIRROR_REFLECTIVITY, 6);
+  });
+});
+
+describe('beam splitter', () => {
+  it('reflects and transmits half of the beam each by default', () => {
+    const root = traceThrough([mirrorAt('splitter', 'beam-splitter', { x: 400, y: 300 }, 45)]);
+    expect(root.children).toHaveLength(2);
+    const transmitted = root.children.find(child => directionOf(child).x > 0.99);
+    const reflected = root.children.find(child => directionOf(child).y > 0.99);
+    expect(transmitted).toBeDefined();
+    expect(reflected).toBeDefined();
+    expect(transmitted!.power).toBeCloseTo(1 - DEFAULT_SIMULATION_CONFIG.splitterReflectRatio, 6);
+    expect(reflected!.power).toBeCloseTo(DEFAULT_SIMULATION_CONFIG.splitterReflectRatio, 6);
+  });
+
+  it('splits the power by the component split ratio', () => {
+    const root = traceThrough([mirrorAt('splitter', 'beam-splitter', { x: 400, y: 300 }, 45, { splitRatio: 0.3 })]);
+    const transmitted = root.children.find(child => directionOf(child).x > 0.99);
+    const reflected = root.children.find(child => directionOf(child).y > 0.99);
+    expect(reflected!.power).toBeCloseTo(0.3, 6);
+    expect(transmitted!.power).toBeCloseTo(0.7, 6);
+  });
+});
+
+describe('diffraction grating', () => {
+  it('sends the first orders out at asin(lambda / d) either side of the zeroth order', () => {
+    const root = traceThrough([mirrorAt('grating', 'diffraction-grating', { x: 400, y: 300 }, 90)]);
+    const firstOrderAngle = Math.asin(DEFAULT_LASER_WAVELENGTH / GRATING_PERIOD_NM) * 180 / Math.PI;
+    const angles = root.children.map(angleOf).sort((a, b) => a - b);
+    expect(angles).toHaveLength(3);
+    expect(angles[0]).toBeCloseTo(-firstOrderAngle, 6);
+    expect(angles[1]).toBeCloseTo(0, 6);
+    expect(angles[2]).toBeCloseTo(firstOrderAngle, 6);
+  });
+
+  it('shares the power between the orders by their weights', () => {
+    const root = traceThrough([mirrorAt('grating', 'diffraction-grating', { x: 400, y: 300 }, 90)]);
+    const { zero, first } = DEFAULT_SIMULATION_CONFIG.gratingOrderWeights;
+    const total = zero + 2 * first;
+    const zeroOrder = root.children.find(child => Math.abs(angleOf(child)) < 1e-6);
+    expect(zeroOrder!.power).toBeCloseTo(zero / total, 6);
+    expect(root.children.reduce((sum, child) => sum + child.power, 0)).toBeCloseTo(1, 6);
+  });
+});
+
+describe('detector acceptance', () => {
+  // Open to light travelling right (+x), centered at (615, 300)
+  const detector: DetectorType = { id: 'detector', x: 600, y: 285, width: 30, height: 30, angle: 0 };
+  const center = { x: 615, y: 300 };
+
+  // A source 300px away whose beam arrives at the detector's center at the given angle off its axis
+  const simulateArrivingAt = (offAxisDegrees: number) => {
+    const angle = offAxisDegrees * Math.PI / 180;
+    const position = { x: center.x - 300 * Math.cos(angle), y: center.y - 300 * Math.sin(angle) };
+    return simulate({ sources: [sourceAt(position, offAxisDegrees)], detectors: [detector], obstacles: [], mirrors: [], absorbingBoundaries: true });
+  };
+
+  it('accepts beams inside the acceptance angle', () => {
+    for (const offAxis of [0, DETECTOR_ACCEPTANCE_ANGLE_DEGREES - 2, -(DETECTOR_ACCEPTANCE_ANGLE_DEGREES - 2)]) {
+      const result = simulateArrivingAt(offAxis);
+      expect(result.detectors[0].hits.some(hit => hit.accepted)).toBe(true);
+      expect(result.allDetectorsHit).toBe(true);
+    }
+  });
+
+  it('rejects beams outside the acceptance angle', () => {
+    for (const offAxis of [DETECTOR_ACCEPTANCE_ANGLE_DEGREES + 2, -(DETECTOR_ACCEPTANCE_ANGLE_DEGREES + 2)]) {
+      const result = simulateArrivingAt(offAxis);
+      expect(result.detectors[0].hits.length).toBeGreaterThan(0);
+      expect(result.detectors[0].hits.every(hit => !hit.accepted)).toBe(true);
+      expect(result.allDetectorsHit).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,425 @@
+import type { Point, PlacedMirror, Obstacle, ObstacleMaterial, LaserSegment, DetectorType, LaserSource, BoundaryObject, MirrorType } from '../types';
+import {
+  GAME_WIDTH, GAME_HEIGHT, MAX_REFLECTIONS, DETECTOR_ACCEPTANCE_ANGLE_DEGREES, GRATING_PERIOD_NM,
+  GLASS_FRESNEL_REFLECTIONS, GLASS_FRESNEL_MIN_REFLECTANCE,
+  MIRROR_REFLECTIVITY, BOUNDARY_REFLECTIVITY, BEAM_SPLITTER_DEFAULT_REFLECT_RATIO,
+  GRATING_ZERO_ORDER_WEIGHT, GRATING_FIRST_ORDER_WEIGHT, MIN_TRACED_POWER, DETECTOR_DEFAULT_MIN_POWER,
+  GLASS_DEFAULT_REFRACTIVE_INDEX, OBSTACLE_DIFFUSE_REFLECTANCE, OBSTACLE_DIFFUSE_RAY_COUNT
+} from '../constants';
+import {
+  calculateReflection, calculateRefraction, calculateFresnelReflectance, getRefractiveIndex, calculateThinLensRefraction,
+  findClosestIntersection, createBoardBoundaries, subtractPoints, normalizeVector, addPoints, scaleVector, dotProduct
+} from './geometry';
+import { getSourceWavelength, wavelengthsMatch, isReflectedByDichroic, isPassedByFilter } from './spectrum';
+import { findClosestIntersectionIndexed, isIndexFor, type StaticSceneIndex } from './spatialIndex';
+import type { Polarization } from './polarization';
+import { getAxisAngle, malusFactor, rotateByHalfWavePlate, PBS_TRANSMITTED_POLARIZATION, PBS_REFLECTED_POLARIZATION } from './polarization';
+
+// Headless light simulation. Everything the tracer needs comes in through the scene and config,
+// so the engine runs the same in the browser, in the solver and in plain Node scripts.
+
+export interface SimulationScene {
+  sources: LaserSource[];
+  detectors: DetectorType[];
+  obstacles: Obstacle[];
+  mirrors: PlacedMirror[];
+  absorbingBoundaries?: boolean; // The board's edges stop light instead of reflecting it
+  staticIndex?: StaticSceneIndex; // Built from these obstacles and detectors; speeds up tracing without changing it
+}
+
+export interface SimulationConfig {
+  boardWidth: number;
+  boardHeight: number;
+  maxInteractions: number; // Max interactions for any single path branch
+  detectorAcceptanceAngleDegrees: number;
+  gratingPeriod: number; // Line spacing d of every diffraction grating, in nm
+  fresnelReflections: boolean; // Trace the partial reflection off glass faces as its own branch
+  fresnelMinReflectance: number; // Weaker Fresnel reflections are dropped
+  // Power is a fraction of what a source emits (1).
+  mirrorReflectivity: number; // Mirrors and the reflecting side of dichroics
+  boundaryReflectivity: number;
+  splitterReflectRatio: number; // Share a beam splitter reflects when it does not set its own splitRatio
+  gratingOrderWeights: { zero: number; first: number }; // Relative power of the zeroth and each first order
+  minRayPower: number; // Beams weaker than this are not traced any further
+  diffuseReflectance: number; // Total power a diffuse obstacle scatters, shared over its rays
+  diffuseRayCount: number;
+  obstacleRefractiveIndex: number; // Glass obstacles
+  detectorMinPower: number; // Power a detector needs when it does not set its own minPower
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  boardWidth: GAME_WIDTH,
+  boardHeight: GAME_HEIGHT,
+  maxInteractions: MAX_REFLECTIONS,
+  detectorAcceptanceAngleDegrees: DETECTOR_ACCEPTANCE_ANGLE_DEGREES,
+  gratingPeriod: GRATING_PERIOD_NM,
+  fresnelReflections: GLASS_FRESNEL_REFLECTIONS,
+  fresnelMinReflectance: GLASS_FRESNEL_MIN_REFLECTANCE,
+  mirrorReflectivity: MIRROR_REFLECTIVITY,
+  boundaryReflectivity: BOUNDARY_REFLECTIVITY,
+  splitterReflectRatio: BEAM_SPLITTER_DEFAULT_REFLECT_RATIO,
+  gratingOrderWeights: { zero: GRATING_ZERO_ORDER_WEIGHT, first: GRATING_FIRST_ORDER_WEIGHT },
+  minRayPower: MIN_TRACED_POWER,
+  diffuseReflectance: OBSTACLE_DIFFUSE_REFLECTANCE,
+  diffuseRayCount: OBSTACLE_DIFFUSE_RAY_COUNT,
+  obstacleRefractiveIndex: GLASS_DEFAULT_REFRACTIVE_INDEX,
+  detectorMinPower: DETECTOR_DEFAULT_MIN_POWER,
+};
+
+// One traced beam: the segment it travelled and what it ran into at the end.
+// Children are the beams that interaction produced (reflections, transmissions, diffraction orders).
+export interface InteractionNode {
+  segment: LaserSegment;
+  kind: 'mirror' | 'glass' | 'obstacle' | 'detector' | 'boundary' | 'escape';
+  objectId?: string; // Mirror, glass, obstacle or detector id, or the boundary name
+  mirrorType?: MirrorType;
+  obstacleMaterial?: ObstacleMaterial;
+  power: number;
+  polarization: Polarization;
+  detectorAccepted?: boolean; // Right direction and a color the detector is looking for
+  totalInternalReflection?: boolean;
+  depth: number;
+  children: InteractionNode[];
+}
+
+export interface SourceTrace {
+  sourceId: string;
+  segments: LaserSegment[];
+  root: InteractionNode | null;
+  hitDetectorIds: Set<string>; // Detectors this source entered within the acceptance angle, in a color they accept
+}
+
+export interface DetectorHit {
+  sourceId: string;
+  point: Point;
+  direction: Point;
+  wavelength: number;
+  power: number; // As counted by the detector: after its polarization analyzer, if it has one
+  polarization: Polarization;
+  accepted: boolean;
+}
+
+export interface DetectorReport {
+  detectorId: string;
+  isHit: boolean; // Enough accepted light arrived, in every required color
+  receivedPower: number; // Total power of the accepted beams
+  requiredPower: number;
+  hits: DetectorHit[]; // Every beam that reached the detector, accepted or not
+}
+
+export interface SimulationResult {
+  traces: SourceTrace[];
+  detectors: DetectorReport[];
+  hitDetectorIds: Set<string>;
+  allDetectorsHit: boolean;
+}
+
+interface PendingRay {
+  origin: Point;
+  direction: Point;
+  remainingInteractions: number;
+  power: number;
+  polarization: Polarization;
+  parent: InteractionNode | null;
+}
+
+// Direction light must travel to enter a detector through its aperture.
+export const getDetectorEntryDirection = (detector: DetectorType): Point => {
+  if (detector.angle === 0) return { x: 1, y: 0 };
+  if (detector.angle === 90) return { x: 0, y: 1 };
+  if (detector.angle === 180) return { x: -1, y: 0 };
+  return { x: 0, y: -1 };
+};
+
+export const isWithinAcceptanceAngle = (detector: DetectorType, incidentDirection: Point, acceptanceAngleDegrees: number): boolean => {
+  const dotVal = dotProduct(normalizeVector(incidentDirection), getDetectorEntryDirection(detector));
+  return dotVal > Math.cos((acceptanceAngleDegrees * Math.PI) / 180);
+};
+
+export const acceptsWavelength = (detector: DetectorType, wavelength: number): boolean => {
+  return !detector.requiredWavelengths || detector.requiredWavelengths.some(w => wavelengthsMatch(w, wavelength));
+};
+
+// Power a detector counts from a beam: all of it, or what passes its polarization analyzer.
+// Detectors that require a polarization ignore unpolarized light.
+export const getDetectedPower = (detector: DetectorType, power: number, polarization: Polarization): number => {
+  if (detector.requiredPolarization === undefined) return power;
+  if (polarization === null) return 0;
+  return power * malusFactor(polarization, detector.requiredPolarization);
+};
+
+export const getDetectorMinPower = (detector: DetectorType, config: SimulationConfig = DEFAULT_SIMULATION_CONFIG): number => {
+  return detector.minPower ?? config.detectorMinPower;
+};
+
+// A detector is lit once its minimum power has arrived through its aperture: in each color it requires,
+// or in total when it requires none.
+export const isDetectorSatisfied = (
+  detector: DetectorType,
+  acceptedHits: Pick<DetectorHit, 'wavelength' | 'power'>[],
+  minPower: number
+): boolean => {
+  const powerMatching = (wavelength?: number) => acceptedHits
+    .filter(h => wavelength === undefined || wavelengthsMatch(h.wavelength, wavelength))
+    .reduce((sum, h) => sum + h.power, 0);
+  if (acceptedHits.length === 0) return false;
+  if (!detector.requiredWavelengths) return powerMatching() >= minPower;
+  return detector.requiredWavelengths.every(required => powerMatching(required) >= minPower);
+};
+
+// Direction of a beam reflected off the flat face of a mirror, from whichever side it arrives.
+const reflectOffMirror = (rayDirection: Point, mirror: PlacedMirror): Point => {
+  const segmentVector = subtractPoints(mirror.p2, mirror.p1);
+  let surfaceNormalForReflection = normalizeVector({ x: -(segmentVector.y), y: segmentVector.x });
+  const incidentVectorForNormalCheck = scaleVector(rayDirection, -1);
+  if (dotProduct(incidentVectorForNormalCheck, surfaceNormalForReflection) < 0) {
+    surfaceNormalForReflection = scaleVector(surfaceNormalForReflection, -1);
+  }
+  return calculateReflection(rayDirection, surfaceNormalForReflection);
+};
+
+// Directions a diffuse surface scatters into, fanned out evenly around the normal on the lit side,
+// with Lambertian (cosine) weights that add up to 1.
+const scatterOffSurface = (facingNormal: Point, rayCount: number): { direction: Point; weight: number }[] => {
+  const baseAngle = Math.atan2(facingNormal.y, facingNormal.x);
+  const spread = 150 * Math.PI / 180;
+  const rays = Array.from({ length: rayCount }, (_, i) => {
+    const offset = rayCount === 1 ? 0 : -spread / 2 + spread * (i + 0.5) / rayCount;
+    return { direction: { x: Math.cos(baseAngle + offset), y: Math.sin(baseAngle + offset) }, weight: Math.cos(offset) };
+  });
+  const totalWeight = rays.reduce((sum, ray) => sum + ray.weight, 0);
+  return rays.map(ray => ({ ...ray, weight: ray.weight / totalWeight }));
+};
+
+// Outgoing directions of the first diffraction orders (m = +1, -1) of a grating hit along rayDirection,
+// for light with gratingK = lambda / d. Orders with |sin(theta_m)| > 1 are evanescent and left out.
+export const calculateDiffractionOrders = (rayDirection: Point, grating: PlacedMirror, gratingK: number): Point[] => {
+  const gratingSegmentVec = subtractPoints(grating.p2, grating.p1);
+  const N_base = normalizeVector({ x: -gratingSegmentVec.y, y: gratingSegmentVec.x });
+
+  let normal_for_incidence = N_base;
+  let angle_normal_for_incidence = Math.atan2(N_base.y, N_base.x);
+
+  const incident_dot_base_normal = dotProduct(rayDirection, N_base);
+  if (incident_dot_base_normal > 0) {
+    normal_for_incidence = scaleVector(N_base, -1);
+    angle_normal_for_incidence = Math.atan2(normal_for_incidence.y, normal_for_incidence.x);
+  }
+
+  const normal_for_diffraction = scaleVector(normal_for_incidence, -1);
+  const angle_normal_for_diffraction = Math.atan2(normal_for_diffraction.y, normal_for_diffraction.x);
+
+  const angle_incident_ray_global = Math.atan2(rayDirection.y, rayDirection.x);
+  const theta_i_signed = angle_incident_ray_global - angle_normal_for_incidence;
+
+  const directions: Point[] = [];
+  for (const m of [1, -1]) {
+    const sin_theta_m_signed = Math.sin(theta_i_signed) - m * gratingK;
+    if (Math.abs(sin_theta_m_signed) <= 1.0) {
+      const angleDiffractedRayGlobal = angle_normal_for_diffraction + Math.asin(sin_theta_m_signed);
+      directions.push(normalizeVector({ x: Math.cos(angleDiffractedRayGlobal), y: Math.sin(angleDiffractedRayGlobal) }));
+    }
+  }
+  return directions;
+};
+
+// Traces every branch of one source's beam through the scene.
+export const traceSource = (
+  source: LaserSource,
+  scene: Omit<SimulationScene, 'sources'>,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG,
+  boundaries: BoundaryObject[] = createBoardBoundaries(config.boardWidth, config.boardHeight)
+): { trace: SourceTrace; detectorHits: Array<DetectorHit & { detectorId: string }> } => {
+  const activeRays: PendingRay[] = [
+    { origin: source.position, direction: source.initialDirection, remainingInteractions: config.maxInteractions, power: 1, polarization: source.polarization ?? null, parent: null }
+  ];
+  const segments: LaserSegment[] = [];
+  const hitDetectorIds = new Set<string>();
+  const detectorHits: Array<DetectorHit & { detectorId: string }> = [];
+  const processedRayStarts = new Set<string>();
+  const wavelength = getSourceWavelength(source); // Nothing on the board shifts a beam's color
+  const staticIndex = scene.staticIndex && isIndexFor(scene.staticIndex, scene.obstacles, scene.detectors) ? scene.staticIndex : null;
+  let root: InteractionNode | null = null;
+
+  while (activeRays.length > 0) {
+    const currentRayState = activeRays.shift();
+    if (!currentRayState || currentRayState.remainingInteractions <= 0) continue;
+
+    const { origin: rayOrigin, direction: rayDirection, remainingInteractions, power, polarization, parent } = currentRayState;
+
+    const rayKey = `${rayOrigin.x.toFixed(3)},${rayOrigin.y.toFixed(3)}-${rayDirection.x.toFixed(3)},${rayDirection.y.toFixed(3)}-${remainingInteractions}-${polarization?.toFixed(1)}`;
+    if (processedRayStarts.has(rayKey)) continue;
+    processedRayStarts.add(rayKey);
+
+    const intersection = staticIndex
+      ? findClosestIntersectionIndexed(rayOrigin, rayDirection, scene.mirrors, staticIndex, boundaries)
+      : findClosestIntersection(rayOrigin, rayDirection, scene.mirrors, scene.obstacles, scene.detectors, boundaries);
+    const end = intersection
+      ? intersection.point
+      : addPoints(rayOrigin, scaleVector(rayDirection, Math.max(config.boardWidth, config.boardHeight) * 2));
+    const segment: LaserSegment = { start: rayOrigin, end, wavelength, power, polarization };
+    segments.push(segment);
+
+    const node: InteractionNode = {
+      segment,
+      kind: intersection ? intersection.type : 'escape',
+      power,
+      polarization,
+      depth: config.maxInteractions - remainingInteractions,
+      children: [],
+    };
+    if (parent) parent.children.push(node);
+    else root = node;
+
+    if (!intersection) continue;
+
+    const nextOrigin = intersection.point;
+    const spawn = (direction: Point, spawnedPower: number, spawnedPolarization: Polarization = polarization) => {
+      if (remainingInteractions - 1 > 0 && spawnedPower >= config.minRayPower) {
+        activeRays.push({
+          origin: nextOrigin, direction, remainingInteractions: remainingInteractions - 1,
+          power: spawnedPower, polarization: spawnedPolarization, parent: node
+        });
+      }
+    };
+
+    // Refraction in or out of glass through a face with this outward normal
+    const refractAtSurface = (outwardNormal: Point, glassIndex: number) => {
+      const isEntering = dotProduct(rayDirection, outwardNormal) < 0;
+      const [n1, n2] = isEntering ? [1, glassIndex] : [glassIndex, 1];
+      const refractedDir = calculateRefraction(rayDirection, outwardNormal, n1, n2);
+      if (!refractedDir) {
+        node.totalInternalReflection = true;
+        spawn(calculateReflection(rayDirection, outwardNormal), power);
+      } else if (config.fresnelReflections) {
+        const reflectance = calculateFresnelReflectance(rayDirection, outwardNormal, n1, n2);
+        spawn(refractedDir, power * (1 - reflectance));
+        if (reflectance >= config.fresnelMinReflectance) {
+          spawn(calculateReflection(rayDirection, outwardNormal), power * reflectance);
+        }
+      } else {
+        spawn(refractedDir, power);
+      }
+    };
+
+    if (intersection.type === 'detector') {
+      const hitDetector = intersection.object as DetectorType;
+      const laserIncidentDirection = normalizeVector(subtractPoints(nextOrigin, rayOrigin));
+      const detectedPower = getDetectedPower(hitDetector, power, polarization);
+      const accepted = isWithinAcceptanceAngle(hitDetector, laserIncidentDirection, config.detectorAcceptanceAngleDegrees) &&
+                       acceptsWavelength(hitDetector, wavelength) && detectedPower > 0;
+      node.objectId = hitDetector.id;
+      node.detectorAccepted = accepted;
+      detectorHits.push({ detectorId: hitDetector.id, sourceId: source.id, point: nextOrigin, direction: laserIncidentDirection, wavelength, power: detectedPower, polarization, accepted });
+      if (accepted) {
+        hitDetectorIds.add(hitDetector.id);
+      }
+    } else if (intersection.type === 'obstacle') {
+      const obstacle = intersection.object as Obstacle;
+      const material = obstacle.material ?? 'absorbing';
+      const surfaceNormal = intersection.normal as Point;
+      const facingNormal = dotProduct(rayDirection, surfaceNormal) > 0 ? scaleVector(surfaceNormal, -1) : surfaceNormal;
+      node.objectId = obstacle.id;
+      node.obstacleMaterial = material;
+
+      if (material === 'mirrored') {
+        spawn(calculateReflection(rayDirection, facingNormal), power * config.mirrorReflectivity);
+      } else if (material === 'diffuse') {
+        scatterOffSurface(facingNormal, config.diffuseRayCount)
+          .forEach(({ direction, weight }) => spawn(direction, power * config.diffuseReflectance * weight));
+      } else if (material === 'glass') {
+        if (obstacle.shape === 'line') spawn(rayDirection, power); // A thin pane does not bend the beam
+        else refractAtSurface(surfaceNormal, config.obstacleRefractiveIndex);
+      }
+      // Absorbing obstacles stop the branch
+    } else if (intersection.type === 'boundary') {
+      const boundary = intersection.object as BoundaryObject;
+      node.objectId = boundary.name;
+      if (!scene.absorbingBoundaries) {
+        spawn(calculateReflection(rayDirection, boundary.normal), power * config.boundaryReflectivity);
+      }
+    } else if (intersection.type === 'mirror') {
+      const mirror = intersection.object as PlacedMirror;
+      node.objectId = mirror.id;
+      node.mirrorType = mirror.type;
+
+      if (mirror.type === 'default') {
+        spawn(reflectOffMirror(rayDirection, mirror), power * config.mirrorReflectivity);
+      } else if (mirror.type === 'beam-splitter') {
+        const reflectRatio = mirror.splitRatio ?? config.splitterReflectRatio;
+        spawn(reflectOffMirror(rayDirection, mirror), power * reflectRatio);
+        spawn(rayDirection, power * (1 - reflectRatio));
+      } else if (mirror.type === 'diffraction-grating') {
+        // Evanescent orders carry nothing, so their share goes to the orders that do propagate
+        const firstOrders = calculateDiffractionOrders(rayDirection, mirror, wavelength / config.gratingPeriod);
+        const { zero, first } = config.gratingOrderWeights;
+        const totalWeight = zero + first * firstOrders.length;
+        spawn(rayDirection, power * zero / totalWeight); // Zeroth order passes straight through
+        firstOrders.forEach(direction => spawn(direction, power * first / totalWeight));
+      } else if (mirror.type === 'dichroic') {
+        if (isReflectedByDichroic(mirror, wavelength)) spawn(reflectOffMirror(rayDirection, mirror), power * config.mirrorReflectivity);
+        else spawn(rayDirection, power);
+      } else if (mirror.type === 'color-filter') {
+        if (isPassedByFilter(mirror, wavelength)) spawn(rayDirection, power);
+        // Other colors are absorbed
+      } else if (mirror.type === 'polarizer') {
+        const axisAngle = getAxisAngle(mirror);
+        spawn(rayDirection, power * malusFactor(polarization, axisAngle), axisAngle);
+      } else if (mirror.type === 'half-wave-plate') {
+        spawn(rayDirection, power, rotateByHalfWavePlate(polarization, getAxisAngle(mirror)));
+      } else if (mirror.type === 'polarizing-beam-splitter') {
+        spawn(rayDirection, power * malusFactor(polarization, PBS_TRANSMITTED_POLARIZATION), PBS_TRANSMITTED_POLARIZATION);
+        spawn(reflectOffMirror(rayDirection, mirror), power * malusFactor(polarization, PBS_REFLECTED_POLARIZATION), PBS_REFLECTED_POLARIZATION);
+      } else if (mirror.type === 'concave-mirror' || mirror.type === 'convex-mirror') {
+        // The arc normal points away from the center of curvature; the reflecting front is inside a concave arc
+        const outwardNormal = intersection.normal as Point;
+        const frontNormal = mirror.type === 'concave-mirror' ? scaleVector(outwardNormal, -1) : outwardNormal;
+        if (dotProduct(rayDirection, frontNormal) < 0) {
+          spawn(calculateReflection(rayDirection, frontNormal), power * config.mirrorReflectivity);
+        }
+        // The back of a curved mirror absorbs
+      } else if (mirror.type === 'converging-lens' || mirror.type === 'diverging-lens') {
+        spawn(calculateThinLensRefraction(rayDirection, nextOrigin, mirror), power);
+      }
+    } else if (intersection.type === 'glass') {
+      const glass = intersection.object as PlacedMirror;
+      node.objectId = glass.id;
+      node.mirrorType = glass.type;
+      refractAtSurface(intersection.normal as Point, getRefractiveIndex(glass));
+    }
+  }
+
+  return { trace: { sourceId: source.id, segments, root, hitDetectorIds }, detectorHits };
+};
+
+// Runs every source in the scene and reports which detectors were lit, and by what.
+export const simulate = (scene: SimulationScene, config: SimulationConfig = DEFAULT_SIMULATION_CONFIG): SimulationResult => {
+  const boundaries = createBoardBoundaries(config.boardWidth, config.boardHeight);
+  const reports = new Map<string, DetectorReport>(
+    scene.detectors.map(d => [d.id, { detectorId: d.id, isHit: false, receivedPower: 0, requiredPower: getDetectorMinPower(d, config), hits: [] }])
+  );
+  const traces = scene.sources.map(source => {
+    const { trace, detectorHits } = traceSource(source, scene, config, boundaries);
+    for (const { detectorId, ...hit } of detectorHits) {
+      reports.get(detectorId)?.hits.push(hit);
+    }
+    return trace;
+  });
+
+  // Colors may come from different sources, so detectors are judged on everything that reached them
+  const hitDetectorIds = new Set<string>();
+  for (const detector of scene.detectors) {
+    const report = reports.get(detector.id) as DetectorReport;
+    const acceptedHits = report.hits.filter(h => h.accepted);
+    report.receivedPower = acceptedHits.reduce((sum, h) => sum + h.power, 0);
+    report.isHit = isDetectorSatisfied(detector, acceptedHits, report.requiredPower);
+    if (report.isHit) hitDetectorIds.add(detector.id);
+  }
+
+  return {
+    traces,
+    detectors: [...reports.values()],
+    hitDetectorIds,
+    allDetectorsHit: scene.detectors.length > 0 && scene.detectors.every(d => hitDetectorIds.has(d.id)),
+  };
+};
@@ -0,0 +1,76 @@
+import type { Point, PlacedMirror, Obstacle, DetectorType, SnapSettings, SnapGuide } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT, ALIGNMENT_SNAP_DISTANCE } from '../constants';
+import { addPoints, subtractPoints, scaleVector, getSegmentMidpoint, getObstacleCenter } from './geometry';
+import { setMirrorCenter } from './placement';
+
+// Snapping for mirror drags. Each helper returns the snapped result together with the guides
+// GameCanvas draws to show what it snapped to.
+
+interface SnappedPoint {
+  point: Point;
+  guides: SnapGuide[];
+}
+
+const ANGLE_GUIDE_OVERHANG = 40; // How far an angle guide runs past the component's ends
+
+// Centers of everything a dragged component can line up with.
+export const getAlignmentTargets = (mirrors: PlacedMirror[], obstacles: Obstacle[], detectors: DetectorType[]): Point[] => [
+  ...mirrors.map(getSegmentMidpoint),
+  ...obstacles.map(getObstacleCenter),
+  ...detectors.map(d => ({ x: d.x + d.width / 2, y: d.y + d.height / 2 })),
+];
+
+const findAlignment = (value: number, targets: Point[], axis: 'x' | 'y'): Point | null => {
+  let best: Point | null = null;
+  for (const target of targets) {
+    const offset = Math.abs(target[axis] - value);
+    if (offset <= ALIGNMENT_SNAP_DISTANCE && (!best || offset < Math.abs(best[axis] - value))) best = target;
+  }
+  return best;
+};
+
+// Alignment wins over the grid on each axis; an axis that lines up with nothing falls onto the grid.
+export const snapPoint = (point: Point, settings: SnapSettings, targets: Point[]): SnappedPoint => {
+  const alignedX = settings.alignEnabled ? findAlignment(point.x, targets, 'x') : null;
+  const alignedY = settings.alignEnabled ? findAlignment(point.y, targets, 'y') : null;
+  const toGrid = (value: number) => (settings.gridEnabled ? Math.round(value / settings.gridSize) * settings.gridSize : value);
+  const snapped = { x: alignedX ? alignedX.x : toGrid(point.x), y: alignedY ? alignedY.y : toGrid(point.y) };
+
+  const guides: SnapGuide[] = [];
+  if (alignedX) guides.push({ kind: 'alignment', from: alignedX, to: snapped });
+  else if (settings.gridEnabled) guides.push({ kind: 'grid', from: { x: snapped.x, y: 0 }, to: { x: snapped.x, y: GAME_HEIGHT } });
+  if (alignedY) guides.push({ kind: 'alignment', from: alignedY, to: snapped });
+  else if (settings.gridEnabled) guides.push({ kind: 'grid', from: { x: 0, y: snapped.y }, to: { x: GAME_WIDTH, y: snapped.y } });
+  return { point: snapped, guides };
+};
+
+export const snapAngle = (angleDegrees: number, step: number): number => Math.round(angleDegrees / step) * step;
+
+// Body drags snap the component's center.
+export const snapMirrorCenter = (mirror: PlacedMirror, settings: SnapSettings, targets: Point[]): { mirror: PlacedMirror; guides: SnapGuide[] } => {
+  const { point, guides } = snapPoint(getSegmentMidpoint(mirror), settings, targets);
+  return { mirror: setMirrorCenter(mirror, point), guides };
+};
+
+// Endpoint drags turn about the other end. With a fixed length (rotate mode) only the angle snaps;
+// otherwise the dragged end snaps like any point and the angle snap then overrides its direction.
+export const snapEndpoint = (fixedPoint: Point, pointer: Point, settings: SnapSettings, targets: Point[], fixedLength?: number): SnappedPoint => {
+  const positioned = fixedLength === undefined ? snapPoint(pointer, settings, targets) : { point: pointer, guides: [] };
+  const offset = subtractPoints(positioned.point, fixedPoint);
+  const length = fixedLength ?? Math.hypot(offset.x, offset.y);
+  if (settings.angleStep === null || length < 0.001) {
+    if (fixedLength === undefined) return positioned;
+    return { point: addPoints(fixedPoint, scaleVector(offset, length / Math.max(Math.hypot(offset.x, offset.y), 0.001))), guides: [] };
+  }
+
+  const angle = snapAngle(Math.atan2(offset.y, offset.x) * 180 / Math.PI, settings.angleStep) * Math.PI / 180;
+  const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+  return {
+    point: addPoints(fixedPoint, scaleVector(direction, length)),
+    guides: [{
+      kind: 'angle',
+      from: addPoints(fixedPoint, scaleVector(direction, -ANGLE_GUIDE_OVERHANG)),
+      to: addPoints(fixedPoint, scaleVector(direction, length + ANGLE_GUIDE_OVERHANG)),
+    }],
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { DetectorType, PlacedMirror } from '../types';
+import { INITIAL_PALETTE_MIRRORS } from '../constants';
+import { solveLevel, evaluateBoard, type SolverScene } from './solver';
+import { generateLevel } from './levelGenerator';
+
+const source = { id: 'source', position: { x: 100, y: 300 }, initialDirection: { x: 1, y: 0 } };
+// Open to light travelling right (+x), straight ahead of the source
+const aheadDetector: DetectorType = { id: 'ahead', x: 700, y: 285, width: 30, height: 30, angle: 0 };
+// Open to light travelling up (-y), well above the source's beam
+const aboveDetector: DetectorType = { id: 'above', x: 385, y: 60, width: 30, height: 30, angle: 270 };
+
+const mirrorsOnly = INITIAL_PALETTE_MIRRORS.filter(t => t.type === 'default');
+
+const isSolved = (scene: SolverScene, mirrors: PlacedMirror[]): boolean => {
+  const { hitDetectorIds } = evaluateBoard(scene, mirrors);
+  return scene.detectors.every(d => hitDetectorIds.has(d.id));
+};
+
+describe('solver', () => {
+  it('places nothing when the board is already solved', () => {
+    const scene: SolverScene = { sources: [source], detectors: [aheadDetector], obstacles: [] };
+    expect(solveLevel(scene, { templates: mirrorsOnly, maxComponents: 2 })).toEqual([]);
+  });
+
+  it('turns the beam into a detector off its path', () => {
+    const scene: SolverScene = { sources: [source], detectors: [aboveDetector], obstacles: [] };
+    const solution = solveLevel(scene, { templates: mirrorsOnly, maxComponents: 2 });
+    expect(solution).not.toBeNull();
+    expect(solution!.length).toBeGreaterThan(0);
+    expect(solution!.length).toBeLessThanOrEqual(2);
+    expect(solution!.every(m => m.type === 'default')).toBe(true);
+    expect(isSolved(scene, solution!)).toBe(true);
+  });
+
+  it('gives up when there are no components to place', () => {
+    const scene: SolverScene = { sources: [source], detectors: [aboveDetector], obstacles: [] };
+    expect(solveLevel(scene, { templates: mirrorsOnly, maxComponents: 0 })).toBeNull();
+    expect(solveLevel(scene, { templates: [], maxComponents: 2 })).toBeNull();
+  });
+
+  it('builds on fixed mirrors without returning them', () => {
+    const scene: SolverScene = { sources: [source], detectors: [aboveDetector, aheadDetector], obstacles: [] };
+    const fixedMirrors = solveLevel({ ...scene, detectors: [aboveDetector] }, { templates: mirrorsOnly, maxComponents: 2 })!;
+    const solution = solveLevel(scene, { templates: INITIAL_PALETTE_MIRRORS, maxComponents: 2, fixedMirrors });
+    expect(solution).not.toBeNull();
+    expect(solution!.some(m => fixedMirrors.includes(m))).toBe(false);
+    expect(isSolved(scene, [...fixedMirrors, ...solution!])).toBe(true);
+  });
+});
+
+describe('level generation', () => {
+  it('builds the same level from the same seed, with a solution that solves it', () => {
+    const level = generateLevel('abc');
+    expect(generateLevel('abc')).toEqual(level);
+    expect(level.solution!.length).toBeGreaterThan(0);
+    expect(isSolved(level, level.solution!)).toBe(true);
+  });
+});
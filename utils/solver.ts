@@ -0,0 +1,155 @@
+import type { Point, PlacedMirror, Obstacle, DetectorType, LaserSource, LaserSegment, PaletteMirrorTemplate, MirrorType } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT, GAME_BOUNDARY_PADDING, SOLVER_MAX_EVALUATIONS } from '../constants';
+import { subtractPoints, addPoints, scaleVector, normalizeVector, distance, raySegmentIntersection } from './geometry';
+import { buildStaticSceneIndex, type StaticSceneIndex } from './spatialIndex';
+import { simulate, getDetectorEntryDirection } from './simulation';
+
+export interface SolverScene {
+  sources: LaserSource[];
+  detectors: DetectorType[];
+  obstacles: Obstacle[];
+  absorbingBoundaries?: boolean;
+  staticIndex?: StaticSceneIndex;
+}
+
+export interface SolverOptions {
+  templates: PaletteMirrorTemplate[]; // Components the solver may place
+  maxComponents: number;
+  fixedMirrors?: PlacedMirror[]; // Already on the board; they stay where they are and do not count towards maxComponents
+  maxEvaluations?: number; // Upper bound on full-board traces before giving up
+}
+
+export interface BoardEvaluation {
+  segments: LaserSegment[];
+  hitDetectorIds: Set<string>;
+}
+
+// A mirror position and the surface normal it needs, before a component type is chosen.
+interface MirrorPlacement {
+  center: Point;
+  normal: Point;
+}
+
+const MIN_DISTANCE_FROM_DETECTOR = 50; // Keeps routing mirrors clear of the detector body
+const MIN_LEG_LENGTH = 40; // Shortest beam between two routing mirrors
+const TWO_MIRROR_SEGMENT_FRACTIONS = [0.2, 0.4, 0.6, 0.8];
+const TWO_MIRROR_APPROACH_DISTANCES = [70, 140, 210, 280, 350];
+const ROUTING_TYPES: MirrorType[] = ['default', 'beam-splitter'];
+
+// Traces every source against the given mirrors, exactly as the game does.
+export const evaluateBoard = (scene: SolverScene, mirrors: PlacedMirror[]): BoardEvaluation => {
+  const result = simulate({ ...scene, mirrors });
+  return { segments: result.traces.flatMap(trace => trace.segments), hitDetectorIds: result.hitDetectorIds };
+};
+
+const isInsideBoard = (point: Point): boolean => {
+  return point.x > GAME_BOUNDARY_PADDING && point.x < GAME_WIDTH - GAME_BOUNDARY_PADDING &&
+         point.y > GAME_BOUNDARY_PADDING && point.y < GAME_HEIGHT - GAME_BOUNDARY_PADDING;
+};
+
+// The normal that turns a beam travelling along incomingDirection into outgoingDirection.
+const normalForTurn = (incomingDirection: Point, outgoingDirection: Point): Point | null => {
+  const normal = normalizeVector(subtractPoints(outgoingDirection, incomingDirection));
+  return normal.x === 0 && normal.y === 0 ? null : normal;
+};
+
+export const createMirrorFromPlacement = (
+  id: string,
+  center: Point,
+  normal: Point,
+  length: number,
+  type: MirrorType
+): PlacedMirror => {
+  const surfaceDirection = { x: -normal.y, y: normal.x };
+  const halfOffset = scaleVector(surfaceDirection, length / 2);
+  return { id, type, p1: subtractPoints(center, halfOffset), p2: addPoints(center, halfOffset) };
+};
+
+// Candidate ways to bring light from an existing beam into the detector using one or two mirrors.
+// Single-mirror routes come first so that the solver prefers short solutions.
+const findRouteCandidates = (detector: DetectorType, segments: LaserSegment[], freeSlots: number): MirrorPlacement[][] => {
+  const entryDirection = getDetectorEntryDirection(detector);
+  const approachDirection = scaleVector(entryDirection, -1);
+  const detectorCenter = { x: detector.x + detector.width / 2, y: detector.y + detector.height / 2 };
+
+  const singleMirrorRoutes: MirrorPlacement[][] = [];
+  const twoMirrorRoutes: MirrorPlacement[][] = [];
+
+  for (const segment of segments) {
+    const segmentDirection = normalizeVector(subtractPoints(segment.end, segment.start));
+
+    const turnPoint = raySegmentIntersection(detectorCenter, approachDirection, segment.start, segment.end);
+    if (turnPoint && isInsideBoard(turnPoint) &&
+        distance(turnPoint, detectorCenter) > MIN_DISTANCE_FROM_DETECTOR &&
+        distance(turnPoint, segment.start) > 1) {
+      const normal = normalForTurn(segmentDirection, entryDirection);
+      if (normal) singleMirrorRoutes.push([{ center: turnPoint, normal }]);
+    }
+
+    if (freeSlots < 2) continue;
+    for (const fraction of TWO_MIRROR_SEGMENT_FRACTIONS) {
+      const firstPoint = addPoints(segment.start, scaleVector(subtractPoints(segment.end, segment.start), fraction));
+      if (!isInsideBoard(firstPoint)) continue;
+      for (const approachDistance of TWO_MIRROR_APPROACH_DISTANCES) {
+        const secondPoint = addPoints(detectorCenter, scaleVector(approachDirection, approachDistance));
+        if (!isInsideBoard(secondPoint) || distance(firstPoint, secondPoint) < MIN_LEG_LENGTH) continue;
+        const legDirection = normalizeVector(subtractPoints(secondPoint, firstPoint));
+        const firstNormal = normalForTurn(segmentDirection, legDirection);
+        const secondNormal = normalForTurn(legDirection, entryDirection);
+        if (firstNormal && secondNormal) {
+          twoMirrorRoutes.push([{ center: firstPoint, normal: firstNormal }, { center: secondPoint, normal: secondNormal }]);
+        }
+      }
+    }
+  }
+  return [...singleMirrorRoutes, ...twoMirrorRoutes];
+};
+
+// Searches for a set of mirrors that lights every detector at an accepted angle.
+// Works detector by detector: route light to the first unlit detector from any existing beam,
+// keep the placement only if no previously lit detector goes dark, then recurse.
+// Returns the placed components (excluding fixedMirrors), or null if no solution was found within budget.
+export const solveLevel = (scene: SolverScene, options: SolverOptions): PlacedMirror[] | null => {
+  const fixedMirrors = options.fixedMirrors ?? [];
+  // Every candidate board shares the level's obstacles and detectors, so they are indexed once
+  const indexedScene: SolverScene = scene.staticIndex ? scene : { ...scene, staticIndex: buildStaticSceneIndex(scene.obstacles, scene.detectors) };
+  const maxEvaluations = options.maxEvaluations ?? SOLVER_MAX_EVALUATIONS;
+  const routingTemplates = ROUTING_TYPES
+    .map(type => options.templates.find(t => t.type === type))
+    .filter((t): t is PaletteMirrorTemplate => t !== undefined);
+  let evaluations = 0;
+
+  const search = (placed: PlacedMirror[], evaluation: BoardEvaluation): PlacedMirror[] | null => {
+    const unlitDetectors = scene.detectors.filter(d => !evaluation.hitDetectorIds.has(d.id));
+    if (unlitDetectors.length === 0) return placed;
+    const freeSlots = options.maxComponents - placed.length;
+    if (freeSlots <= 0 || routingTemplates.length === 0) return null;
+
+    // Leave the beam running past the first mirror when other detectors may still need it
+    const firstMirrorTemplates = unlitDetectors.length > 1 ? [...routingTemplates].reverse() : routingTemplates;
+    const target = unlitDetectors[0];
+
+    for (const route of findRouteCandidates(target, evaluation.segments, freeSlots)) {
+      for (const firstTemplate of firstMirrorTemplates) {
+        if (evaluations >= maxEvaluations) return null;
+        const routeMirrors = route.map((placement, i) => {
+          const template = i === 0 ? firstTemplate : routingTemplates[0];
+          return createMirrorFromPlacement(`solution-${placed.length + i}`, placement.center, placement.normal, template.defaultLength, template.type);
+        });
+        if (!routeMirrors.every(m => isInsideBoard(m.p1) && isInsideBoard(m.p2))) continue;
+        const candidate = [...placed, ...routeMirrors];
+        const candidateEvaluation = evaluateBoard(indexedScene, [...fixedMirrors, ...candidate]);
+        evaluations++;
+
+        const keepsLitDetectors = [...evaluation.hitDetectorIds].every(id => candidateEvaluation.hitDetectorIds.has(id));
+        if (!candidateEvaluation.hitDetectorIds.has(target.id) || !keepsLitDetectors) continue;
+
+        const solution = search(candidate, candidateEvaluation);
+        if (solution) return solution;
+      }
+    }
+    return null;
+  };
+
+  return search([], evaluateBoard(indexedScene, fixedMirrors));
+};
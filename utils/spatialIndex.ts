@@ -0,0 +1,185 @@
+import type { Point, PlacedMirror, Obstacle, CircleObstacle, DetectorType, IntersectionDetail, BoundaryObject } from '../types';
+import { SPATIAL_INDEX_CELL_SIZE } from '../constants';
+import {
+  EPSILON, raySegmentIntersection, rayCircleIntersection, findClosestIntersection,
+  subtractPoints, normalizeVector, distance, getPolygonEdges, getObstacleVertices
+} from './geometry';
+
+// Uniform grid over the parts of a board that never move: obstacles and detectors.
+// Build it once per level and hand it to the simulation with the scene; mirrors move every drag frame,
+// so they are still tested one by one next to it.
+//
+// Queries give exactly what findClosestIntersection does without the index: the same intersection
+// functions on the same edges, and ties at equal distance go to whatever the brute-force loop meets first
+// (mirrors and boundaries, then obstacles in order, then detectors in order).
+
+type StaticPrimitive =
+  | { kind: 'segment'; p1: Point; p2: Point; normal?: Point; object: Obstacle | DetectorType; type: 'obstacle' | 'detector'; order: number }
+  | { kind: 'circle'; center: Point; radius: number; object: CircleObstacle; order: number };
+
+export interface StaticSceneIndex {
+  obstacles: Obstacle[]; // What the index was built from, so a stale index is never used
+  detectors: DetectorType[];
+  primitives: StaticPrimitive[];
+  origin: Point; // Top-left corner of the grid
+  cellSize: number;
+  columns: number;
+  rows: number;
+  cells: number[][]; // Primitive indices per cell, row by row
+  visitStamps: Int32Array; // Per primitive, the last query that tested it; avoids re-testing across cells
+  queryCount: number;
+}
+
+const CELL_PADDING = 1; // Primitives also go into cells within this many px, so hits on cell borders are never missed
+
+const collectPrimitives = (obstacles: Obstacle[], detectors: DetectorType[]): StaticPrimitive[] => {
+  const primitives: StaticPrimitive[] = [];
+  for (const obstacle of obstacles) {
+    if (obstacle.shape === 'line') {
+      const lineVector = subtractPoints(obstacle.p2, obstacle.p1);
+      primitives.push({ kind: 'segment', p1: obstacle.p1, p2: obstacle.p2, normal: normalizeVector({ x: -lineVector.y, y: lineVector.x }), object: obstacle, type: 'obstacle', order: primitives.length });
+    } else if (obstacle.shape === 'rectangle' || obstacle.shape === 'polygon') {
+      for (const edge of getPolygonEdges(getObstacleVertices(obstacle))) {
+        primitives.push({ kind: 'segment', p1: edge.p1, p2: edge.p2, normal: edge.outwardNormal, object: obstacle, type: 'obstacle', order: primitives.length });
+      }
+    } else {
+      primitives.push({ kind: 'circle', center: { x: obstacle.cx, y: obstacle.cy }, radius: obstacle.radius, object: obstacle, order: primitives.length });
+    }
+  }
+  for (const detector of detectors) {
+    const { x, y, width, height } = detector;
+    const corners: Point[] = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+    for (let i = 0; i < 4; i++) {
+      primitives.push({ kind: 'segment', p1: corners[i], p2: corners[(i + 1) % 4], object: detector, type: 'detector', order: primitives.length });
+    }
+  }
+  return primitives;
+};
+
+const getPrimitiveBounds = (primitive: StaticPrimitive): { min: Point; max: Point } => {
+  if (primitive.kind === 'circle') {
+    const { center, radius } = primitive;
+    return { min: { x: center.x - radius, y: center.y - radius }, max: { x: center.x + radius, y: center.y + radius } };
+  }
+  const { p1, p2 } = primitive;
+  return { min: { x: Math.min(p1.x, p2.x), y: Math.min(p1.y, p2.y) }, max: { x: Math.max(p1.x, p2.x), y: Math.max(p1.y, p2.y) } };
+};
+
+export const buildStaticSceneIndex = (obstacles: Obstacle[], detectors: DetectorType[], cellSize: number = SPATIAL_INDEX_CELL_SIZE): StaticSceneIndex => {
+  const primitives = collectPrimitives(obstacles, detectors);
+  const bounds = primitives.map(getPrimitiveBounds);
+  const min = {
+    x: Math.min(0, ...bounds.map(b => b.min.x)) - CELL_PADDING,
+    y: Math.min(0, ...bounds.map(b => b.min.y)) - CELL_PADDING,
+  };
+  const max = {
+    x: Math.max(0, ...bounds.map(b => b.max.x)) + CELL_PADDING,
+    y: Math.max(0, ...bounds.map(b => b.max.y)) + CELL_PADDING,
+  };
+  const columns = Math.max(1, Math.ceil((max.x - min.x) / cellSize));
+  const rows = Math.max(1, Math.ceil((max.y - min.y) / cellSize));
+  const cells: number[][] = Array.from({ length: columns * rows }, () => []);
+
+  const toColumn = (x: number) => Math.min(columns - 1, Math.max(0, Math.floor((x - min.x) / cellSize)));
+  const toRow = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor((y - min.y) / cellSize)));
+  bounds.forEach((b, i) => {
+    for (let row = toRow(b.min.y - CELL_PADDING); row <= toRow(b.max.y + CELL_PADDING); row++) {
+      for (let column = toColumn(b.min.x - CELL_PADDING); column <= toColumn(b.max.x + CELL_PADDING); column++) {
+        cells[row * columns + column].push(i);
+      }
+    }
+  });
+
+  return { obstacles, detectors, primitives, origin: min, cellSize, columns, rows, cells, visitStamps: new Int32Array(primitives.length), queryCount: 0 };
+};
+
+export const isIndexFor = (index: StaticSceneIndex, obstacles: Obstacle[], detectors: DetectorType[]): boolean =>
+  index.obstacles === obstacles && index.detectors === detectors;
+
+interface StaticHit {
+  detail: IntersectionDetail;
+  order: number;
+}
+
+const testPrimitive = (primitive: StaticPrimitive, rayOrigin: Point, rayDirection: Point, best: StaticHit | null): StaticHit | null => {
+  let point: Point | null;
+  let normal: Point | undefined;
+  if (primitive.kind === 'circle') {
+    point = rayCircleIntersection(rayOrigin, rayDirection, primitive.center, primitive.radius);
+    if (point) normal = normalizeVector(subtractPoints(point, primitive.center));
+  } else {
+    point = raySegmentIntersection(rayOrigin, rayDirection, primitive.p1, primitive.p2);
+    normal = primitive.normal;
+  }
+  if (!point) return best;
+  const dist = distance(rayOrigin, point);
+  if (dist <= EPSILON) return best;
+  if (best && (dist > best.detail.distance || (dist === best.detail.distance && primitive.order > best.order))) return best;
+  const type = primitive.kind === 'circle' ? 'obstacle' : primitive.type;
+  return { detail: { point, distance: dist, object: primitive.object, type, ...(normal && { normal }) }, order: primitive.order };
+};
+
+// Closest obstacle or detector hit. Cells are walked along the ray (Amanatides & Woo) and the walk stops
+// once a hit lies clearly inside the cells seen so far, or past maxDistance.
+export const findClosestStaticIntersection = (
+  index: StaticSceneIndex,
+  rayOrigin: Point,
+  rayDirection: Point,
+  maxDistance: number = Infinity
+): IntersectionDetail | null => {
+  const stamp = ++index.queryCount;
+  let best: StaticHit | null = null;
+  const { origin, cellSize, columns, rows, cells, primitives, visitStamps } = index;
+
+  let column = Math.floor((rayOrigin.x - origin.x) / cellSize);
+  let row = Math.floor((rayOrigin.y - origin.y) / cellSize);
+  if (column < 0 || row < 0 || column >= columns || row >= rows) {
+    // Rays starting off the grid are rare (sources placed outside the board); test everything
+    for (const primitive of primitives) best = testPrimitive(primitive, rayOrigin, rayDirection, best);
+    return best ? best.detail : null;
+  }
+
+  const direction = normalizeVector(rayDirection); // So that t is the distance travelled
+  const stepX = direction.x > 0 ? 1 : -1;
+  const stepY = direction.y > 0 ? 1 : -1;
+  const tDeltaX = direction.x !== 0 ? cellSize / Math.abs(direction.x) : Infinity;
+  const tDeltaY = direction.y !== 0 ? cellSize / Math.abs(direction.y) : Infinity;
+  const nextBorderX = origin.x + (column + (stepX > 0 ? 1 : 0)) * cellSize;
+  const nextBorderY = origin.y + (row + (stepY > 0 ? 1 : 0)) * cellSize;
+  let tMaxX = direction.x !== 0 ? (nextBorderX - rayOrigin.x) / direction.x : Infinity;
+  let tMaxY = direction.y !== 0 ? (nextBorderY - rayOrigin.y) / direction.y : Infinity;
+  let tEntry = 0;
+
+  while (tEntry <= maxDistance + CELL_PADDING) {
+    for (const i of cells[row * columns + column]) {
+      if (visitStamps[i] === stamp) continue;
+      visitStamps[i] = stamp;
+      best = testPrimitive(primitives[i], rayOrigin, rayDirection, best);
+    }
+    const tExit = Math.min(tMaxX, tMaxY);
+    if (best && best.detail.distance < tExit - CELL_PADDING) break;
+    if (tMaxX < tMaxY) {
+      column += stepX;
+      tMaxX += tDeltaX;
+    } else {
+      row += stepY;
+      tMaxY += tDeltaY;
+    }
+    if (column < 0 || row < 0 || column >= columns || row >= rows) break;
+    tEntry = tExit;
+  }
+  return best ? best.detail : null;
+};
+
+// Drop-in for findClosestIntersection when the obstacles and detectors are covered by an index.
+export const findClosestIntersectionIndexed = (
+  rayOrigin: Point,
+  rayDirection: Point,
+  mirrors: PlacedMirror[],
+  index: StaticSceneIndex,
+  boundaries?: BoundaryObject[]
+): IntersectionDetail | null => {
+  const dynamicHit = findClosestIntersection(rayOrigin, rayDirection, mirrors, [], [], boundaries);
+  const staticHit = findClosestStaticIntersection(index, rayOrigin, rayDirection, dynamicHit ? dynamicHit.distance : Infinity);
+  return staticHit && (!dynamicHit || staticHit.distance < dynamicHit.distance) ? staticHit : dynamicHit;
+};
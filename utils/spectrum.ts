@@ -0,0 +1,44 @@
+import type { LaserSource, PlacedMirror } from '../types';
+import {
+  DEFAULT_LASER_WAVELENGTH, LASER_WAVELENGTHS, WAVELENGTH_MATCH_TOLERANCE_NM,
+  DICHROIC_DEFAULT_CUTOFF_WAVELENGTH, COLOR_FILTER_DEFAULT_WAVELENGTH, COLOR_FILTER_HALF_BANDWIDTH_NM
+} from '../constants';
+
+// Wavelengths are in nanometres throughout the game.
+
+export const getSourceWavelength = (source: LaserSource): number => source.wavelength ?? DEFAULT_LASER_WAVELENGTH;
+
+export const wavelengthsMatch = (a: number, b: number): boolean => Math.abs(a - b) <= WAVELENGTH_MATCH_TOLERANCE_NM;
+
+export const getWavelengthName = (wavelength: number): string => {
+  const named = LASER_WAVELENGTHS.find(w => wavelengthsMatch(w.wavelength, wavelength));
+  return named ? named.name : `${Math.round(wavelength)} nm`;
+};
+
+// Dichroic mirrors reflect wavelengths below their cutoff and pass the rest.
+export const isReflectedByDichroic = (mirror: PlacedMirror, wavelength: number): boolean => {
+  return wavelength < (mirror.cutoffWavelength ?? DICHROIC_DEFAULT_CUTOFF_WAVELENGTH);
+};
+
+// Color filters pass a band around their wavelength and absorb everything else.
+export const isPassedByFilter = (mirror: PlacedMirror, wavelength: number): boolean => {
+  return Math.abs(wavelength - (mirror.passWavelength ?? COLOR_FILTER_DEFAULT_WAVELENGTH)) <= COLOR_FILTER_HALF_BANDWIDTH_NM;
+};
+
+// Approximate sRGB color of visible light (after Dan Bruton's piecewise fit), dimmed towards the ends of the spectrum.
+export const wavelengthToColor = (wavelength: number): string => {
+  let r = 0, g = 0, b = 0;
+  if (wavelength >= 380 && wavelength < 440) { r = (440 - wavelength) / 60; b = 1; }
+  else if (wavelength >= 440 && wavelength < 490) { g = (wavelength - 440) / 50; b = 1; }
+  else if (wavelength >= 490 && wavelength < 510) { g = 1; b = (510 - wavelength) / 20; }
+  else if (wavelength >= 510 && wavelength < 580) { r = (wavelength - 510) / 70; g = 1; }
+  else if (wavelength >= 580 && wavelength < 645) { r = 1; g = (645 - wavelength) / 65; }
+  else if (wavelength >= 645 && wavelength <= 780) { r = 1; }
+
+  let factor = 1;
+  if (wavelength < 420) factor = 0.3 + 0.7 * Math.max(0, wavelength - 380) / 40;
+  else if (wavelength > 700) factor = 0.3 + 0.7 * Math.max(0, 780 - wavelength) / 80;
+
+  const channel = (value: number) => Math.round(255 * Math.pow(value * factor, 0.8));
+  return `rgb(${channel(r)} ${channel(g)} ${channel(b)})`;
+};
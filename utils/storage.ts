@@ -0,0 +1,19 @@
+// JSON in localStorage. Storage can be missing (private browsing, blocked cookies) or hold anything,
+// so reads return null instead of throwing and writes are best effort.
+
+export const readStoredJson = (key: string): unknown => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeStoredJson = (key: string, value: unknown): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // A full quota or blocked storage: the value only lasts for this session
+  }
+};
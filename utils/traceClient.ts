@@ -0,0 +1,148 @@
+import type { LaserSource, PlacedMirror, Obstacle, DetectorType, Level } from '../types';
+import { buildStaticSceneIndex, type StaticSceneIndex } from './spatialIndex';
+import { generateLevel } from './levelGenerator';
+import {
+  runTraceRequest, type StaticTraceScene, type TraceRequest, type TraceResult, type TraceWorkerMessage, type TraceWorkerReply
+} from './traceProtocol';
+
+// Hands boards to the tracing worker and passes results back, newest first.
+// At most one request is in flight: while it runs, newer boards replace each other and only the latest
+// is sent next, so a fast drag never queues up frames nobody will see. Results from before the last
+// change of obstacles or detectors are dropped. Without workers (or once the worker fails to load or to
+// trace a board), boards are traced synchronously on the calling thread instead.
+// Levels are generated by the same worker, one at a time: a new request replaces one still pending.
+
+export interface TraceBoard {
+  sources: LaserSource[];
+  detectors: DetectorType[];
+  obstacles: Obstacle[];
+  mirrors: PlacedMirror[];
+  absorbingBoundaries?: boolean;
+}
+
+export interface TraceClient {
+  trace: (board: TraceBoard) => void;
+  generate: (seed: string, onLevel: (level: Level) => void) => () => void; // Returns a function that cancels the request
+  dispose: () => void;
+}
+
+const createWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./traceWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+};
+
+export const createTraceClient = (onResult: (result: TraceResult) => void): TraceClient => {
+  let worker = createWorker();
+  let staticScene: StaticTraceScene | null = null;
+  let localIndex: StaticSceneIndex | null = null; // Only built for synchronous tracing
+  let nextRequestId = 1;
+  let firstCurrentRequestId = 1; // Requests before this one were traced against older obstacles or detectors
+  let inFlight: TraceRequest | null = null;
+  let queued: TraceRequest | null = null;
+  let nextGenerationId = 1;
+  let pendingGeneration: { requestId: number; seed: string; onLevel: (level: Level) => void } | null = null;
+  let disposed = false;
+
+  const traceSynchronously = (request: TraceRequest) => {
+    if (!staticScene) return;
+    if (!localIndex) localIndex = buildStaticSceneIndex(staticScene.obstacles, staticScene.detectors);
+    onResult(runTraceRequest(request, staticScene, localIndex));
+  };
+
+  const post = (message: TraceWorkerMessage) => worker?.postMessage(message);
+
+  const sendNext = () => {
+    inFlight = queued;
+    queued = null;
+    if (inFlight) post({ type: 'trace', request: inFlight });
+  };
+
+  const fallBackToSynchronous = () => {
+    worker?.terminate();
+    worker = null;
+    const latest = queued ?? inFlight;
+    inFlight = null;
+    queued = null;
+    if (latest) traceSynchronously(latest);
+    const generation = pendingGeneration;
+    pendingGeneration = null;
+    if (generation) generation.onLevel(generateLevel(generation.seed));
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<TraceWorkerReply>) => {
+      if (disposed) return;
+      const reply = event.data;
+      if (reply.type === 'level') {
+        const generation = pendingGeneration;
+        if (generation?.requestId !== reply.requestId) return;
+        pendingGeneration = null;
+        generation.onLevel(reply.level);
+        return;
+      }
+      if (reply.type === 'error') {
+        // Retraced here, where an error in the board itself surfaces with its stack
+        fallBackToSynchronous();
+        return;
+      }
+      if (reply.result.requestId >= firstCurrentRequestId) onResult(reply.result);
+      sendNext();
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      if (!disposed) fallBackToSynchronous();
+    };
+  }
+
+  const trace = (board: TraceBoard) => {
+    if (disposed) return;
+    const request: TraceRequest = {
+      requestId: nextRequestId++,
+      sources: board.sources,
+      mirrors: board.mirrors,
+      absorbingBoundaries: board.absorbingBoundaries,
+    };
+
+    if (!staticScene || staticScene.obstacles !== board.obstacles || staticScene.detectors !== board.detectors) {
+      staticScene = { obstacles: board.obstacles, detectors: board.detectors };
+      localIndex = null;
+      firstCurrentRequestId = request.requestId;
+      post({ type: 'static-scene', scene: staticScene });
+    }
+
+    if (!worker) {
+      traceSynchronously(request);
+    } else if (inFlight) {
+      queued = request;
+    } else {
+      inFlight = request;
+      post({ type: 'trace', request });
+    }
+  };
+
+  const generate = (seed: string, onLevel: (level: Level) => void): (() => void) => {
+    if (disposed) return () => {};
+    if (!worker) {
+      onLevel(generateLevel(seed));
+      return () => {};
+    }
+    const generation = { requestId: nextGenerationId++, seed, onLevel };
+    pendingGeneration = generation;
+    post({ type: 'generate', requestId: generation.requestId, seed });
+    return () => {
+      if (pendingGeneration === generation) pendingGeneration = null;
+    };
+  };
+
+  const dispose = () => {
+    disposed = true;
+    worker?.terminate();
+    worker = null;
+  };
+
+  return { trace, generate, dispose };
+};
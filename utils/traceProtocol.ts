@@ -0,0 +1,69 @@
+import type { LaserSegment, LaserSource, PlacedMirror, Obstacle, DetectorType, Level } from '../types';
+import { simulate } from './simulation';
+import type { StaticSceneIndex } from './spatialIndex';
+
+// Messages between the app and the tracing worker. The parts of a board that never move are sent once
+// per level (the worker builds its own spatial index from them); every drag frame only sends the rest.
+// Levels are generated there too, since proving a generated board solvable can take a second or more.
+
+export interface StaticTraceScene {
+  obstacles: Obstacle[];
+  detectors: DetectorType[];
+}
+
+export interface TraceRequest {
+  requestId: number;
+  sources: LaserSource[];
+  mirrors: PlacedMirror[];
+  absorbingBoundaries?: boolean;
+}
+
+export interface TraceResult {
+  requestId: number;
+  paths: { sourceId: string; segments: LaserSegment[] }[];
+  hitDetectorIds: Set<string>;
+  receivedPower: Record<string, number>; // Accepted power per detector id
+  allDetectorsHit: boolean;
+}
+
+export type TraceWorkerMessage =
+  | { type: 'static-scene'; scene: StaticTraceScene }
+  | { type: 'trace'; request: TraceRequest }
+  | { type: 'generate'; requestId: number; seed: string };
+
+export type TraceWorkerReply =
+  | { type: 'result'; result: TraceResult }
+  | { type: 'error'; requestId: number } // The request threw; the client traces it again itself
+  | { type: 'level'; requestId: number; level: Level };
+
+// Runs one request against the static scene. Shared by the worker and the synchronous fallback.
+export const runTraceRequest = (request: TraceRequest, scene: StaticTraceScene, staticIndex?: StaticSceneIndex): TraceResult => {
+  const { traces, detectors, hitDetectorIds, allDetectorsHit } = simulate({
+    sources: request.sources,
+    detectors: scene.detectors,
+    obstacles: scene.obstacles,
+    mirrors: request.mirrors,
+    absorbingBoundaries: request.absorbingBoundaries,
+    staticIndex,
+  });
+  return {
+    requestId: request.requestId,
+    paths: traces.map(trace => ({ sourceId: trace.sourceId, segments: trace.segments })),
+    hitDetectorIds,
+    receivedPower: Object.fromEntries(detectors.map(r => [r.detectorId, r.receivedPower])),
+    allDetectorsHit,
+  };
+};
+
+const segmentsEqual = (a: LaserSegment, b: LaserSegment): boolean =>
+  a.start.x === b.start.x && a.start.y === b.start.y && a.end.x === b.end.x && a.end.y === b.end.y &&
+  a.wavelength === b.wavelength && a.power === b.power && a.polarization === b.polarization;
+
+export const laserPathsEqual = (a: LaserSegment[], b: LaserSegment[]): boolean => {
+  return a.length === b.length && a.every((segment, i) => segmentsEqual(segment, b[i]));
+};
+
+export const receivedPowerEqual = (a: Record<string, number>, b: Record<string, number>): boolean => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
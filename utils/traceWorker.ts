@@ -0,0 +1,30 @@
+import { buildStaticSceneIndex, type StaticSceneIndex } from './spatialIndex';
+import { generateLevel } from './levelGenerator';
+import { runTraceRequest, type StaticTraceScene, type TraceWorkerMessage, type TraceWorkerReply } from './traceProtocol';
+
+// Worker entry point: traces boards and generates levels off the main thread. Loaded through createTraceClient.
+
+const context = self as unknown as Worker;
+
+let scene: StaticTraceScene = { obstacles: [], detectors: [] };
+let staticIndex: StaticSceneIndex = buildStaticSceneIndex(scene.obstacles, scene.detectors);
+
+const reply = (message: TraceWorkerReply) => context.postMessage(message);
+
+context.onmessage = (event: MessageEvent<TraceWorkerMessage>) => {
+  const message = event.data;
+  if (message.type === 'static-scene') {
+    scene = message.scene;
+    staticIndex = buildStaticSceneIndex(scene.obstacles, scene.detectors);
+    return;
+  }
+  if (message.type === 'generate') {
+    reply({ type: 'level', requestId: message.requestId, level: generateLevel(message.seed) });
+    return;
+  }
+  try {
+    reply({ type: 'result', result: runTraceRequest(message.request, scene, staticIndex) });
+  } catch {
+    reply({ type: 'error', requestId: message.request.requestId });
+  }
+};